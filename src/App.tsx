@@ -5,6 +5,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Login from "./pages/Login";
+import OAuthCallback from "./pages/OAuthCallback";
+import MockOAuth from "./pages/MockOAuth";
+import { DERIV_CONFIG } from "@/config/deriv";
 
 const queryClient = new QueryClient();
 
@@ -16,6 +20,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/login" element={<Login />} />
+          <Route path="/oauth/callback" element={<OAuthCallback />} />
+          {/* The stand-in login page only exists when the config sends logins to it */}
+          {DERIV_CONFIG.OAUTH_URL === "/oauth/mock" && <Route path="/oauth/mock" element={<MockOAuth />} />}
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
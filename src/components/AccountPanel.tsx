@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Wallet, AlertTriangle, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { derivWS, AccountInfo } from '@/lib/deriv-websocket';
+import { balanceReconciler, BalanceReconciliation } from '@/lib/balance-reconciler';
+import { tradingEngine } from '@/lib/trading-engine';
+import { TradingAccount } from '@/lib/account-manager';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useVaultStatus } from '@/hooks/use-vault-status';
+import { cn } from '@/lib/utils';
+import { AccountTypeBadge } from '@/components/AccountTypeBadge';
+import { VaultUnlockForm } from '@/components/VaultUnlockForm';
+import { toast } from '@/hooks/use-toast';
+
+function signed(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+export function AccountPanel() {
+  const { accounts, active } = useAccounts();
+  const vaultStatus = useVaultStatus();
+  const [account, setAccount] = useState<AccountInfo | null>(derivWS.getAccountInfo());
+  const [reconciliation, setReconciliation] = useState<BalanceReconciliation>(() => balanceReconciler.getSnapshot());
+
+  useEffect(() => {
+    // Copy so React sees a new object on every balance update
+    const accountHandler = (info: AccountInfo) => setAccount({ ...info });
+    derivWS.onAccountChange(accountHandler);
+    balanceReconciler.onUpdate(setReconciliation);
+
+    return () => {
+      derivWS.offAccountChange(accountHandler);
+      balanceReconciler.offUpdate(setReconciliation);
+    };
+  }, []);
+
+  const handleSwitch = (target: TradingAccount) => {
+    if (target.id === active?.id) return;
+    if (!tradingEngine.switchAccount(target.id)) {
+      toast({
+        title: "Account Not Switched",
+        description: "Stop the engine and let open positions close before switching accounts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Shown above the balance details, and on its own before any account has authorized
+  const accountList = vaultStatus === 'locked' || vaultStatus === 'empty' ? (
+    <VaultUnlockForm status={vaultStatus} />
+  ) : (
+    <div className="space-y-1">
+      {accounts.map(a => (
+        <button
+          key={a.id}
+          type="button"
+          onClick={() => handleSwitch(a)}
+          className={cn(
+            "w-full flex items-center gap-2 px-2 py-1 rounded-md text-xs text-left transition-colors",
+            a.id === active?.id ? "bg-primary/10" : "hover:bg-secondary"
+          )}
+        >
+          <AccountTypeBadge account={a} />
+          <span className="text-foreground">{a.name}</span>
+          <span className="font-mono text-muted-foreground">{a.loginid ?? ''}</span>
+          {a.id === active?.id && <Check className="h-3 w-3 ml-auto text-primary" />}
+        </button>
+      ))}
+      {accounts.length === 0 && (
+        <p className="text-xs text-muted-foreground">Add an account under engine settings</p>
+      )}
+    </div>
+  );
+
+  // Until the active token has authorized, only the account list is shown
+  if (!account || !derivWS.getAccountInfo()) {
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <button className="flex items-center gap-2 px-3 py-1 rounded-md bg-secondary/50 text-muted-foreground border border-border">
+            <Wallet className="h-4 w-4" />
+            <span className="text-xs font-mono uppercase">
+              {active ? active.name : vaultStatus === 'locked' ? 'Locked' : 'No Account'}
+            </span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72">
+          {accountList}
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-2 px-3 py-1 rounded-md border transition-colors",
+            reconciliation.isDiscrepant
+              ? "bg-loss/20 text-loss border-loss/40"
+              : "bg-secondary/50 text-foreground border-border hover:border-primary/40"
+          )}
+        >
+          {reconciliation.isDiscrepant ? <AlertTriangle className="h-4 w-4" /> : <Wallet className="h-4 w-4" />}
+          <div className="flex flex-col items-start leading-tight">
+            <span className="flex items-center gap-1 text-xs font-mono">
+              {account.loginid}
+              <AccountTypeBadge account={account} />
+            </span>
+            <span className="text-xs font-mono">{account.balance.toFixed(2)} {account.currency}</span>
+          </div>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        {accountList}
+        <div className="text-xs text-muted-foreground mt-3 pt-3 mb-2 border-t border-border">
+          Session P/L reconciled against the broker balance
+        </div>
+        <div className="space-y-1 text-xs font-mono">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Opening balance</span>
+            <span>{reconciliation.baseline?.toFixed(2) ?? '-'} {account.currency}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Balance change</span>
+            <span>{signed(reconciliation.balanceDelta)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Engine trades</span>
+            <span>{signed(reconciliation.expectedDelta)}</span>
+          </div>
+          <div className={cn(
+            "flex justify-between pt-1 border-t border-border",
+            reconciliation.isDiscrepant ? "text-loss" : "text-profit"
+          )}>
+            <span>Difference</span>
+            <span>{signed(reconciliation.discrepancy)}</span>
+          </div>
+        </div>
+        {reconciliation.isDiscrepant && (
+          <p className="mt-2 text-[10px] text-muted-foreground">
+            The balance moved in a way the engine's trades do not explain, e.g. a deposit, a manual
+            trade or a settlement the engine missed. Rebase once the cause is known.
+          </p>
+        )}
+        <Button size="sm" variant="outline" className="w-full mt-3" onClick={() => balanceReconciler.rebase()}>
+          Rebase
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
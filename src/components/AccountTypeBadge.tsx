@@ -0,0 +1,17 @@
+import { TradingAccount } from '@/lib/account-manager';
+import { cn } from '@/lib/utils';
+
+// DEMO or REAL, or '?' for an account that has not authorized yet
+export function AccountTypeBadge({ account }: { account: Pick<TradingAccount, 'isVirtual'> }) {
+  if (account.isVirtual === null) {
+    return <span className="px-1 rounded text-[10px] font-bold bg-muted text-muted-foreground">?</span>;
+  }
+  return (
+    <span className={cn(
+      "px-1 rounded text-[10px] font-bold",
+      account.isVirtual ? "bg-primary/20 text-primary" : "bg-warning/20 text-warning"
+    )}>
+      {account.isVirtual ? 'DEMO' : 'REAL'}
+    </span>
+  );
+}
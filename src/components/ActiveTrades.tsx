@@ -1,10 +1,11 @@
 import { useEffect, useState } from 'react';
-import { TrendingUp, TrendingDown, Clock, Target, X, Loader2 } from 'lucide-react';
+import { Clock, Target, X, Loader2 } from 'lucide-react';
 import { tradingEngine, Trade } from '@/lib/trading-engine';
-import { derivWS } from '@/lib/deriv-websocket';
+import { describeDuration, getContractCategory } from '@/lib/contract-types';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { toast } from '@/hooks/use-toast';
+import { ContractBadge } from '@/components/ContractBadge';
 
 export function ActiveTrades() {
   const [trades, setTrades] = useState<Trade[]>([]);
@@ -39,6 +40,27 @@ export function ActiveTrades() {
     return `${minutes}m ${seconds % 60}s`;
   };
 
+  // Each contract type is judged against a different reference: payout, barrier or multiplier
+  const targetLabel = (trade: Trade) => {
+    switch (getContractCategory(trade.contract)) {
+      case 'digits': return 'Digit';
+      case 'touch':
+      case 'higher_lower': return 'Barrier';
+      case 'multiplier': return 'Mult';
+      default: return 'Payout';
+    }
+  };
+
+  const targetValue = (trade: Trade) => {
+    switch (getContractCategory(trade.contract)) {
+      case 'digits': return trade.contract.barrier ?? (trade.contract.contractType === 'DIGITEVEN' ? 'even' : 'odd');
+      case 'touch':
+      case 'higher_lower': return trade.barrier ?? trade.contract.barrier;
+      case 'multiplier': return `x${trade.contract.multiplier}`;
+      default: return trade.payout !== undefined ? trade.payout.toFixed(2) : '-';
+    }
+  };
+
   const [closingTrades, setClosingTrades] = useState<Set<string>>(new Set());
 
   const handleCloseTrade = async (trade: Trade) => {
@@ -47,7 +69,7 @@ export function ActiveTrades() {
     setClosingTrades(prev => new Set(prev).add(trade.id));
     
     try {
-      const result = await derivWS.sellContract(trade.contractId, 0);
+      const result = await tradingEngine.closePosition(trade.id);
       if (result.success) {
         toast({
           title: "Trade Closed",
@@ -110,22 +132,11 @@ export function ActiveTrades() {
               trade.direction === 'LONG' ? "border-profit/30" : "border-loss/30"
             )}
           >
-            {/* Direction Badge & Close Button */}
+            {/* Contract Badge & Close Button */}
             <div className="absolute top-2 right-2 flex items-center gap-2">
-              <div className={cn(
-                "px-2 py-0.5 rounded text-xs font-mono font-bold uppercase",
-                trade.direction === 'LONG' 
-                  ? "bg-profit/20 text-profit" 
-                  : "bg-loss/20 text-loss"
-              )}>
-                {trade.direction === 'LONG' ? (
-                  <><TrendingUp className="h-3 w-3 inline mr-1" />LONG</>
-                ) : (
-                  <><TrendingDown className="h-3 w-3 inline mr-1" />SHORT</>
-                )}
-              </div>
+              <ContractBadge contract={trade.contract} />
               
-              {trade.status === 'open' && trade.contractId && (
+              {trade.status === 'open' && trade.contractId && trade.isValidToSell && (
                 <Button
                   size="sm"
                   variant="ghost"
@@ -149,16 +160,23 @@ export function ActiveTrades() {
                 <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
                   <Clock className="h-3 w-3" />
                   {formatDuration(trade.openTime)}
+                  <span className="font-mono">/ {describeDuration(trade.contract)}</span>
                 </div>
               </div>
 
-              <div className="flex-1 grid grid-cols-3 gap-3 text-center">
+              <div className="flex-1 grid grid-cols-4 gap-3 text-center">
                 <div>
                   <div className="text-xs text-muted-foreground">Entry</div>
                   <div className="font-mono text-sm text-foreground">
                     {trade.entryPrice.toFixed(4)}
                   </div>
                 </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">{targetLabel(trade)}</div>
+                  <div className="font-mono text-sm text-foreground">
+                    {targetValue(trade)}
+                  </div>
+                </div>
                 <div>
                   <div className="text-xs text-muted-foreground">Current</div>
                   <div className="font-mono text-sm text-foreground">
@@ -1,87 +1,158 @@
 import { useState } from 'react';
-import { Key, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Key, Eye, EyeOff, Plus, Trash2, Lock, LogIn } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { derivWS } from '@/lib/deriv-websocket';
+import { accountManager, TradingAccount } from '@/lib/account-manager';
+import { credentialVault } from '@/lib/credential-vault';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useVaultStatus } from '@/hooks/use-vault-status';
 import { cn } from '@/lib/utils';
+import { AccountTypeBadge } from '@/components/AccountTypeBadge';
+import { VaultUnlockForm } from '@/components/VaultUnlockForm';
 import { toast } from '@/hooks/use-toast';
 
+function maskToken(token: string): string {
+  return token.length > 8
+    ? `${token.slice(0, 4)}${'•'.repeat(token.length - 8)}${token.slice(-4)}`
+    : '•'.repeat(token.length);
+}
+
 export function ApiKeySettings() {
-  const [apiKey, setApiKey] = useState(derivWS.getApiToken());
+  const { accounts, active } = useAccounts();
+  const vaultStatus = useVaultStatus();
+  const [name, setName] = useState('');
+  const [token, setToken] = useState('');
   const [showKey, setShowKey] = useState(false);
-  const [isEditing, setIsEditing] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
 
-  const handleSave = () => {
-    if (apiKey.trim()) {
-      derivWS.setApiToken(apiKey.trim());
-      setIsEditing(false);
+  const handleAdd = () => {
+    try {
+      const account = accountManager.addAccount(name, token);
       toast({
-        title: "API Key Updated",
-        description: "Reconnecting to Deriv with new credentials...",
+        title: "Account Added",
+        description: `${account.name} can be selected from the account menu in the header`,
       });
+      setName('');
+      setToken('');
+      setIsAdding(false);
+    } catch (error) {
+      toast({ title: "Account Not Added", description: String(error), variant: "destructive" });
     }
   };
 
-  const handleCancel = () => {
-    setApiKey(derivWS.getApiToken());
-    setIsEditing(false);
+  const handleRemove = (account: TradingAccount) => {
+    try {
+      accountManager.removeAccount(account.id);
+    } catch (error) {
+      toast({ title: "Account Not Removed", description: String(error), variant: "destructive" });
+    }
   };
 
-  const maskedKey = apiKey.length > 8 
-    ? `${apiKey.slice(0, 4)}${'•'.repeat(apiKey.length - 8)}${apiKey.slice(-4)}`
-    : '•'.repeat(apiKey.length);
-
   return (
     <div className="bg-secondary/50 rounded-lg p-3">
       <label className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
         <Key className="h-3 w-3" />
-        DERIV API TOKEN
-      </label>
-      
-      {isEditing ? (
-        <div className="space-y-2">
-          <div className="relative">
-            <Input
-              type={showKey ? "text" : "password"}
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="Enter your Deriv API token"
-              className="pr-10 font-mono text-sm bg-background"
-            />
-            <button
-              type="button"
-              onClick={() => setShowKey(!showKey)}
-              className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-            >
-              {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-            </button>
-          </div>
-          <div className="flex gap-2">
-            <Button size="sm" onClick={handleSave} className="flex-1">
-              Save & Reconnect
-            </Button>
-            <Button size="sm" variant="outline" onClick={handleCancel}>
-              Cancel
-            </Button>
-          </div>
-        </div>
-      ) : (
-        <div className="flex items-center gap-2">
-          <div className="flex-1 font-mono text-sm text-foreground bg-background/50 px-3 py-2 rounded-md overflow-hidden">
-            {showKey ? apiKey : maskedKey}
-          </div>
+        DERIV ACCOUNTS
+        {vaultStatus === 'unlocked' && (
           <button
             type="button"
-            onClick={() => setShowKey(!showKey)}
-            className="text-muted-foreground hover:text-foreground p-2"
+            onClick={() => credentialVault.lock()}
+            className="ml-auto flex items-center gap-1 hover:text-foreground"
           >
-            {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            <Lock className="h-3 w-3" />
+            LOCK
           </button>
-          <Button size="sm" variant="terminal" onClick={() => setIsEditing(true)}>
-            <RefreshCw className="h-4 w-4 mr-1" />
-            Change
-          </Button>
-        </div>
+        )}
+      </label>
+
+      {vaultStatus === 'locked' || vaultStatus === 'empty' ? (
+        <VaultUnlockForm status={vaultStatus} />
+      ) : (
+        <>
+          {vaultStatus === 'unavailable' && (
+            <p className="text-xs text-muted-foreground mb-2">
+              This browser cannot encrypt storage, so accounts are kept for the current session only.
+            </p>
+          )}
+          <div className="space-y-1 mb-2">
+            {accounts.map(account => (
+              <div
+                key={account.id}
+                className={cn(
+                  "flex items-center gap-2 px-2 py-1 rounded-md bg-background/50 text-xs",
+                  account.id === active?.id && "border border-primary/40"
+                )}
+              >
+                <AccountTypeBadge account={account} />
+                <span className="text-foreground">{account.name}</span>
+                <span className="font-mono text-muted-foreground">{account.loginid ?? maskToken(account.token)}</span>
+                {account.id === active?.id ? (
+                  <span className="ml-auto text-[10px] text-primary uppercase">Active</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(account)}
+                    className="ml-auto text-muted-foreground hover:text-loss"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {accounts.length === 0 && (
+              <p className="text-xs text-muted-foreground">No accounts yet - add an API token to trade live</p>
+            )}
+          </div>
+
+          {isAdding ? (
+            <div className="space-y-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name, e.g. Demo or Real USD"
+                className="text-sm bg-background"
+              />
+              <div className="relative">
+                <Input
+                  type={showKey ? "text" : "password"}
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="Enter your Deriv API token"
+                  className="pr-10 font-mono text-sm bg-background"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowKey(!showKey)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                >
+                  {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleAdd} className="flex-1" disabled={!token.trim()}>
+                  Add Account
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsAdding(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Button size="sm" variant="terminal" className="flex-1" asChild>
+                <Link to="/login">
+                  <LogIn className="h-4 w-4 mr-1" />
+                  Log in with Deriv
+                </Link>
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setIsAdding(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Paste Token
+              </Button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,27 @@
+import { TrendingUp, TrendingDown, Hash, Crosshair } from 'lucide-react';
+import type { ContractParameters } from '@/lib/deriv-websocket';
+import { describeContract, getContractCategory } from '@/lib/contract-types';
+import { cn } from '@/lib/utils';
+
+const UP_TYPES = ['CALL', 'MULTUP'];
+const DOWN_TYPES = ['PUT', 'MULTDOWN'];
+
+export function ContractBadge({ contract }: { contract: ContractParameters }) {
+  const category = getContractCategory(contract);
+  const isUp = UP_TYPES.includes(contract.contractType);
+  const isDown = DOWN_TYPES.includes(contract.contractType);
+  const Icon = category === 'digits' ? Hash
+    : category === 'touch' ? Crosshair
+    : isUp ? TrendingUp : TrendingDown;
+
+  return (
+    <div className={cn(
+      "px-2 py-0.5 rounded text-xs font-mono font-bold uppercase whitespace-nowrap",
+      isUp ? "bg-profit/20 text-profit" :
+      isDown ? "bg-loss/20 text-loss" : "bg-primary/20 text-primary"
+    )}>
+      <Icon className="h-3 w-3 inline mr-1" />
+      {describeContract(contract)}
+    </div>
+  );
+}
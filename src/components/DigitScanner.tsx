@@ -0,0 +1,186 @@
+import { useState, useEffect, useRef } from 'react';
+import { Hash } from 'lucide-react';
+import { derivWS, TickUpdate, ConnectionStatus } from '@/lib/deriv-websocket';
+import { DigitStats, DigitStatsTracker } from '@/lib/digit-stats';
+import { mergeTicks } from '@/lib/tick-history';
+import { symbolCatalog } from '@/lib/symbol-catalog';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useTickSubscriptions } from '@/hooks/use-tick-subscriptions';
+import { cn } from '@/lib/utils';
+
+function formatStreak(streak: DigitStats['digitStreak']): string {
+  return streak ? `${streak.value.toUpperCase()} x${streak.length}` : '-';
+}
+
+function RatioBar({ left, right, leftLabel, rightLabel }: {
+  left: number;
+  right: number;
+  leftLabel: string;
+  rightLabel: string;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1 font-mono">
+        <span className="text-profit">{leftLabel} {(left * 100).toFixed(1)}%</span>
+        <span className="text-loss">{(right * 100).toFixed(1)}% {rightLabel}</span>
+      </div>
+      <div className="h-1.5 bg-loss/60 rounded-full overflow-hidden">
+        <div className="h-full bg-profit transition-all duration-300" style={{ width: `${left * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export function DigitScanner() {
+  const trackerRef = useRef(new DigitStatsTracker());
+  const liveTicksRef = useRef<Map<string, TickUpdate[]>>(new Map());
+  const symbols = useWatchlist();
+  useTickSubscriptions(symbols);
+  const [chosen, setChosen] = useState(symbols[0]);
+  // Fall back to the first watched symbol when the chosen one leaves the watchlist
+  const selected = symbols.includes(chosen) ? chosen : symbols[0];
+  const [stats, setStats] = useState<DigitStats>(() => trackerRef.current.getStats(symbols[0]));
+  const selectedRef = useRef(selected);
+
+  useEffect(() => {
+    selectedRef.current = selected;
+    setStats(trackerRef.current.getStats(selected));
+  }, [selected]);
+
+  useEffect(() => {
+    const tracker = trackerRef.current;
+    const windowSize = tracker.getWindowSize();
+    const liveTicks = liveTicksRef.current;
+
+    const updateHandler = (update: DigitStats) => {
+      if (update.symbol === selectedRef.current) setStats(update);
+    };
+    const handler = (tick: TickUpdate) => {
+      liveTicks.set(tick.symbol, mergeTicks(liveTicks.get(tick.symbol) || [], [tick], windowSize));
+      tracker.addTick(tick);
+    };
+
+    tracker.onUpdate(updateHandler);
+    derivWS.onTick('*', handler);
+
+    return () => {
+      tracker.offUpdate(updateHandler);
+      derivWS.offTick('*', handler);
+    };
+  }, []);
+
+  // Prefill each watched symbol's window from ticks_history on connect, after every reconnect
+  // and when the watchlist changes
+  useEffect(() => {
+    const tracker = trackerRef.current;
+    const windowSize = tracker.getWindowSize();
+    const liveTicks = liveTicksRef.current;
+
+    const prefill = () => {
+      symbols.forEach(symbol => {
+        derivWS.getTickHistory(symbol, windowSize)
+          .then(history => {
+            tracker.load(symbol, mergeTicks(history, liveTicks.get(symbol) || [], windowSize));
+            if (symbol === selectedRef.current) setStats(tracker.getStats(symbol));
+          })
+          .catch(error => console.warn(`[Digits] Tick history unavailable for ${symbol}:`, error));
+      });
+    };
+    const statusHandler = (status: ConnectionStatus) => {
+      if (status === 'connected') prefill();
+    };
+
+    if (derivWS.getStatus() === 'authorized') prefill();
+    derivWS.onStatusChange(statusHandler);
+    return () => derivWS.offStatusChange(statusHandler);
+  }, [symbols]);
+
+  const maxFrequency = Math.max(0.1, ...stats.frequencies);
+
+  return (
+    <div className="space-y-4">
+      {/* Symbol Selector */}
+      <div className="flex flex-wrap gap-2">
+        {symbols.map(symbol => (
+          <button
+            key={symbol}
+            onClick={() => setChosen(symbol)}
+            title={symbolCatalog.getDisplayName(symbol)}
+            className={cn(
+              "px-2 py-1 rounded font-mono text-xs border transition-colors",
+              symbol === selected
+                ? "border-primary bg-primary/10 text-primary"
+                : "border-border bg-secondary/50 text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {symbol}
+          </button>
+        ))}
+      </div>
+
+      {/* Digit Distribution */}
+      <div className="grid grid-cols-10 gap-1 items-end h-28">
+        {stats.frequencies.map((frequency, digit) => (
+          <div key={digit} className="flex flex-col items-center justify-end h-full gap-1">
+            <span className="text-[10px] font-mono text-muted-foreground">
+              {(frequency * 100).toFixed(1)}
+            </span>
+            <div
+              className={cn(
+                "w-full rounded-t transition-all duration-300",
+                digit === stats.mostFrequent ? "bg-profit" :
+                digit === stats.leastFrequent ? "bg-loss" : "bg-primary/60"
+              )}
+              style={{ height: `${(frequency / maxFrequency) * 70}%` }}
+            />
+            <span className={cn(
+              "font-mono text-sm",
+              digit === stats.lastDigit ? "text-primary font-bold" : "text-foreground"
+            )}>
+              {digit}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Ratios */}
+      <div className="space-y-2">
+        <RatioBar left={stats.evenRatio} right={stats.oddRatio} leftLabel="EVEN" rightLabel="ODD" />
+        <RatioBar left={stats.overRatio} right={stats.underRatio} leftLabel="OVER 4" rightLabel="UNDER 5" />
+      </div>
+
+      {/* Streaks & Uniformity */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 text-xs">
+        <div className="flex items-center justify-between bg-secondary/50 rounded px-2 py-1">
+          <span className="text-muted-foreground">DIGIT</span>
+          <span className="font-mono font-medium text-foreground">{formatStreak(stats.digitStreak)}</span>
+        </div>
+        <div className="flex items-center justify-between bg-secondary/50 rounded px-2 py-1">
+          <span className="text-muted-foreground">PARITY</span>
+          <span className="font-mono font-medium text-foreground">{formatStreak(stats.parityStreak)}</span>
+        </div>
+        <div className="flex items-center justify-between bg-secondary/50 rounded px-2 py-1">
+          <span className="text-muted-foreground">O/U</span>
+          <span className="font-mono font-medium text-foreground">{formatStreak(stats.overUnderStreak)}</span>
+        </div>
+        <div className="flex items-center justify-between bg-secondary/50 rounded px-2 py-1">
+          <span className="text-muted-foreground">χ²</span>
+          <span className={cn(
+            "font-mono font-medium",
+            stats.isBiased ? "text-warning" : "text-foreground"
+          )}>
+            {stats.chiSquare.toFixed(1)}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Hash className="h-3 w-3" />
+        <span className="font-mono">
+          {stats.sampleSize}/{trackerRef.current.getWindowSize()} ticks @ {stats.pipSize} dp
+          {stats.isBiased && ' - distribution deviates from uniform (p < 0.05)'}
+        </span>
+      </div>
+    </div>
+  );
+}
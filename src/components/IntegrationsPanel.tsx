@@ -12,7 +12,10 @@ import {
   Zap
 } from 'lucide-react';
 import { DERIV_CONFIG } from '@/config/deriv';
-import { derivWS, ConnectionStatus } from '@/lib/deriv-websocket';
+import { derivWS, ConnectionStatus, ConnectionHealth } from '@/lib/deriv-websocket';
+import { riskManager, RiskSnapshot } from '@/lib/risk-manager';
+import { tradingEngine } from '@/lib/trading-engine';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 interface Integration {
@@ -21,17 +24,26 @@ interface Integration {
   description: string;
   status: 'online' | 'offline' | 'connecting';
   icon: React.ReactNode;
+  details?: React.ReactNode;
 }
 
 export function IntegrationsPanel() {
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
+  const [risk, setRisk] = useState<RiskSnapshot>(riskManager.getSnapshot());
+  const [health, setHealth] = useState<ConnectionHealth>(derivWS.getHealth());
 
   useEffect(() => {
     const handler = (status: ConnectionStatus) => {
       setConnectionStatus(status);
     };
     derivWS.onStatusChange(handler);
-    return () => derivWS.offStatusChange(handler);
+    derivWS.onHealthChange(setHealth);
+    riskManager.onUpdate(setRisk);
+    return () => {
+      derivWS.offStatusChange(handler);
+      derivWS.offHealthChange(setHealth);
+      riskManager.offUpdate(setRisk);
+    };
   }, []);
 
   const getIntegrationStatus = (type: string): 'online' | 'offline' | 'connecting' => {
@@ -40,13 +52,56 @@ export function IntegrationsPanel() {
     return 'offline';
   };
 
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour12: false,
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
   const integrations: Integration[] = [
     {
       id: 'deriv-ws',
       name: 'Deriv WebSocket',
-      description: 'Real-time market data stream',
+      description: health.nextRetryMs !== null
+        ? `Reconnecting in ${(health.nextRetryMs / 1000).toFixed(1)}s (attempt ${health.reconnectAttempts})`
+        : 'Real-time market data stream',
       status: getIntegrationStatus('ws'),
       icon: <Radio className="h-5 w-5" />,
+      details: (
+        <div className="mt-3 space-y-1.5 text-xs">
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Reconnects this session</span>
+            <span className="font-mono text-foreground">{health.totalReconnects}</span>
+          </div>
+          {health.connectedSince !== null && (
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Connected since</span>
+              <span className="font-mono text-foreground">{formatTime(health.connectedSince)}</span>
+            </div>
+          )}
+          {health.lastError && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground shrink-0">Last error</span>
+              <span className="font-mono text-warning truncate" title={health.lastError}>
+                {health.lastError} ({formatTime(health.lastErrorAt)})
+              </span>
+            </div>
+          )}
+          {health.reconnectAttempts > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full mt-2 h-7 text-xs"
+              onClick={() => derivWS.reconnectNow()}
+            >
+              Reconnect Now
+            </Button>
+          )}
+        </div>
+      ),
     },
     {
       id: 'scanner-v10',
@@ -86,9 +141,44 @@ export function IntegrationsPanel() {
     {
       id: 'risk-manager',
       name: 'Risk Manager',
-      description: 'Position sizing & stop loss',
-      status: getIntegrationStatus('risk'),
+      description: risk.isHalted ? `HALTED: ${risk.haltReason}` : 'Loss limits & exposure caps',
+      status: risk.isHalted ? 'offline' : 'online',
       icon: <Shield className="h-5 w-5" />,
+      details: (
+        <div className="mt-3 space-y-1.5">
+          {risk.limits.map(limit => (
+            <div key={limit.key} className="text-xs">
+              <div className="flex items-center justify-between mb-0.5">
+                <span className="text-muted-foreground">{limit.label}</span>
+                <span className="font-mono text-foreground">
+                  {Number.isInteger(limit.limit) && Number.isInteger(limit.current)
+                    ? `${limit.current} / ${limit.limit}`
+                    : `${limit.current.toFixed(2)} / ${limit.limit.toFixed(2)}`}
+                </span>
+              </div>
+              <div className="h-1 bg-secondary rounded-full overflow-hidden">
+                <div
+                  className={cn(
+                    "h-full rounded-full transition-all duration-300",
+                    limit.utilization >= 1 ? "bg-loss" : limit.utilization >= 0.75 ? "bg-warning" : "bg-profit"
+                  )}
+                  style={{ width: `${limit.utilization * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+          {risk.isHalted && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full mt-2 h-7 text-xs"
+              onClick={() => tradingEngine.resumeAfterRiskHalt()}
+            >
+              Acknowledge & Resume
+            </Button>
+          )}
+        </div>
+      ),
     },
   ];
 
@@ -127,42 +217,45 @@ export function IntegrationsPanel() {
           <div
             key={integration.id}
             className={cn(
-              "flex items-center justify-between p-3 rounded-lg bg-secondary/30 border transition-all duration-300",
+              "p-3 rounded-lg bg-secondary/30 border transition-all duration-300",
               integration.status === 'online' && "border-profit/20",
               integration.status === 'connecting' && "border-warning/20",
               integration.status === 'offline' && "border-border"
             )}
           >
-            <div className="flex items-center gap-3">
-              <div className={cn(
-                "p-2 rounded-lg",
-                integration.status === 'online' && "bg-profit/20 text-profit",
-                integration.status === 'connecting' && "bg-warning/20 text-warning",
-                integration.status === 'offline' && "bg-muted text-muted-foreground"
-              )}>
-                {integration.icon}
-              </div>
-              <div>
-                <div className="font-mono text-sm font-medium text-foreground">
-                  {integration.name}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className={cn(
+                  "p-2 rounded-lg",
+                  integration.status === 'online' && "bg-profit/20 text-profit",
+                  integration.status === 'connecting' && "bg-warning/20 text-warning",
+                  integration.status === 'offline' && "bg-muted text-muted-foreground"
+                )}>
+                  {integration.icon}
                 </div>
-                <div className="text-xs text-muted-foreground">
-                  {integration.description}
+                <div>
+                  <div className="font-mono text-sm font-medium text-foreground">
+                    {integration.name}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {integration.description}
+                  </div>
                 </div>
               </div>
-            </div>
             
-            <div className="flex items-center gap-2">
-              {getStatusIcon(integration.status)}
-              <span className={cn(
-                "text-xs font-mono uppercase",
-                integration.status === 'online' && "text-profit",
-                integration.status === 'connecting' && "text-warning",
-                integration.status === 'offline' && "text-loss"
-              )}>
-                {integration.status}
-              </span>
+              <div className="flex items-center gap-2">
+                {getStatusIcon(integration.status)}
+                <span className={cn(
+                  "text-xs font-mono uppercase",
+                  integration.status === 'online' && "text-profit",
+                  integration.status === 'connecting' && "text-warning",
+                  integration.status === 'offline' && "text-loss"
+                )}>
+                  {integration.status}
+                </span>
+              </div>
             </div>
+            {integration.details}
           </div>
         ))}
       </div>
@@ -1,8 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { TrendingUp, TrendingDown, Activity, Zap } from 'lucide-react';
-import { DERIV_CONFIG } from '@/config/deriv';
-import { derivWS, TickUpdate } from '@/lib/deriv-websocket';
-import { calculateRSI, calculateADX, calculateBollingerBands } from '@/lib/indicators';
+import { derivWS, TickUpdate, ConnectionStatus } from '@/lib/deriv-websocket';
+import { IndicatorResult, StreamingIndicators } from '@/lib/indicators';
+import { mergeTicks } from '@/lib/tick-history';
+import { CandleAggregator } from '@/lib/candles';
+import { symbolCatalog } from '@/lib/symbol-catalog';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useTickSubscriptions } from '@/hooks/use-tick-subscriptions';
 import { cn } from '@/lib/utils';
 
 interface MarketData {
@@ -13,110 +17,153 @@ interface MarketData {
   changePercent: number;
   rsi: number | null;
   adx: number | null;
+  stochasticK: number | null;
+  supertrend: 'up' | 'down' | null;
   signal: 'long' | 'short' | 'neutral';
   strength: number;
-  history: number[];
+  history: TickUpdate[];
 }
 
-const SYMBOL_NAMES: Record<string, string> = {
-  'R_10': 'Volatility 10',
-  'R_25': 'Volatility 25',
-  'R_50': 'Volatility 50',
-  'R_75': 'Volatility 75',
-  'R_100': 'Volatility 100',
-  '1HZ100V': '1HZ Volatility 100',
-};
+const HISTORY_SIZE = 50;
+
+function emptyMarket(symbol: string): MarketData {
+  return {
+    symbol,
+    name: symbolCatalog.getDisplayName(symbol),
+    price: 0,
+    change: 0,
+    changePercent: 0,
+    rsi: null,
+    adx: null,
+    stochasticK: null,
+    supertrend: null,
+    signal: 'neutral',
+    strength: 0,
+    history: [],
+  };
+}
+
+// Recompute price change and signal from a tick window and the symbol's streaming indicators
+function analyzeMarket(existing: MarketData, history: TickUpdate[], indicators: IndicatorResult): MarketData {
+  const prices = history.map(t => t.quote);
+  const price = prices[prices.length - 1] ?? 0;
+  const prevPrice = prices.length > 1 ? prices[prices.length - 2] : price;
+  const change = price - prevPrice;
+  const changePercent = prevPrice > 0 ? (change / prevPrice) * 100 : 0;
+  
+  const { rsi, adx } = indicators;
+  const bollinger = indicators.bollingerUpper !== null && indicators.bollingerLower !== null
+    ? { upper: indicators.bollingerUpper, lower: indicators.bollingerLower }
+    : null;
+  
+  // Determine signal
+  let signal: 'long' | 'short' | 'neutral' = 'neutral';
+  let strength = 0;
+  
+  if (rsi !== null) {
+    if (rsi < 30) {
+      signal = 'long';
+      strength = Math.min(100, (30 - rsi) * 3);
+    } else if (rsi > 70) {
+      signal = 'short';
+      strength = Math.min(100, (rsi - 70) * 3);
+    }
+  }
+  
+  if (bollinger && price <= bollinger.lower) {
+    signal = 'long';
+    strength = Math.max(strength, 70);
+  } else if (bollinger && price >= bollinger.upper) {
+    signal = 'short';
+    strength = Math.max(strength, 70);
+  }
+  
+  return {
+    ...existing,
+    name: symbolCatalog.getDisplayName(existing.symbol),
+    price,
+    change,
+    changePercent,
+    rsi,
+    adx,
+    stochasticK: indicators.stochastic?.k ?? null,
+    supertrend: indicators.supertrend?.direction ?? null,
+    signal,
+    strength,
+    history,
+  };
+}
 
 export function MarketScanner() {
+  const watchlist = useWatchlist();
+  // Stream the watchlist whether or not the engine is running
+  useTickSubscriptions(watchlist);
   const [markets, setMarkets] = useState<Map<string, MarketData>>(new Map());
+  const candlesRef = useRef(new CandleAggregator());
+  const streamsRef = useRef<Map<string, StreamingIndicators>>(new Map());
+  const liveTicksRef = useRef<Map<string, TickUpdate[]>>(new Map());
 
-  useEffect(() => {
-    // Initialize markets
-    Object.values(DERIV_CONFIG.SYMBOLS).forEach(symbol => {
-      setMarkets(prev => {
-        const newMap = new Map(prev);
-        newMap.set(symbol, {
-          symbol,
-          name: SYMBOL_NAMES[symbol] || symbol,
-          price: 0,
-          change: 0,
-          changePercent: 0,
-          rsi: null,
-          adx: null,
-          signal: 'neutral',
-          strength: 0,
-          history: [],
-        });
-        return newMap;
-      });
+  const applyTicks = (symbol: string, ticks: TickUpdate[]) => {
+    const indicators = streamsRef.current.get(symbol)?.getResult();
+    if (!indicators) return;
+    setMarkets(prev => {
+      const existing = prev.get(symbol) || emptyMarket(symbol);
+      const newMap = new Map(prev);
+      newMap.set(symbol, analyzeMarket(existing, mergeTicks(existing.history, ticks, HISTORY_SIZE), indicators));
+      return newMap;
     });
+  };
+
+  // Subscribe to ticks, updating each symbol's indicators incrementally
+  useEffect(() => {
+    const candles = candlesRef.current;
+    const streams = streamsRef.current;
+    const liveTicks = liveTicksRef.current;
 
-    // Subscribe to ticks
     const handler = (tick: TickUpdate) => {
-      setMarkets(prev => {
-        const newMap = new Map(prev);
-        const existing = newMap.get(tick.symbol);
-        
-        if (existing) {
-          const history = [...existing.history, tick.quote].slice(-50);
-          const prevPrice = existing.price || tick.quote;
-          const change = tick.quote - prevPrice;
-          const changePercent = prevPrice > 0 ? (change / prevPrice) * 100 : 0;
-          
-          // Calculate indicators
-          const rsi = history.length >= 15 ? calculateRSI(history) : null;
-          const adx = history.length >= 28 ? calculateADX(history, history, history) : null;
-          const bollinger = history.length >= 20 ? calculateBollingerBands(history) : null;
-          
-          // Determine signal
-          let signal: 'long' | 'short' | 'neutral' = 'neutral';
-          let strength = 0;
-          
-          if (rsi !== null) {
-            if (rsi < 30) {
-              signal = 'long';
-              strength = Math.min(100, (30 - rsi) * 3);
-            } else if (rsi > 70) {
-              signal = 'short';
-              strength = Math.min(100, (rsi - 70) * 3);
-            }
-          }
-          
-          if (bollinger && tick.quote <= bollinger.lower) {
-            signal = 'long';
-            strength = Math.max(strength, 70);
-          } else if (bollinger && tick.quote >= bollinger.upper) {
-            signal = 'short';
-            strength = Math.max(strength, 70);
-          }
-          
-          newMap.set(tick.symbol, {
-            ...existing,
-            price: tick.quote,
-            change,
-            changePercent,
-            rsi,
-            adx,
-            signal,
-            strength,
-            history,
-          });
-        }
-        
-        return newMap;
-      });
+      const previous = liveTicks.get(tick.symbol) || [];
+      if (previous.length > 0 && tick.epoch <= previous[previous.length - 1].epoch) return;
+      
+      liveTicks.set(tick.symbol, mergeTicks(previous, [tick], HISTORY_SIZE));
+      candles.addTick(tick);
+      const stream = streams.get(tick.symbol) || new StreamingIndicators();
+      stream.update(tick.quote);
+      stream.updateBar(candles.getLatest(tick.symbol));
+      streams.set(tick.symbol, stream);
+      applyTicks(tick.symbol, [tick]);
     };
 
     derivWS.onTick('*', handler);
+    return () => derivWS.offTick('*', handler);
+  }, []);
 
-    return () => {
-      derivWS.offTick('*', handler);
+  // Prefill ticks and bars from ticks_history on connect, after every reconnect and when the watchlist changes
+  useEffect(() => {
+    const candles = candlesRef.current;
+    const liveTicks = liveTicksRef.current;
+
+    const prefill = () => {
+      watchlist.forEach(symbol => {
+        candles.backfill(derivWS, symbol, () => liveTicks.get(symbol) || [], HISTORY_SIZE)
+          .then(ticks => {
+            streamsRef.current.set(symbol, StreamingIndicators.fromHistory(ticks.map(t => t.quote), candles.getCandles(symbol)));
+            applyTicks(symbol, ticks.slice(-HISTORY_SIZE));
+          })
+          .catch(error => console.warn(`[Scanner] Tick history unavailable for ${symbol}:`, error));
+      });
     };
-  }, []);
+    const statusHandler = (status: ConnectionStatus) => {
+      if (status === 'connected') prefill();
+    };
+
+    if (derivWS.getStatus() === 'authorized') prefill();
+    derivWS.onStatusChange(statusHandler);
+    return () => derivWS.offStatusChange(statusHandler);
+  }, [watchlist]);
 
   return (
     <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
-      {Array.from(markets.values()).map((market) => (
+      {watchlist.map(symbol => markets.get(symbol) || emptyMarket(symbol)).map((market) => (
         <div
           key={market.symbol}
           className={cn(
@@ -188,6 +235,26 @@ export function MarketScanner() {
                 {market.adx !== null ? market.adx.toFixed(1) : '-'}
               </span>
             </div>
+            <div className="flex items-center justify-between bg-secondary/50 rounded px-2 py-1">
+              <span className="text-muted-foreground">STOCH</span>
+              <span className={cn(
+                "font-mono font-medium",
+                market.stochasticK !== null && market.stochasticK < 20 ? "text-profit" :
+                market.stochasticK !== null && market.stochasticK > 80 ? "text-loss" : "text-foreground"
+              )}>
+                {market.stochasticK !== null ? market.stochasticK.toFixed(1) : '-'}
+              </span>
+            </div>
+            <div className="flex items-center justify-between bg-secondary/50 rounded px-2 py-1">
+              <span className="text-muted-foreground">TREND</span>
+              <span className={cn(
+                "font-mono font-medium",
+                market.supertrend === 'up' ? "text-profit" :
+                market.supertrend === 'down' ? "text-loss" : "text-foreground"
+              )}>
+                {market.supertrend !== null ? market.supertrend.toUpperCase() : '-'}
+              </span>
+            </div>
           </div>
 
           {/* Signal Strength Bar */}
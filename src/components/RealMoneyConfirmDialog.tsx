@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { AccountInfo } from '@/lib/deriv-websocket';
+import { DERIV_CONFIG } from '@/config/deriv';
+
+interface RealMoneyConfirmDialogProps {
+  account: AccountInfo | null; // open while set
+  onConfirm: (loginid: string) => void;
+  onCancel: () => void;
+}
+
+// Typing the loginid is the explicit go-ahead the engine needs before it trades a real-money account
+export function RealMoneyConfirmDialog({ account, onConfirm, onCancel }: RealMoneyConfirmDialogProps) {
+  const [typed, setTyped] = useState('');
+  const matches = !!account && typed.trim() === account.loginid;
+
+  const close = () => {
+    setTyped('');
+    onCancel();
+  };
+
+  return (
+    <AlertDialog open={account !== null} onOpenChange={(open) => !open && close()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-warning">Trade real money on {account?.loginid}?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2 text-sm">
+              <p>
+                Orders will be placed on a real-money account with a balance of{' '}
+                <span className="font-mono text-foreground">{account?.balance.toFixed(2)} {account?.currency}</span>.
+                Losses are real and cannot be undone.
+              </p>
+              <p>
+                The stake is capped at{' '}
+                <span className="font-mono text-foreground">{DERIV_CONFIG.REAL_MAX_STAKE.toFixed(2)}</span> per trade
+                here (demo accounts allow up to{' '}
+                <span className="font-mono text-foreground">{DERIV_CONFIG.MAX_STAKE.toFixed(2)}</span>), and the
+                risk limits still apply.
+              </p>
+              <p>Type <span className="font-mono text-foreground">{account?.loginid}</span> to confirm.</p>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Input
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          placeholder={account?.loginid}
+          className="font-mono bg-background"
+          autoFocus
+        />
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={close}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!matches}
+            onClick={() => {
+              if (!account) return;
+              setTyped('');
+              onConfirm(account.loginid);
+            }}
+            className="bg-warning text-background hover:bg-warning/90"
+          >
+            Start Real Trading
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
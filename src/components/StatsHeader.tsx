@@ -1,12 +1,15 @@
 import { useEffect, useState } from 'react';
-import { TrendingUp, TrendingDown, Activity, Wifi, WifiOff, AlertTriangle, Clock, Layers } from 'lucide-react';
+import { TrendingUp, TrendingDown, Activity, Wifi, WifiOff, AlertTriangle, Clock, Layers, FlaskConical } from 'lucide-react';
 import { derivWS, ConnectionStatus } from '@/lib/deriv-websocket';
 import { tradingEngine, TradingStats } from '@/lib/trading-engine';
+import { paperBroker } from '@/lib/paper-broker';
 import { cn } from '@/lib/utils';
+import { AccountPanel } from '@/components/AccountPanel';
 
 export function StatsHeader() {
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
   const [accountCurrency, setAccountCurrency] = useState<string>('USD');
+  const [paperBalance, setPaperBalance] = useState<number>(paperBroker.getBalance());
   const [stats, setStats] = useState<TradingStats>({
     totalTrades: 0,
     wins: 0,
@@ -19,6 +22,10 @@ export function StatsHeader() {
     isPaused: false,
     queueSize: 0,
     isThrottled: false,
+    tradingMode: 'live',
+    lifetimeTrades: 0,
+    lifetimeWins: 0,
+    lifetimeProfit: 0,
   });
 
   useEffect(() => {
@@ -31,9 +38,11 @@ export function StatsHeader() {
 
     derivWS.onStatusChange(statusHandler);
     tradingEngine.onStats(setStats);
+    paperBroker.onBalance(setPaperBalance);
 
     return () => {
       derivWS.offStatusChange(statusHandler);
+      paperBroker.offBalance(setPaperBalance);
     };
   }, []);
 
@@ -74,7 +83,10 @@ export function StatsHeader() {
             </div>
             <div>
               <h1 className="text-lg font-bold text-foreground tracking-tight">DERIV-ASCEND</h1>
-              <p className="text-xs text-muted-foreground font-mono">AI TRADING TERMINAL</p>
+              <p className="text-xs text-muted-foreground font-mono">
+                AI TRADING TERMINAL
+                {stats.tradingMode === 'paper' && <span className="text-primary"> · PAPER MODE</span>}
+              </p>
             </div>
           </div>
 
@@ -144,6 +156,17 @@ export function StatsHeader() {
               </div>
             </div>
 
+            {/* Paper Trading Mode */}
+            {stats.tradingMode === 'paper' && (
+              <div className="flex items-center gap-2 px-3 py-1 rounded-md bg-primary/20 text-primary border border-primary/40">
+                <FlaskConical className="h-4 w-4" />
+                <div className="flex flex-col leading-tight">
+                  <span className="text-xs font-mono uppercase font-bold">Paper</span>
+                  <span className="text-xs font-mono">{paperBalance.toFixed(2)} {accountCurrency}</span>
+                </div>
+              </div>
+            )}
+
             {/* Throttle Status */}
             {stats.isThrottled && (
               <div className="flex items-center gap-2 px-3 py-1 rounded-md bg-loss/20 text-loss animate-pulse">
@@ -154,12 +177,20 @@ export function StatsHeader() {
 
             {/* Pause Status */}
             {stats.isPaused && (
-              <div className="flex items-center gap-2 px-3 py-1 rounded-md bg-warning/20 text-warning">
+              <div
+                className="flex items-center gap-2 px-3 py-1 rounded-md bg-warning/20 text-warning"
+                title={stats.pauseReason}
+              >
                 <AlertTriangle className="h-4 w-4" />
-                <span className="text-xs font-mono uppercase">Calibrating</span>
+                <span className="text-xs font-mono uppercase">
+                  {stats.pauseReason?.startsWith('Risk limit') ? 'Risk Halt' : 'Calibrating'}
+                </span>
               </div>
             )}
 
+            {/* Broker Account */}
+            <AccountPanel />
+
             {/* Connection Status */}
             <div className={cn("flex items-center gap-2", getStatusColor())}>
               {getStatusIcon()}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { HardDrive, Trash2, Archive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { journalStore, JournalCounts, RetentionSettings, CompactionResult } from '@/lib/journal-store';
+import { toast } from '@/hooks/use-toast';
+
+function describeCompaction({ tradesDeleted, logsDeleted }: CompactionResult): string {
+  return tradesDeleted + logsDeleted > 0
+    ? `Removed ${tradesDeleted} trades and ${logsDeleted} log entries`
+    : 'Nothing to remove';
+}
+
+export function StorageSettings() {
+  const [retention, setRetention] = useState<RetentionSettings>(() => journalStore.getRetention());
+  const [counts, setCounts] = useState<JournalCounts | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const available = journalStore.isAvailable();
+
+  const refreshCounts = () => {
+    journalStore.getCounts().then(setCounts).catch(() => setCounts(null));
+  };
+
+  useEffect(() => {
+    // Saved settings load when the database opens
+    const handleChange = (settings: RetentionSettings) => setRetention(settings);
+    journalStore.onRetentionChange(handleChange);
+    refreshCounts();
+    return () => journalStore.offRetentionChange(handleChange);
+  }, []);
+
+  const updateField = (field: keyof RetentionSettings, value: string) => {
+    const parsed = parseInt(value, 10);
+    setRetention(prev => ({ ...prev, [field]: Number.isNaN(parsed) ? 0 : Math.max(0, parsed) }));
+  };
+
+  const handleSave = async () => {
+    try {
+      const result = await journalStore.setRetention(retention);
+      toast({ title: 'Retention Updated', description: describeCompaction(result) });
+    } catch (error) {
+      toast({ title: 'Retention Not Saved', description: String(error), variant: 'destructive' });
+    }
+    refreshCounts();
+  };
+
+  const handleCompact = async () => {
+    try {
+      const result = await journalStore.compact();
+      toast({ title: 'Journal Compacted', description: describeCompaction(result) });
+    } catch (error) {
+      toast({ title: 'Compaction Failed', description: String(error), variant: 'destructive' });
+    }
+    refreshCounts();
+  };
+
+  const handleClear = async () => {
+    // Destructive, so the first click only arms the button
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    try {
+      await journalStore.clear();
+      toast({ title: 'Journal Cleared', description: 'Saved trades and logs were deleted from this browser' });
+    } catch (error) {
+      toast({ title: 'Clear Failed', description: String(error), variant: 'destructive' });
+    }
+    refreshCounts();
+  };
+
+  return (
+    <div className="bg-secondary/50 rounded-lg p-3">
+      <label className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+        <HardDrive className="h-3 w-3" />
+        JOURNAL STORAGE
+        {counts && (
+          <span className="ml-auto font-mono">
+            {counts.trades} trades · {counts.logs} logs
+          </span>
+        )}
+      </label>
+
+      {!available ? (
+        <p className="text-xs text-muted-foreground">
+          This browser has no IndexedDB, so history is kept for the current session only.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <div className="text-[10px] text-muted-foreground mb-1">Trades (days)</div>
+              <Input
+                type="number"
+                min={0}
+                value={retention.tradeRetentionDays}
+                onChange={(e) => updateField('tradeRetentionDays', e.target.value)}
+                className="h-8 font-mono text-sm bg-background"
+              />
+            </div>
+            <div>
+              <div className="text-[10px] text-muted-foreground mb-1">Logs (days)</div>
+              <Input
+                type="number"
+                min={0}
+                value={retention.logRetentionDays}
+                onChange={(e) => updateField('logRetentionDays', e.target.value)}
+                className="h-8 font-mono text-sm bg-background"
+              />
+            </div>
+            <div>
+              <div className="text-[10px] text-muted-foreground mb-1">Max log entries</div>
+              <Input
+                type="number"
+                min={0}
+                value={retention.maxLogEntries}
+                onChange={(e) => updateField('maxLogEntries', e.target.value)}
+                className="h-8 font-mono text-sm bg-background"
+              />
+            </div>
+          </div>
+          <p className="text-[10px] text-muted-foreground">0 days keeps records forever</p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} className="flex-1">
+              Save
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleCompact}>
+              <Archive className="h-4 w-4 mr-1" />
+              Compact
+            </Button>
+            <Button
+              size="sm"
+              variant={confirmClear ? 'destructive' : 'outline'}
+              onClick={handleClear}
+              onBlur={() => setConfirmClear(false)}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              {confirmClear ? 'Confirm' : 'Clear'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { Brain } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { strategyRegistry } from '@/lib/strategies';
+import { useWatchlist } from '@/hooks/use-watchlist';
+
+function currentAssignments(symbols: string[]): Record<string, string> {
+  return Object.fromEntries(symbols.map(symbol => [symbol, strategyRegistry.getForSymbol(symbol).id]));
+}
+
+export function StrategySettings() {
+  const symbols = useWatchlist();
+  const [assignments, setAssignments] = useState<Record<string, string>>(() => currentAssignments(symbols));
+  const strategies = strategyRegistry.list();
+
+  useEffect(() => {
+    const handleChange = () => setAssignments(currentAssignments(symbols));
+    handleChange();
+    strategyRegistry.onChange(handleChange);
+    return () => strategyRegistry.offChange(handleChange);
+  }, [symbols]);
+
+  return (
+    <div className="bg-secondary/50 rounded-lg p-3">
+      <label className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+        <Brain className="h-3 w-3" />
+        STRATEGY PER SYMBOL
+      </label>
+      <div className="space-y-2">
+        {symbols.map(symbol => (
+          <div key={symbol} className="flex items-center gap-2">
+            <span className="font-mono text-sm text-foreground w-20">{symbol}</span>
+            <Select
+              value={assignments[symbol]}
+              onValueChange={(strategyId) => strategyRegistry.setForSymbol(symbol, strategyId)}
+            >
+              <SelectTrigger className="h-8 flex-1 bg-background font-mono text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {strategies.map(strategy => (
+                  <SelectItem key={strategy.id} value={strategy.id} className="text-xs">
+                    <span title={strategy.description}>{strategy.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { ListFilter } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { symbolCatalog, SymbolInfo } from '@/lib/symbol-catalog';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { cn } from '@/lib/utils';
+
+// e.g. 'Digits 1t-10t', or just the category for offerings without expiry
+function describeOfferings(info: SymbolInfo): string {
+  if (!info.contracts) return 'Loading contracts...';
+
+  const ranges = new Map<string, string>();
+  info.contracts.forEach(offering => {
+    if (ranges.has(offering.categoryDisplay)) return;
+    const range = offering.minDuration && offering.maxDuration ? ` ${offering.minDuration}-${offering.maxDuration}` : '';
+    ranges.set(offering.categoryDisplay, `${offering.categoryDisplay}${range}`);
+  });
+  return Array.from(ranges.values()).join(' · ') || 'No contracts offered';
+}
+
+export function SymbolSelector() {
+  const watchlist = useWatchlist();
+  const [symbols, setSymbols] = useState<SymbolInfo[]>(() => symbolCatalog.getSymbols());
+
+  useEffect(() => {
+    const handleChange = () => setSymbols(symbolCatalog.getSymbols());
+    symbolCatalog.onChange(handleChange);
+    return () => symbolCatalog.offChange(handleChange);
+  }, []);
+
+  // Symbols arrive ordered by submarket, so consecutive runs form the groups
+  const groups: [string, SymbolInfo[]][] = [];
+  symbols.forEach(info => {
+    const last = groups[groups.length - 1];
+    if (last && last[0] === info.submarketDisplayName) {
+      last[1].push(info);
+    } else {
+      groups.push([info.submarketDisplayName, [info]]);
+    }
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="ml-auto flex items-center gap-1 px-2 py-1 rounded border border-border bg-secondary/50 text-xs font-mono text-muted-foreground hover:text-foreground transition-colors">
+          <ListFilter className="h-3 w-3" />
+          WATCHLIST ({watchlist.length})
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-3 py-2 border-b border-border text-xs text-muted-foreground">
+          {symbolCatalog.isLoaded()
+            ? 'Symbols the engine and scanners watch'
+            : 'Connect an account to load every tradable symbol'}
+        </div>
+        <ScrollArea className="h-80">
+          {groups.map(([submarket, items]) => (
+            <div key={submarket}>
+              <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-muted-foreground bg-secondary/50">
+                {submarket}
+              </div>
+              {items.map(info => {
+                const watched = watchlist.includes(info.symbol);
+                return (
+                  <label
+                    key={info.symbol}
+                    className="flex items-center gap-2 px-3 py-1.5 hover:bg-secondary/50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={watched}
+                      // The watchlist never goes empty
+                      disabled={watched && watchlist.length === 1}
+                      onCheckedChange={checked => symbolCatalog.setWatched(info.symbol, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-foreground truncate">{info.displayName}</span>
+                        <span className="font-mono text-[10px] text-muted-foreground">{info.symbol}</span>
+                      </div>
+                      <p className="text-[10px] text-muted-foreground truncate" title={describeOfferings(info)}>
+                        {describeOfferings(info)}
+                      </p>
+                    </div>
+                    <span
+                      className={cn("h-1.5 w-1.5 rounded-full shrink-0", info.isOpen ? "bg-profit" : "bg-loss")}
+                      title={info.isOpen ? 'Market open' : 'Market closed'}
+                    />
+                  </label>
+                );
+              })}
+            </div>
+          ))}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,23 +1,53 @@
 import { useEffect, useRef, useState } from 'react';
-import { Terminal as TerminalIcon, X, Minimize2, Maximize2 } from 'lucide-react';
+import { Terminal as TerminalIcon, X, Minimize2, Maximize2, History } from 'lucide-react';
 import { tradingEngine, LogEntry } from '@/lib/trading-engine';
+import { journalStore } from '@/lib/journal-store';
 import { cn } from '@/lib/utils';
 
+const MAX_VISIBLE_LOGS = 1000;
+const HISTORY_PAGE_SIZE = 200;
+
+// One page of persisted entries written before `before`, oldest first
+async function fetchOlder(before: number): Promise<LogEntry[]> {
+  try {
+    return await journalStore.queryLogs({ to: before, limit: HISTORY_PAGE_SIZE });
+  } catch (error) {
+    console.warn('[Journal] Could not load saved logs:', error);
+    return [];
+  }
+}
+
 export function Terminal() {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isMinimized, setIsMinimized] = useState(false);
+  const [hasOlder, setHasOlder] = useState(journalStore.isAvailable());
   const scrollRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+
+  const loadOlder = async (before: number) => {
+    const older = await fetchOlder(before);
+    setHasOlder(older.length === HISTORY_PAGE_SIZE);
+    if (older.length > 0) {
+      followRef.current = false;
+      setLogs(prev => [...older, ...prev]);
+    }
+  };
 
   useEffect(() => {
     const handler = (entry: LogEntry) => {
-      setLogs(prev => [...prev.slice(-200), entry]); // Keep last 200 entries
+      followRef.current = true;
+      setLogs(prev => [...prev.slice(-(MAX_VISIBLE_LOGS - 1)), entry]);
     };
 
     tradingEngine.onLog(handler);
+
+    // Show the tail of earlier sessions above this one
+    loadOlder(Date.now());
   }, []);
 
   useEffect(() => {
-    if (scrollRef.current) {
+    // Stay put when older entries are prepended
+    if (scrollRef.current && followRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
   }, [logs]);
@@ -109,6 +139,15 @@ export function Terminal() {
           ref={scrollRef}
           className="flex-1 overflow-y-auto p-3 font-mono text-sm space-y-1 animate-data-stream"
         >
+          {hasOlder && logs.length > 0 && (
+            <button
+              onClick={() => loadOlder(logs[0].timestamp)}
+              className="w-full flex items-center justify-center gap-1 py-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <History className="h-3 w-3" />
+              Load older entries
+            </button>
+          )}
           {logs.length === 0 ? (
             <div className="text-muted-foreground text-center py-8">
               <p>Waiting for trading engine to start...</p>
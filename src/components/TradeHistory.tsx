@@ -1,20 +1,112 @@
 import { useEffect, useState } from 'react';
-import { History, TrendingUp, TrendingDown, Clock } from 'lucide-react';
+import { History, Clock } from 'lucide-react';
 import { tradingEngine, Trade } from '@/lib/trading-engine';
+import { journalStore, JournalQuery } from '@/lib/journal-store';
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ContractBadge } from '@/components/ContractBadge';
+import { useWatchlist } from '@/hooks/use-watchlist';
+
+const ALL = 'all';
+const MAX_SHOWN = 50;
+
+const RANGES: { value: string; label: string; ms: number | null }[] = [
+  { value: ALL, label: 'All time', ms: null },
+  { value: '24h', label: 'Last 24h', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: '30d', label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+function buildQuery(symbol: string, range: string): JournalQuery {
+  const ms = RANGES.find(r => r.value === range)?.ms ?? null;
+  return {
+    from: ms !== null ? Date.now() - ms : undefined,
+    symbol: symbol !== ALL ? symbol : undefined,
+    limit: MAX_SHOWN,
+  };
+}
 
 export function TradeHistory() {
+  const watchlist = useWatchlist();
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [symbol, setSymbol] = useState(ALL);
+  const [range, setRange] = useState(ALL);
 
   useEffect(() => {
+    const filtered = symbol !== ALL || range !== ALL;
+    let journalLength = -1;
+    let cancelled = false;
+
+    const refresh = () => {
+      const journal = tradingEngine.getTradeJournal();
+      if (!filtered) {
+        setTrades(journal.slice(-MAX_SHOWN).reverse());
+        return;
+      }
+
+      // Filtered views come from the journal store, so they reach back past this session.
+      // Re-query only when a trade has closed since the last query.
+      if (journal.length === journalLength) return;
+      journalLength = journal.length;
+
+      const query = buildQuery(symbol, range);
+      if (!journalStore.isAvailable()) {
+        setTrades(journal
+          .filter(t => (query.symbol === undefined || t.symbol === query.symbol) && (t.closeTime ?? 0) >= (query.from ?? 0))
+          .slice(-MAX_SHOWN)
+          .reverse());
+        return;
+      }
+      journalStore.queryTrades(query)
+        .then(result => {
+          if (!cancelled) setTrades(result.reverse());
+        })
+        .catch(error => console.warn('[Journal] Trade history query failed:', error));
+    };
+
     // Poll for trade journal updates
-    const interval = setInterval(() => {
-      setTrades(tradingEngine.getTradeJournal().slice(-50).reverse());
-    }, 1000);
+    refresh();
+    const interval = setInterval(refresh, 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [symbol, range]);
 
-    return () => clearInterval(interval);
-  }, []);
+  const symbols = Array.from(new Set([...watchlist, ...tradingEngine.getTradeJournal().map(t => t.symbol)])).sort();
+  const filters = (
+    <div className="flex items-center gap-2 mb-3">
+      <Select value={symbol} onValueChange={setSymbol}>
+        <SelectTrigger className="h-7 flex-1 bg-background font-mono text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL} className="text-xs">All symbols</SelectItem>
+          {symbols.map(s => (
+            <SelectItem key={s} value={s} className="font-mono text-xs">{s}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={range} onValueChange={setRange}>
+        <SelectTrigger className="h-7 flex-1 bg-background text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RANGES.map(r => (
+            <SelectItem key={r.value} value={r.value} className="text-xs">{r.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
 
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString('en-US', {
@@ -39,9 +131,10 @@ export function TradeHistory() {
           <History className="h-4 w-4 text-primary" />
           Trade History
         </h3>
+        {filters}
         <div className="text-center py-8 text-muted-foreground">
           <History className="h-12 w-12 mx-auto mb-3 opacity-30" />
-          <p>No completed trades yet</p>
+          <p>{symbol !== ALL || range !== ALL ? 'No trades match these filters' : 'No completed trades yet'}</p>
           <p className="text-xs mt-1">Closed trades will appear here</p>
         </div>
       </div>
@@ -57,6 +150,7 @@ export function TradeHistory() {
           {trades.length}
         </span>
       </h3>
+      {filters}
 
       <ScrollArea className="h-[250px]">
         <div className="space-y-2">
@@ -70,28 +164,32 @@ export function TradeHistory() {
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
+                  <ContractBadge contract={trade.contract} />
+                  <span className="font-mono text-sm text-foreground">{trade.symbol}</span>
+                  {trade.loginid && (
+                    <span className="font-mono text-[10px] text-muted-foreground">{trade.loginid}</span>
+                  )}
+                </div>
+                
+                <div className="flex items-center gap-1">
+                  {trade.exitReason === 'stop_loss' && (
+                    <div className="px-2 py-0.5 rounded text-xs font-bold uppercase bg-warning/20 text-warning">
+                      STOP
+                    </div>
+                  )}
+                  {trade.exitReason === 'take_profit' && (
+                    <div className="px-2 py-0.5 rounded text-xs font-bold uppercase bg-primary/20 text-primary">
+                      TP
+                    </div>
+                  )}
                   <div className={cn(
-                    "px-2 py-0.5 rounded text-xs font-mono font-bold uppercase",
-                    trade.direction === 'LONG' 
+                    "px-2 py-0.5 rounded text-xs font-bold uppercase",
+                    trade.result === 'win' 
                       ? "bg-profit/20 text-profit" 
                       : "bg-loss/20 text-loss"
                   )}>
-                    {trade.direction === 'LONG' ? (
-                      <><TrendingUp className="h-3 w-3 inline mr-1" />LONG</>
-                    ) : (
-                      <><TrendingDown className="h-3 w-3 inline mr-1" />SHORT</>
-                    )}
+                    {trade.result?.toUpperCase()}
                   </div>
-                  <span className="font-mono text-sm text-foreground">{trade.symbol}</span>
-                </div>
-                
-                <div className={cn(
-                  "px-2 py-0.5 rounded text-xs font-bold uppercase",
-                  trade.result === 'win' 
-                    ? "bg-profit/20 text-profit" 
-                    : "bg-loss/20 text-loss"
-                )}>
-                  {trade.result?.toUpperCase()}
                 </div>
               </div>
 
@@ -1,29 +1,75 @@
 import { useState, useEffect } from 'react';
-import { Play, Pause, Settings, RefreshCw, DollarSign, Shield, Target } from 'lucide-react';
+import { Play, Pause, Settings, RefreshCw, DollarSign, Shield, Target, FlaskConical, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { tradingEngine, TradingStats } from '@/lib/trading-engine';
+import { tradingEngine, TradingStats, TradingMode } from '@/lib/trading-engine';
+import { derivWS, AccountInfo } from '@/lib/deriv-websocket';
 import { DERIV_CONFIG } from '@/config/deriv';
 import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
 import { ApiKeySettings } from './ApiKeySettings';
+import { StrategySettings } from './StrategySettings';
+import { StorageSettings } from './StorageSettings';
+import { RealMoneyConfirmDialog } from './RealMoneyConfirmDialog';
 
 export function TradingControls() {
   const [isRunning, setIsRunning] = useState(false);
   const [stake, setStake] = useState<number>(DERIV_CONFIG.DEFAULT_STAKE);
+  const [maxStake, setMaxStake] = useState<number>(tradingEngine.getMaxStake());
+  const [confirmingAccount, setConfirmingAccount] = useState<AccountInfo | null>(null);
   const [takeProfitPct, setTakeProfitPct] = useState<number>(DERIV_CONFIG.TAKE_PROFIT_PCT);
+  const [stopLossPct, setStopLossPct] = useState<number>(DERIV_CONFIG.STOP_LOSS_PERCENT);
   const [stats, setStats] = useState<TradingStats | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [tradingMode, setTradingMode] = useState<TradingMode>(tradingEngine.getTradingMode());
+
+  // The engine lowers the stake to the account's ceiling; mirror it here
+  const syncStake = () => {
+    setMaxStake(tradingEngine.getMaxStake());
+    setStake(tradingEngine.getStake());
+  };
 
   useEffect(() => {
     tradingEngine.onStats(setStats);
+    derivWS.onAccountChange(syncStake);
+    return () => derivWS.offAccountChange(syncStake);
   }, []);
 
+  const startEngine = () => {
+    const started = tradingEngine.start();
+    syncStake();
+    setIsRunning(started);
+    if (!started) {
+      toast({ title: "Engine Not Started", description: "See the terminal for the reason", variant: "destructive" });
+    }
+  };
+
   const handleToggle = () => {
     if (isRunning) {
       tradingEngine.stop();
-    } else {
-      tradingEngine.start();
+      setIsRunning(false);
+      return;
+    }
+    // Real-money accounts need the confirmation step first
+    const account = derivWS.getAccountInfo();
+    if (tradingMode === 'live' && account && !tradingEngine.isRealMoneyConfirmed()) {
+      setConfirmingAccount(account);
+      return;
+    }
+    startEngine();
+  };
+
+  const handleConfirmRealMoney = (loginid: string) => {
+    setConfirmingAccount(null);
+    if (tradingEngine.confirmRealMoney(loginid)) {
+      startEngine();
+    }
+  };
+
+  const handleModeChange = (mode: TradingMode) => {
+    if (tradingEngine.setTradingMode(mode)) {
+      setTradingMode(mode);
+      syncStake();
     }
-    setIsRunning(!isRunning);
   };
 
   const handleStakeChange = (value: number) => {
@@ -36,6 +82,11 @@ export function TradingControls() {
     tradingEngine.setTakeProfitPct(value);
   };
 
+  const handleStopLossChange = (value: number) => {
+    setStopLossPct(value);
+    tradingEngine.setStopLossPct(value);
+  };
+
   return (
     <div className="border border-border rounded-lg bg-card p-4">
       {/* Main Controls */}
@@ -67,6 +118,28 @@ export function TradingControls() {
           >
             <Settings className={cn("h-5 w-5 transition-transform", showSettings && "rotate-90")} />
           </Button>
+
+          {/* Trading Mode */}
+          <div className="flex items-center rounded-lg border border-border overflow-hidden">
+            {(['live', 'paper'] as TradingMode[]).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                disabled={isRunning}
+                onClick={() => handleModeChange(mode)}
+                className={cn(
+                  "flex items-center gap-1 px-3 py-2 text-xs font-mono uppercase transition-colors disabled:cursor-not-allowed",
+                  tradingMode === mode
+                    ? mode === 'paper' ? "bg-primary/20 text-primary" : "bg-profit/20 text-profit"
+                    : "text-muted-foreground hover:bg-secondary",
+                  isRunning && tradingMode !== mode && "opacity-50"
+                )}
+              >
+                {mode === 'paper' ? <FlaskConical className="h-3 w-3" /> : <Zap className="h-3 w-3" />}
+                {mode}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Status Indicator */}
@@ -80,7 +153,7 @@ export function TradingControls() {
               isRunning ? "bg-profit animate-pulse" : "bg-muted-foreground"
             )} />
             <span className="font-mono text-sm uppercase">
-              {isRunning ? 'SCANNING' : 'IDLE'}
+              {isRunning ? (tradingMode === 'paper' ? 'PAPER SCANNING' : 'SCANNING') : 'IDLE'}
             </span>
           </div>
         </div>
@@ -96,6 +169,8 @@ export function TradingControls() {
           
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
             <ApiKeySettings />
+            <StrategySettings />
+            <StorageSettings />
           </div>
           
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
@@ -104,12 +179,15 @@ export function TradingControls() {
               <label className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
                 <DollarSign className="h-3 w-3" />
                 STAKE (USD)
+                {maxStake < DERIV_CONFIG.MAX_STAKE && (
+                  <span className="ml-auto text-warning">REAL MAX {maxStake.toFixed(2)}</span>
+                )}
               </label>
               <div className="flex items-center gap-2">
                 <input
                   type="range"
                   min={DERIV_CONFIG.DEFAULT_STAKE}
-                  max={DERIV_CONFIG.MAX_STAKE}
+                  max={maxStake}
                   step={0.5}
                   value={stake}
                   onChange={(e) => handleStakeChange(parseFloat(e.target.value))}
@@ -149,8 +227,19 @@ export function TradingControls() {
                 <Shield className="h-3 w-3" />
                 STOP LOSS
               </label>
-              <div className="font-mono text-lg font-bold text-loss">
-                {(DERIV_CONFIG.STOP_LOSS_PERCENT * 100).toFixed(0)}%
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={0.01}
+                  max={1}
+                  step={0.01}
+                  value={stopLossPct}
+                  onChange={(e) => handleStopLossChange(parseFloat(e.target.value))}
+                  className="flex-1 accent-loss"
+                />
+                <span className="font-mono text-lg font-bold text-loss w-12 text-right">
+                  {(stopLossPct * 100).toFixed(0)}%
+                </span>
               </div>
             </div>
 
@@ -168,12 +257,23 @@ export function TradingControls() {
         </div>
       )}
 
+      <RealMoneyConfirmDialog
+        account={confirmingAccount}
+        onConfirm={handleConfirmRealMoney}
+        onCancel={() => setConfirmingAccount(null)}
+      />
+
       {/* Quick Stats */}
       {stats && (
         <div className="grid grid-cols-4 gap-3 mt-4 pt-4 border-t border-border">
           <div className="text-center">
             <div className="text-xs text-muted-foreground mb-1">Total Trades</div>
             <div className="font-mono text-xl font-bold text-foreground">{stats.totalTrades}</div>
+            {stats.lifetimeTrades > stats.totalTrades && (
+              <div className="text-[10px] text-muted-foreground font-mono">
+                {stats.lifetimeTrades} all-time · {stats.lifetimeProfit >= 0 ? '+' : ''}{stats.lifetimeProfit.toFixed(2)}
+              </div>
+            )}
           </div>
           <div className="text-center">
             <div className="text-xs text-muted-foreground mb-1">Win/Loss</div>
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Lock, Unlock, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { credentialVault, VaultStatus } from '@/lib/credential-vault';
+import { toast } from '@/hooks/use-toast';
+
+// Create the vault, or unlock it for this session. Renders nothing once unlocked.
+export function VaultUnlockForm({ status }: { status: VaultStatus }) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  if (status === 'unlocked' || status === 'unavailable') return null;
+
+  const isNew = status === 'empty';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNew && passphrase !== confirmation) {
+      toast({ title: "Passphrases Differ", description: "Type the same passphrase twice", variant: "destructive" });
+      return;
+    }
+    // Deriving the key takes a moment by design
+    setBusy(true);
+    try {
+      if (isNew) {
+        await credentialVault.create(passphrase, { accounts: [], activeId: null });
+      } else {
+        await credentialVault.unlock(passphrase);
+      }
+      setPassphrase('');
+      setConfirmation('');
+    } catch (error) {
+      toast({
+        title: isNew ? "Vault Not Created" : "Vault Still Locked",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReset = () => {
+    // Destructive, so the first click only arms the button
+    if (!confirmReset) {
+      setConfirmReset(true);
+      return;
+    }
+    setConfirmReset(false);
+    credentialVault.reset();
+    toast({ title: "Vault Reset", description: "Saved accounts were deleted; add them again under a new passphrase" });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {isNew
+          ? 'Choose a passphrase to encrypt saved API tokens in this browser. It cannot be recovered.'
+          : 'Saved accounts are encrypted. Unlock them for this session.'}
+      </p>
+      <Input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Passphrase"
+        className="text-sm bg-background"
+        autoComplete={isNew ? 'new-password' : 'current-password'}
+      />
+      {isNew && (
+        <Input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Repeat passphrase"
+          className="text-sm bg-background"
+          autoComplete="new-password"
+        />
+      )}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" className="flex-1" disabled={busy || !passphrase}>
+          {isNew ? <Lock className="h-4 w-4 mr-1" /> : <Unlock className="h-4 w-4 mr-1" />}
+          {busy ? 'Working...' : isNew ? 'Create Vault' : 'Unlock'}
+        </Button>
+        {!isNew && (
+          <Button
+            type="button"
+            size="sm"
+            variant={confirmReset ? 'destructive' : 'outline'}
+            onClick={handleReset}
+            onBlur={() => setConfirmReset(false)}
+            title="Forgot the passphrase? Delete the saved accounts and start over"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            {confirmReset ? 'Confirm' : 'Reset'}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
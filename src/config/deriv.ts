@@ -1,19 +1,52 @@
 // Deriv API Configuration
-// Note: For production, sensitive tokens should be stored in backend secrets
+// API tokens are never configured here; they are entered in the app and kept in the encrypted credential vault
 
 export const DERIV_CONFIG: {
   WS_URL: string;
-  API_TOKEN: string;
   APP_ID: number;
+  OAUTH_URL: string;
   SYMBOLS: Record<string, string>;
   DEFAULT_STAKE: number;
   MAX_STAKE: number;
+  REAL_MAX_STAKE: number;
   MIN_PROBABILITY: number;
   STOP_LOSS_PERCENT: number;
   WIN_RATE_FLOOR: number;
   CALIBRATION_PAUSE_MS: number;
   TAKE_PROFIT_PCT: number;
   HIGH_PRIORITY_THRESHOLD: number;
+  PAPER_STARTING_BALANCE: number;
+  CANDLE_INTERVAL: { ticks: number } | { seconds: number };
+  MAX_CANDLES: number;
+  DIGIT_WINDOW: number;
+  CONNECTION: {
+    RECONNECT_BASE_MS: number;
+    RECONNECT_MAX_MS: number;
+    PING_INTERVAL_MS: number;
+    PONG_TIMEOUT_MS: number;
+    TICK_SILENCE_MS: number;
+  };
+  VAULT: {
+    PBKDF2_ITERATIONS: number;
+    AUTO_LOCK_MS: number;
+  };
+  BALANCE_RECONCILE: {
+    TOLERANCE: number;
+    GRACE_MS: number;
+  };
+  STORAGE: {
+    TRADE_RETENTION_DAYS: number;
+    LOG_RETENTION_DAYS: number;
+    MAX_LOG_ENTRIES: number;
+    COMPACT_INTERVAL_MS: number;
+  };
+  RISK: {
+    MAX_DAILY_LOSS: number;
+    MAX_DRAWDOWN: number;
+    MAX_OPEN_STAKE: number;
+    MAX_TRADES_PER_SYMBOL: number;
+    MAX_CONSECUTIVE_LOSSES: number;
+  };
   INDICATORS: {
     RSI_PERIOD: number;
     RSI_OVERBOUGHT: number;
@@ -24,9 +57,12 @@ export const DERIV_CONFIG: {
     BOLLINGER_STD_DEV: number;
   };
 } = {
-  WS_URL: 'wss://ws.binaryws.com/websockets/v3',
-  API_TOKEN: import.meta.env.VITE_DERIV_TOKEN || 'bwQm6CfYuKyOduN',
+  // Set VITE_DERIV_WS_URL=mock://local to run against the in-process mock server.
+  // import.meta.env only exists under Vite, so the config also loads in plain Node.
+  WS_URL: import.meta.env?.VITE_DERIV_WS_URL || 'wss://ws.binaryws.com/websockets/v3',
   APP_ID: 1089,
+  // Set VITE_DERIV_OAUTH_URL=/oauth/mock to log in through the local stand-in instead of Deriv
+  OAUTH_URL: import.meta.env?.VITE_DERIV_OAUTH_URL || 'https://oauth.deriv.com/oauth2/authorize',
   SYMBOLS: {
     VOLATILITY_10: 'R_10',
     VOLATILITY_25: 'R_25',
@@ -37,12 +73,45 @@ export const DERIV_CONFIG: {
   },
   DEFAULT_STAKE: 1.00,
   MAX_STAKE: 100.00,
+  REAL_MAX_STAKE: 10.00, // Stake ceiling on real-money accounts; MAX_STAKE applies to demo and paper
   MIN_PROBABILITY: 0.75,
   STOP_LOSS_PERCENT: 0.05,
   WIN_RATE_FLOOR: 0.65,
   CALIBRATION_PAUSE_MS: 60000,
   TAKE_PROFIT_PCT: 0.03, // 3% profit target to close trade early
   HIGH_PRIORITY_THRESHOLD: 0.90, // Signals >= 90% get priority execution
+  PAPER_STARTING_BALANCE: 10000, // Virtual balance for paper trading mode
+  CANDLE_INTERVAL: { ticks: 5 }, // OHLC bars for ADX/ATR: { ticks: N } or { seconds: 60 | 300 | ... }
+  MAX_CANDLES: 100,
+  DIGIT_WINDOW: 1000, // Ticks in the rolling last-digit distribution
+  CONNECTION: {
+    RECONNECT_BASE_MS: 1000, // First retry delay, doubled per failed attempt
+    RECONNECT_MAX_MS: 30000, // Backoff cap; retries never stop
+    PING_INTERVAL_MS: 30000,
+    PONG_TIMEOUT_MS: 10000, // An unanswered ping marks the connection dead
+    TICK_SILENCE_MS: 30000, // As does a subscribed symbol that stops ticking
+  },
+  VAULT: {
+    PBKDF2_ITERATIONS: 600000, // PBKDF2-SHA256 rounds for new vaults; existing vaults keep their own count
+    AUTO_LOCK_MS: 900000, // Lock the vault after 15 minutes without input
+  },
+  BALANCE_RECONCILE: {
+    TOLERANCE: 0.01, // Largest balance vs engine P/L difference treated as rounding
+    GRACE_MS: 5000, // How long a larger difference may last before it is flagged
+  },
+  STORAGE: {
+    TRADE_RETENTION_DAYS: 90, // Closed trades kept in IndexedDB; 0 keeps them forever
+    LOG_RETENTION_DAYS: 7,
+    MAX_LOG_ENTRIES: 20000, // Oldest log entries beyond this are compacted away
+    COMPACT_INTERVAL_MS: 3600000,
+  },
+  RISK: {
+    MAX_DAILY_LOSS: 50.00, // Realized loss per UTC day before halting
+    MAX_DRAWDOWN: 30.00, // Peak-to-trough of realized + unrealized P/L
+    MAX_OPEN_STAKE: 20.00, // Total stake across open positions
+    MAX_TRADES_PER_SYMBOL: 1,
+    MAX_CONSECUTIVE_LOSSES: 6,
+  },
   INDICATORS: {
     RSI_PERIOD: 14,
     RSI_OVERBOUGHT: 70,
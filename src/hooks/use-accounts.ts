@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { accountManager, TradingAccount } from '@/lib/account-manager';
+
+// Saved accounts and the active one, refreshed whenever either changes
+export function useAccounts(): { accounts: TradingAccount[]; active: TradingAccount | null } {
+  const [state, setState] = useState(() => ({
+    accounts: accountManager.getAccounts(),
+    active: accountManager.getActiveAccount(),
+  }));
+
+  useEffect(() => {
+    const handleChange = () => setState({
+      accounts: accountManager.getAccounts(),
+      active: accountManager.getActiveAccount(),
+    });
+    accountManager.onChange(handleChange);
+    return () => accountManager.offChange(handleChange);
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { derivWS } from '@/lib/deriv-websocket';
+
+// Hold a tick subscription for each symbol while mounted. Streams are shared and
+// reference-counted by derivWS, so only symbols entering or leaving the list are touched.
+export function useTickSubscriptions(symbols: string[]) {
+  const subscribedRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const subscribed = subscribedRef.current;
+    symbols.filter(symbol => !subscribed.has(symbol)).forEach(symbol => {
+      derivWS.subscribeTicks(symbol);
+      subscribed.add(symbol);
+    });
+    Array.from(subscribed).filter(symbol => !symbols.includes(symbol)).forEach(symbol => {
+      derivWS.unsubscribeTicks(symbol);
+      subscribed.delete(symbol);
+    });
+  }, [symbols]);
+
+  useEffect(() => {
+    const subscribed = subscribedRef.current;
+    return () => {
+      subscribed.forEach(symbol => derivWS.unsubscribeTicks(symbol));
+      subscribed.clear();
+    };
+  }, []);
+}
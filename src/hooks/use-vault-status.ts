@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { credentialVault, VaultStatus } from '@/lib/credential-vault';
+
+export function useVaultStatus(): VaultStatus {
+  const [status, setStatus] = useState<VaultStatus>(() => credentialVault.getStatus());
+
+  useEffect(() => {
+    credentialVault.onStatusChange(setStatus);
+    return () => credentialVault.offStatusChange(setStatus);
+  }, []);
+
+  return status;
+}
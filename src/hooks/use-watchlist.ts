@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { symbolCatalog } from '@/lib/symbol-catalog';
+
+// The symbols the engine and scanners follow; re-renders only when the list itself changes
+export function useWatchlist(): string[] {
+  const [watchlist, setWatchlist] = useState(() => symbolCatalog.getWatchlist());
+
+  useEffect(() => {
+    const handleChange = () => {
+      const next = symbolCatalog.getWatchlist();
+      setWatchlist(current => (current.join() === next.join() ? current : next));
+    };
+    symbolCatalog.onChange(handleChange);
+    return () => symbolCatalog.offChange(handleChange);
+  }, []);
+
+  return watchlist;
+}
@@ -0,0 +1,191 @@
+// Account Manager
+// Named Deriv accounts (demo VRTC and real CR tokens) and which one derivWS is authorized with.
+// The list is kept in the credential vault, so it is only available while the vault is unlocked.
+
+import { derivWS, AccountInfo } from './deriv-websocket';
+import { credentialVault, VaultStatus } from './credential-vault';
+
+export interface TradingAccount {
+  id: string;
+  name: string;
+  token: string;
+  // Learned from authorize; null until the account has been used once
+  loginid: string | null;
+  isVirtual: boolean | null;
+  currency: string | null;
+}
+
+// The vault's contents
+interface StoredAccounts {
+  accounts?: TradingAccount[];
+  activeId?: string | null;
+}
+
+type AccountListHandler = () => void;
+
+class AccountManager {
+  private accounts: TradingAccount[] = [];
+  private activeId: string | null = null;
+  private changeHandlers: AccountListHandler[] = [];
+
+  constructor() {
+    credentialVault.onStatusChange((status: VaultStatus) => this.handleVaultStatus(status));
+    derivWS.onAccountChange((info: AccountInfo) => this.handleAuthorized(info));
+  }
+
+  // Accounts can be added while the vault is unlocked, or in memory only where there is no vault
+  public isEditable(): boolean {
+    const status = credentialVault.getStatus();
+    return status === 'unlocked' || status === 'unavailable';
+  }
+
+  public getAccounts(): TradingAccount[] {
+    return this.accounts.map(account => ({ ...account }));
+  }
+
+  public getActiveAccount(): TradingAccount | null {
+    const account = this.accounts.find(a => a.id === this.activeId);
+    return account ? { ...account } : null;
+  }
+
+  public addAccount(name: string, token: string): TradingAccount {
+    if (!this.isEditable()) {
+      throw new Error('Unlock the vault first');
+    }
+    if (!token.trim()) {
+      throw new Error('An API token is required');
+    }
+    if (this.accounts.some(a => a.token === token.trim())) {
+      throw new Error('That token is already saved');
+    }
+    const account: TradingAccount = {
+      id: crypto.randomUUID(),
+      name: name.trim() || `Account ${this.accounts.length + 1}`,
+      token: token.trim(),
+      loginid: null,
+      isVirtual: null,
+      currency: null,
+    };
+    this.accounts.push(account);
+    this.save();
+    return { ...account };
+  }
+
+  // Add accounts from a Deriv OAuth login, or give known loginids their fresh tokens
+  public importAccounts(logins: { loginid: string; token: string; currency: string }[]): TradingAccount[] {
+    if (!this.isEditable()) {
+      throw new Error('Unlock the vault first');
+    }
+    const imported = logins.map(login => {
+      let account = this.accounts.find(a => a.loginid === login.loginid);
+      if (account) {
+        account.token = login.token;
+        account.currency = login.currency || account.currency;
+      } else {
+        account = {
+          id: crypto.randomUUID(),
+          name: `Deriv ${login.currency || login.loginid}`,
+          token: login.token,
+          loginid: login.loginid,
+          isVirtual: null,
+          currency: login.currency || null,
+        };
+        this.accounts.push(account);
+      }
+      return { ...account };
+    });
+    this.save();
+    return imported;
+  }
+
+  public renameAccount(id: string, name: string) {
+    const account = this.accounts.find(a => a.id === id);
+    if (!account || !name.trim()) return;
+    account.name = name.trim();
+    this.save();
+  }
+
+  public removeAccount(id: string) {
+    if (id === this.activeId) {
+      throw new Error('Switch to another account before removing this one');
+    }
+    this.accounts = this.accounts.filter(a => a.id !== id);
+    this.save();
+  }
+
+  // Reconnect with another account's token. Callers should go through tradingEngine.switchAccount,
+  // which refuses while the engine is running or positions are open.
+  public activate(id: string) {
+    const account = this.accounts.find(a => a.id === id);
+    if (!account) {
+      throw new Error(`Unknown account ${id}`);
+    }
+    if (id === this.activeId && account.token === derivWS.getApiToken()) return;
+
+    this.activeId = id;
+    derivWS.setApiToken(account.token);
+    this.save();
+  }
+
+  public onChange(handler: AccountListHandler) {
+    this.changeHandlers.push(handler);
+  }
+
+  public offChange(handler: AccountListHandler) {
+    const index = this.changeHandlers.indexOf(handler);
+    if (index > -1) {
+      this.changeHandlers.splice(index, 1);
+    }
+  }
+
+  // Load the list when the vault unlocks and forget it when it locks. The connected account keeps
+  // its session either way; locking only hides the saved tokens.
+  private handleVaultStatus(status: VaultStatus) {
+    if (status === 'unavailable') return;
+
+    if (status !== 'unlocked') {
+      this.accounts = [];
+      this.activeId = null;
+      this.notify();
+      return;
+    }
+
+    const stored = credentialVault.read<StoredAccounts>();
+    this.accounts = stored?.accounts ?? [];
+    const connected = this.accounts.find(a => a.token === derivWS.getApiToken());
+    const active = connected ?? this.accounts.find(a => a.id === stored?.activeId) ?? this.accounts[0];
+    this.activeId = active?.id ?? null;
+    this.notify();
+
+    if (active && !connected) {
+      derivWS.setApiToken(active.token);
+    }
+  }
+
+  // Fill in what the active token turned out to be
+  private handleAuthorized(info: AccountInfo) {
+    const account = this.accounts.find(a => a.id === this.activeId);
+    if (!account || account.token !== derivWS.getApiToken()) return;
+    if (account.loginid === info.loginid && account.isVirtual === info.isVirtual && account.currency === info.currency) return;
+
+    account.loginid = info.loginid;
+    account.isVirtual = info.isVirtual;
+    account.currency = info.currency;
+    this.save();
+  }
+
+  private save() {
+    this.notify();
+    if (credentialVault.getStatus() !== 'unlocked') return;
+
+    const contents: StoredAccounts = { accounts: this.accounts, activeId: this.activeId };
+    credentialVault.write(contents).catch(error => console.warn('[Vault] Could not save accounts:', error));
+  }
+
+  private notify() {
+    this.changeHandlers.forEach(handler => handler());
+  }
+}
+
+// Singleton instance
+export const accountManager = new AccountManager();
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { generateTickSeries, runBacktest } from './backtester';
+
+describe('runBacktest', () => {
+  const ticks = generateTickSeries(undefined, 2 * 3600, 42);
+  const result = runBacktest(ticks);
+  const { summary } = result;
+
+  it('trades the generated series with the default parameters', () => {
+    expect(result.ticksProcessed).toBe(ticks.length);
+    expect(summary.totalTrades).toBeGreaterThan(0);
+    expect(summary.wins + summary.losses).toBe(summary.totalTrades);
+    expect(Object.values(result.bySymbol).reduce((sum, s) => sum + s.totalTrades, 0)).toBe(summary.totalTrades);
+  });
+
+  it('is reproducible for a seed', () => {
+    const again = runBacktest(generateTickSeries(undefined, 2 * 3600, 42));
+    expect(again.summary).toEqual(summary);
+  });
+});
@@ -0,0 +1,288 @@
+// Backtesting Engine
+// Replays a tick series through the live indicator and strategy path on a simulated clock
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import type { TickUpdate } from './deriv-websocket';
+import { StreamingIndicators } from './indicators';
+import { CandleAggregator, CandleInterval } from './candles';
+import { DigitStatsTracker } from './digit-stats';
+import {
+  advanceContract,
+  contractBidPrice,
+  contractExpiryEpoch,
+  contractPayout,
+  expectedValue,
+  roundTo,
+  SimulatedContract,
+} from './contract-pricing';
+import { isResellable } from './contract-types';
+import { PriceGenerator, seedForSymbol } from './price-generator';
+import { isStopLossHit } from './risk-manager';
+import { strategyRegistry, Strategy } from './strategies';
+import type { Trade } from './trading-engine';
+
+export interface BacktestOptions {
+  stake?: number;
+  takeProfitPct?: number;
+  stopLossPct?: number;
+  minProbability?: number;
+  historySize?: number;
+  warmupTicks?: number; // ticks required before a symbol is analyzed
+  cooldownMs?: number; // per-symbol pause after each buy, as in TradeQueue
+  executionIntervalMs?: number; // minimum gap between any two buys, as in TradeQueue
+  calibrationPauseMs?: number;
+  candleInterval?: CandleInterval; // OHLC bars for ADX/ATR
+  strategyForSymbol?: (symbol: string) => Strategy;
+}
+
+export interface BacktestSummary {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalProfit: number;
+  maxDrawdown: number; // largest peak-to-trough fall in realized P/L
+  averageProfit: number;
+  takeProfitExits: number;
+  stopLossExits: number;
+}
+
+export interface BacktestResult {
+  trades: Trade[];
+  summary: BacktestSummary;
+  bySymbol: Record<string, BacktestSummary>;
+  ticksProcessed: number;
+  calibrationPauses: number;
+}
+
+interface SimulatedPosition extends SimulatedContract {
+  trade: Trade;
+}
+
+// Interleave seeded synthetic ticks for several symbols in epoch order
+export function generateTickSeries(
+  symbols: string[] = Object.values(DERIV_CONFIG.SYMBOLS),
+  durationSeconds: number = 3600,
+  seed: number = 1,
+  startEpoch: number = 1700000000
+): TickUpdate[] {
+  const ticks: TickUpdate[] = [];
+  symbols.forEach(symbol => {
+    const generator = new PriceGenerator(symbol, { seed: seedForSymbol(seed, symbol), startEpoch });
+    const count = Math.floor(durationSeconds * 1000 / generator.profile.tickIntervalMs);
+    ticks.push(...generator.take(count));
+  });
+  // Array.prototype.sort is stable, so ties keep symbol order
+  return ticks.sort((a, b) => a.epoch - b.epoch);
+}
+
+export function summarizeTrades(trades: Trade[]): BacktestSummary {
+  let wins = 0;
+  let totalProfit = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let takeProfitExits = 0;
+  let stopLossExits = 0;
+
+  trades.forEach(trade => {
+    if (trade.result === 'win') wins++;
+    if (trade.exitReason === 'take_profit') takeProfitExits++;
+    if (trade.exitReason === 'stop_loss') stopLossExits++;
+
+    totalProfit += trade.profit;
+    peak = Math.max(peak, totalProfit);
+    maxDrawdown = Math.max(maxDrawdown, peak - totalProfit);
+  });
+
+  return {
+    totalTrades: trades.length,
+    wins,
+    losses: trades.length - wins,
+    winRate: trades.length > 0 ? wins / trades.length : 0,
+    totalProfit: roundTo(totalProfit, 2),
+    maxDrawdown: roundTo(maxDrawdown, 2),
+    averageProfit: trades.length > 0 ? roundTo(totalProfit / trades.length, 2) : 0,
+    takeProfitExits,
+    stopLossExits,
+  };
+}
+
+// Headless and synchronous: time is taken from tick epochs, never from the wall clock
+export function runBacktest(ticks: TickUpdate[], options: BacktestOptions = {}): BacktestResult {
+  const stake = options.stake ?? DERIV_CONFIG.DEFAULT_STAKE;
+  const takeProfitPct = options.takeProfitPct ?? DERIV_CONFIG.TAKE_PROFIT_PCT;
+  const stopLossPct = options.stopLossPct ?? DERIV_CONFIG.STOP_LOSS_PERCENT;
+  const minProbability = options.minProbability ?? DERIV_CONFIG.MIN_PROBABILITY;
+  const historySize = options.historySize ?? 100;
+  const warmupTicks = options.warmupTicks ?? 30;
+  const cooldownMs = options.cooldownMs ?? 60000;
+  const executionIntervalMs = options.executionIntervalMs ?? 2000;
+  const calibrationPauseMs = options.calibrationPauseMs ?? DERIV_CONFIG.CALIBRATION_PAUSE_MS;
+  const strategyForSymbol = options.strategyForSymbol ?? (symbol => strategyRegistry.getForSymbol(symbol));
+
+  const candles = new CandleAggregator(options.candleInterval ?? DERIV_CONFIG.CANDLE_INTERVAL);
+  const digits = new DigitStatsTracker();
+  const histories: Map<string, number[]> = new Map();
+  const streams: Map<string, StreamingIndicators> = new Map();
+  const cooldowns: Map<string, number> = new Map();
+  const adjustments: Map<string, number> = new Map();
+  const positions: SimulatedPosition[] = [];
+  const journal: Trade[] = [];
+
+  let lastExecutionMs: number | null = null;
+  let pausedUntilMs: number | null = null;
+  let calibrationPauses = 0;
+  let wins = 0;
+
+  const closePosition = (position: SimulatedPosition, sellPrice: number, nowMs: number) => {
+    const { trade } = position;
+    trade.profit = roundTo(sellPrice - stake, 2);
+    trade.status = 'closed';
+    trade.closeTime = nowMs;
+    trade.result = trade.profit >= 0 ? 'win' : 'loss';
+    trade.exitReason = trade.exitReason || 'expiry';
+    trade.bidPrice = sellPrice;
+    trade.unrealizedProfit = undefined;
+    journal.push(trade);
+    positions.splice(positions.indexOf(position), 1);
+
+    // Same adaptive tightening and win-rate floor as the engine
+    if (trade.result === 'win') {
+      wins++;
+    } else {
+      adjustments.set(trade.symbol, (adjustments.get(trade.symbol) || 0) + 0.02);
+    }
+    if (journal.length >= 10 && wins / journal.length < DERIV_CONFIG.WIN_RATE_FLOOR && pausedUntilMs === null) {
+      pausedUntilMs = nowMs + calibrationPauseMs;
+      adjustments.clear();
+      calibrationPauses++;
+    }
+  };
+
+  const updatePositions = (tick: TickUpdate, nowMs: number) => {
+    positions.filter(p => p.trade.symbol === tick.symbol).forEach(position => {
+      const { trade } = position;
+      trade.currentPrice = tick.quote;
+
+      const settlement = advanceContract(position, tick.quote, tick.epoch);
+      if (settlement) {
+        if (settlement.reason === 'take_profit') trade.exitReason = 'take_profit';
+        if (settlement.reason === 'stop_loss' || settlement.reason === 'stop_out') trade.exitReason = 'stop_loss';
+        closePosition(position, settlement.sellPrice, nowMs);
+        return;
+      }
+
+      // The entry spot is the first tick after purchase; the stop loss is measured from the bid there
+      if (position.ticksSeen === 0) {
+        trade.entryPrice = position.entrySpot;
+        trade.entryBid = contractBidPrice(position, tick.epoch);
+        return;
+      }
+
+      const bid = contractBidPrice(position, tick.epoch);
+      trade.bidPrice = bid;
+      trade.unrealizedProfit = roundTo(bid - stake, 2);
+      trade.profit = trade.unrealizedProfit;
+
+      // Digit contracts cannot be sold back, so they always run to expiry
+      if (!isResellable(position.parameters)) return;
+      if (trade.profit >= stake * takeProfitPct) {
+        trade.exitReason = 'take_profit';
+        closePosition(position, bid, nowMs);
+      } else if (isStopLossHit(trade.entryBid, bid, stake, stopLossPct)) {
+        trade.exitReason = 'stop_loss';
+        closePosition(position, bid, nowMs);
+      }
+    });
+  };
+
+  const analyze = (tick: TickUpdate, history: number[], nowMs: number) => {
+    if (pausedUntilMs !== null) {
+      if (nowMs < pausedUntilMs) return;
+      pausedUntilMs = null;
+    }
+    if ((cooldowns.get(tick.symbol) || 0) > nowMs) return;
+    if (lastExecutionMs !== null && nowMs - lastExecutionMs < executionIntervalMs) return;
+
+    const strategy = strategyForSymbol(tick.symbol);
+    const decision = strategy.evaluate({
+      symbol: tick.symbol,
+      price: tick.quote,
+      prices: history,
+      indicators: streams.get(tick.symbol).getResult(),
+      digits: digits.getStats(tick.symbol),
+    });
+    if (!decision) return;
+
+    const probability = Math.max(0, Math.min(1, decision.confidence - (adjustments.get(tick.symbol) || 0)));
+    if (probability < minProbability) return;
+
+    // Same expected-value gate as the engine's proposal check
+    const { contract } = decision;
+    const payout = contractPayout(tick.symbol, contract, stake, tick.quote);
+    if (expectedValue(contract, probability, payout, stake) < 0) return;
+    positions.push({
+      trade: {
+        id: `${tick.symbol}_${decision.direction}_${nowMs}`,
+        symbol: tick.symbol,
+        direction: decision.direction,
+        contract,
+        entryPrice: 0,
+        currentPrice: tick.quote,
+        stake,
+        profit: 0,
+        status: 'open',
+        openTime: nowMs,
+        buyPrice: stake,
+        payout,
+      },
+      symbol: tick.symbol,
+      parameters: contract,
+      buyPrice: stake,
+      payout,
+      entrySpot: null,
+      currentSpot: tick.quote,
+      barrierSpot: null,
+      ticksSeen: 0,
+      expiryEpoch: contractExpiryEpoch(contract, tick.epoch),
+    });
+    lastExecutionMs = nowMs;
+    cooldowns.set(tick.symbol, nowMs + cooldownMs);
+  };
+
+  ticks.forEach(tick => {
+    const nowMs = tick.epoch * 1000;
+    const history = histories.get(tick.symbol) || [];
+    history.push(tick.quote);
+    if (history.length > historySize) {
+      history.shift();
+    }
+    histories.set(tick.symbol, history);
+    candles.addTick(tick);
+    const stream = streams.get(tick.symbol) || new StreamingIndicators();
+    stream.update(tick.quote);
+    stream.updateBar(candles.getLatest(tick.symbol));
+    streams.set(tick.symbol, stream);
+    digits.addTick(tick);
+
+    updatePositions(tick, nowMs);
+
+    if (history.length >= warmupTicks) {
+      analyze(tick, history, nowMs);
+    }
+  });
+
+  // Positions still open when the data runs out are left out of the journal
+  const bySymbol: Record<string, BacktestSummary> = {};
+  Array.from(new Set(journal.map(t => t.symbol))).forEach(symbol => {
+    bySymbol[symbol] = summarizeTrades(journal.filter(t => t.symbol === symbol));
+  });
+
+  return {
+    trades: journal,
+    summary: summarizeTrades(journal),
+    bySymbol,
+    ticksProcessed: ticks.length,
+    calibrationPauses,
+  };
+}
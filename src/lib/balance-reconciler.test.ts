@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DERIV_CONFIG } from '@/config/deriv';
+import type { AccountInfo } from './deriv-websocket';
+
+describe('balanceReconciler', () => {
+  const { TOLERANCE, GRACE_MS } = DERIV_CONFIG.BALANCE_RECONCILE;
+  let balanceReconciler: typeof import('./balance-reconciler').balanceReconciler;
+
+  // Balance updates as the broker's balance stream would deliver them
+  const account = (balance: number, loginid = 'VRTC1001') => {
+    const info: AccountInfo = { loginid, balance, currency: 'USD', isVirtual: loginid.startsWith('VR') };
+    balanceReconciler['handleAccount'](info);
+  };
+
+  // A fresh singleton per test with the books opened at 1000
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    vi.resetModules();
+    ({ balanceReconciler } = await import('./balance-reconciler'));
+    account(1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('agrees when stakes and settlements match the balance movement', () => {
+    balanceReconciler.recordPurchase(10);
+    account(990);
+    balanceReconciler.recordSettlement(19.5);
+    account(1009.5);
+
+    expect(balanceReconciler.getSnapshot()).toMatchObject({ balanceDelta: 9.5, expectedDelta: 9.5, discrepancy: 0 });
+  });
+
+  it('treats a difference within tolerance as rounding', () => {
+    balanceReconciler.recordPurchase(10);
+    account(990 - TOLERANCE);
+    vi.advanceTimersByTime(GRACE_MS * 2);
+
+    expect(balanceReconciler.getSnapshot()).toMatchObject({ discrepancy: -TOLERANCE, isDiscrepant: false });
+  });
+
+  it('flags a difference only once it has outlasted the grace period', () => {
+    const flagged: boolean[] = [];
+    balanceReconciler.onUpdate(snapshot => flagged.push(snapshot.isDiscrepant));
+
+    account(995);
+    vi.advanceTimersByTime(GRACE_MS - 1);
+    expect(balanceReconciler.getSnapshot().isDiscrepant).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(balanceReconciler.getSnapshot()).toMatchObject({ discrepancy: -5, isDiscrepant: true });
+    expect(flagged[flagged.length - 1]).toBe(true);
+  });
+
+  it('does not flag a difference the engine catches up with inside the grace period', () => {
+    // The balance stream reports the debit before the engine records the buy
+    account(990);
+    vi.advanceTimersByTime(GRACE_MS - 1);
+    balanceReconciler.recordPurchase(10);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    expect(balanceReconciler.getSnapshot()).toMatchObject({ discrepancy: 0, isDiscrepant: false });
+  });
+
+  it('clears the flag on rebase and opens new books for another account', () => {
+    account(1050);
+    vi.advanceTimersByTime(GRACE_MS);
+    expect(balanceReconciler.getSnapshot().isDiscrepant).toBe(true);
+
+    balanceReconciler.rebase();
+    expect(balanceReconciler.getSnapshot()).toMatchObject({ baseline: 1050, discrepancy: 0, isDiscrepant: false });
+
+    balanceReconciler.recordPurchase(10);
+    account(500, 'CR2002');
+    expect(balanceReconciler.getSnapshot()).toMatchObject({
+      loginid: 'CR2002',
+      baseline: 500,
+      expectedDelta: 0,
+      discrepancy: 0,
+      isDiscrepant: false,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+// Balance Reconciler
+// Compares the broker's balance movement with the engine's own record of stakes paid and
+// settlements received, and flags the session when the two books disagree
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import { derivWS, AccountInfo } from './deriv-websocket';
+import { roundTo } from './contract-pricing';
+
+export interface BalanceReconciliation {
+  loginid: string | null;
+  baseline: number | null; // balance when the session's books were opened
+  balance: number | null;
+  balanceDelta: number; // broker: balance now minus baseline
+  expectedDelta: number; // engine: settlements received minus stakes paid since the baseline
+  discrepancy: number; // balanceDelta - expectedDelta
+  isDiscrepant: boolean; // outside tolerance for longer than the grace period
+}
+
+type ReconciliationHandler = (snapshot: BalanceReconciliation) => void;
+
+class BalanceReconciler {
+  private loginid: string | null = null;
+  private baseline: number | null = null;
+  private balance: number | null = null;
+  private expectedDelta = 0;
+  private isDiscrepant = false;
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  private handlers: ReconciliationHandler[] = [];
+
+  constructor() {
+    derivWS.onAccountChange((account: AccountInfo) => this.handleAccount(account));
+  }
+
+  // A live buy went through; the broker debits the stake
+  public recordPurchase(buyPrice: number) {
+    this.expectedDelta = roundTo(this.expectedDelta - buyPrice, 2);
+    this.check();
+  }
+
+  // A live contract settled or was sold; the broker credits what it paid out (0 for a loss)
+  public recordSettlement(sellPrice: number) {
+    this.expectedDelta = roundTo(this.expectedDelta + sellPrice, 2);
+    this.check();
+  }
+
+  // Accept the current balance as the new starting point, e.g. after a deposit
+  public rebase() {
+    this.baseline = this.balance;
+    this.expectedDelta = 0;
+    this.check();
+  }
+
+  public getSnapshot(): BalanceReconciliation {
+    const balanceDelta = this.baseline !== null && this.balance !== null ? roundTo(this.balance - this.baseline, 2) : 0;
+    return {
+      loginid: this.loginid,
+      baseline: this.baseline,
+      balance: this.balance,
+      balanceDelta,
+      expectedDelta: this.expectedDelta,
+      discrepancy: roundTo(balanceDelta - this.expectedDelta, 2),
+      isDiscrepant: this.isDiscrepant,
+    };
+  }
+
+  public onUpdate(handler: ReconciliationHandler) {
+    this.handlers.push(handler);
+    handler(this.getSnapshot());
+  }
+
+  public offUpdate(handler: ReconciliationHandler) {
+    const index = this.handlers.indexOf(handler);
+    if (index > -1) {
+      this.handlers.splice(index, 1);
+    }
+  }
+
+  private handleAccount(account: AccountInfo) {
+    // Books are per account; a reconnect to the same account keeps them
+    if (account.loginid !== this.loginid) {
+      this.loginid = account.loginid;
+      this.baseline = account.balance;
+      this.expectedDelta = 0;
+    }
+    this.balance = account.balance;
+    this.check();
+  }
+
+  // Buys and settlements reach the balance stream and the engine at slightly different
+  // times, so a mismatch is only flagged once it has outlasted the grace period
+  private check() {
+    const { discrepancy } = this.getSnapshot();
+    const withinTolerance = Math.abs(discrepancy) <= DERIV_CONFIG.BALANCE_RECONCILE.TOLERANCE;
+
+    if (withinTolerance) {
+      this.clearGraceTimer();
+      this.isDiscrepant = false;
+    } else if (!this.isDiscrepant && !this.graceTimer) {
+      this.graceTimer = setTimeout(() => {
+        this.graceTimer = null;
+        this.isDiscrepant = true;
+        this.notify();
+      }, DERIV_CONFIG.BALANCE_RECONCILE.GRACE_MS);
+    }
+    this.notify();
+  }
+
+  private clearGraceTimer() {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+
+  private notify() {
+    const snapshot = this.getSnapshot();
+    this.handlers.forEach(handler => handler(snapshot));
+  }
+}
+
+// Singleton instance
+export const balanceReconciler = new BalanceReconciler();
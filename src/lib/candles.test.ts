@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { CandleAggregator, CandleHistorySource } from './candles';
+import type { Candle, TickUpdate } from './deriv-websocket';
+
+const SYMBOL = 'R_100';
+
+function ticks(quotes: number[], startEpoch = 1000, step = 1): TickUpdate[] {
+  return quotes.map((quote, i) => ({ symbol: SYMBOL, quote, epoch: startEpoch + i * step }));
+}
+
+describe('CandleAggregator', () => {
+  it('closes a bar every N ticks with its open, high, low and close', () => {
+    const aggregator = new CandleAggregator({ ticks: 5 });
+    const closed: Candle[] = [];
+    aggregator.onCandle(candle => closed.push({ ...candle }));
+
+    ticks([10, 12, 9, 11, 10.5, 10, 8, 13, 12, 11.5, 11, 12]).forEach(tick => aggregator.addTick(tick));
+
+    expect(closed).toEqual([
+      { symbol: SYMBOL, epoch: 1000, open: 10, high: 12, low: 9, close: 10.5 },
+      { symbol: SYMBOL, epoch: 1005, open: 10, high: 13, low: 8, close: 11.5 },
+    ]);
+    // The forming bar follows the closed ones
+    expect(aggregator.getCandles(SYMBOL)).toHaveLength(3);
+    expect(aggregator.getLatest(SYMBOL)).toMatchObject({ epoch: 1010, open: 11, high: 12, low: 11, close: 12 });
+  });
+
+  it('buckets by time and closes a bar when the next bucket starts', () => {
+    const aggregator = new CandleAggregator({ seconds: 60 });
+    const bucket = 1_700_000_040; // a minute boundary
+
+    expect(aggregator.addTick({ symbol: SYMBOL, quote: 5, epoch: bucket + 2 })).toBeNull();
+    expect(aggregator.addTick({ symbol: SYMBOL, quote: 7, epoch: bucket + 30 })).toBeNull();
+    expect(aggregator.addTick({ symbol: SYMBOL, quote: 6, epoch: bucket + 59 })).toBeNull();
+    const closed = aggregator.addTick({ symbol: SYMBOL, quote: 4, epoch: bucket + 61 });
+
+    expect(closed).toEqual({ symbol: SYMBOL, epoch: bucket, open: 5, high: 7, low: 5, close: 6 });
+    expect(aggregator.getLatest(SYMBOL)).toMatchObject({ epoch: bucket + 60, open: 4, close: 4 });
+  });
+
+  it('ignores replayed and out-of-order ticks', () => {
+    const aggregator = new CandleAggregator({ ticks: 3 });
+    const series = ticks([1, 2, 3]);
+    series.forEach(tick => aggregator.addTick(tick));
+    series.forEach(tick => aggregator.addTick({ ...tick, quote: 100 }));
+
+    expect(aggregator.getSeries(SYMBOL)).toEqual({ opens: [1], highs: [3], lows: [1], closes: [3] });
+  });
+
+  it('keeps only the newest bars', () => {
+    const aggregator = new CandleAggregator({ ticks: 1 }, 3);
+    ticks([1, 2, 3, 4, 5]).forEach(tick => aggregator.addTick(tick));
+
+    expect(aggregator.getSeries(SYMBOL).closes).toEqual([3, 4, 5]);
+  });
+
+  it('extends the newest seeded candle with ticks in its bucket', () => {
+    const aggregator = new CandleAggregator({ seconds: 60 });
+    const seed: Candle[] = [
+      { symbol: SYMBOL, epoch: 1_700_000_040, open: 1, high: 2, low: 0.5, close: 1.5 },
+      { symbol: SYMBOL, epoch: 1_700_000_100, open: 1.5, high: 1.8, low: 1.4, close: 1.6 },
+    ];
+    // An older tick, two in the seeded forming bucket, then one in the next bucket
+    const history = [
+      { symbol: SYMBOL, quote: 9, epoch: 1_700_000_050 },
+      { symbol: SYMBOL, quote: 1.9, epoch: 1_700_000_110 },
+      { symbol: SYMBOL, quote: 1.3, epoch: 1_700_000_120 },
+      { symbol: SYMBOL, quote: 1.35, epoch: 1_700_000_161 },
+    ];
+    aggregator.load(SYMBOL, history, seed);
+
+    expect(aggregator.getCandles(SYMBOL)).toEqual([
+      seed[0],
+      { symbol: SYMBOL, epoch: 1_700_000_100, open: 1.5, high: 1.9, low: 1.3, close: 1.3 },
+      { symbol: SYMBOL, epoch: 1_700_000_160, open: 1.35, high: 1.35, low: 1.35, close: 1.35 },
+    ]);
+  });
+
+  it('backfills from tick history and keeps live ticks that arrived first', async () => {
+    const aggregator = new CandleAggregator({ ticks: 2 }, 10);
+    const history = ticks([1, 2, 3, 4]);
+    const requested: number[] = [];
+    const source: CandleHistorySource = {
+      getTickHistory: async (_symbol, count) => {
+        requested.push(count);
+        return history;
+      },
+      getCandles: async () => [],
+    };
+
+    const merged = await aggregator.backfill(source, SYMBOL, () => ticks([4, 5], 1003), 30);
+
+    // Enough ticks for every bar, or the caller's minimum if larger
+    expect(requested).toEqual([30]);
+    expect(merged.map(t => t.quote)).toEqual([1, 2, 3, 4, 5]);
+    expect(aggregator.getSeries(SYMBOL).closes).toEqual([2, 4, 5]);
+  });
+});
@@ -0,0 +1,189 @@
+// OHLC Candle Aggregator
+// Streams ticks into per-symbol bars closed every N ticks or on fixed time buckets
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import type { Candle, TickUpdate } from './deriv-websocket';
+import { mergeTicks } from './tick-history';
+
+export type CandleInterval = { ticks: number } | { seconds: number };
+
+export interface OHLCSeries {
+  opens: number[];
+  highs: number[];
+  lows: number[];
+  closes: number[];
+}
+
+// Anything that can serve ticks_history, e.g. derivWS
+export interface CandleHistorySource {
+  getTickHistory(symbol: string, count: number): Promise<TickUpdate[]>;
+  getCandles(symbol: string, granularity: number, count: number): Promise<Candle[]>;
+}
+
+interface SymbolCandles {
+  candles: Candle[]; // closed bars, then the forming bar (if any)
+  formingTicks: number; // ticks in the forming bar; 0 when the last bar is closed
+  lastEpoch: number;
+}
+
+type CandleHandler = (candle: Candle) => void;
+
+// Deriv serves at most 5000 ticks per ticks_history call
+const MAX_HISTORY_TICKS = 5000;
+
+export class CandleAggregator {
+  private symbols: Map<string, SymbolCandles> = new Map();
+  private candleHandlers: CandleHandler[] = [];
+
+  constructor(
+    private interval: CandleInterval = DERIV_CONFIG.CANDLE_INTERVAL,
+    private maxCandles: number = DERIV_CONFIG.MAX_CANDLES
+  ) {}
+
+  // Fold a tick into its symbol's forming bar. Returns the bar it closes, if any.
+  // Ticks at or before the last seen epoch are ignored, so replays and overlaps are safe.
+  public addTick(tick: TickUpdate): Candle | null {
+    const state = this.getState(tick.symbol);
+    if (tick.epoch <= state.lastEpoch) return null;
+    state.lastEpoch = tick.epoch;
+
+    let closed: Candle | null = null;
+    let forming = state.formingTicks > 0 ? state.candles[state.candles.length - 1] : null;
+
+    // A time bucket closes when the first tick of the next bucket arrives
+    if (forming && 'seconds' in this.interval && this.bucketStart(tick.epoch) !== forming.epoch) {
+      closed = forming;
+      forming = null;
+      state.formingTicks = 0;
+    }
+
+    if (forming) {
+      forming.high = Math.max(forming.high, tick.quote);
+      forming.low = Math.min(forming.low, tick.quote);
+      forming.close = tick.quote;
+    } else {
+      forming = {
+        symbol: tick.symbol,
+        epoch: this.bucketStart(tick.epoch),
+        open: tick.quote,
+        high: tick.quote,
+        low: tick.quote,
+        close: tick.quote,
+      };
+      state.candles.push(forming);
+      if (state.candles.length > this.maxCandles) {
+        state.candles.shift();
+      }
+    }
+    state.formingTicks++;
+
+    if ('ticks' in this.interval && state.formingTicks >= this.interval.ticks) {
+      closed = forming;
+      state.formingTicks = 0;
+    }
+
+    if (closed) {
+      this.candleHandlers.forEach(handler => handler(closed));
+    }
+    return closed;
+  }
+
+  // Replace a symbol's bars: seed with server candles, then replay ticks from the last seeded bucket on
+  public load(symbol: string, ticks: TickUpdate[], seedCandles: Candle[] = []) {
+    const seeded = seedCandles.slice(-this.maxCandles).map(c => ({ ...c, symbol }));
+    const last = seeded[seeded.length - 1];
+
+    this.symbols.set(symbol, {
+      candles: seeded,
+      // The newest server candle may still be forming; ticks in its bucket extend it
+      formingTicks: last ? 1 : 0,
+      lastEpoch: last ? last.epoch - 1 : 0,
+    });
+
+    ticks
+      .filter(tick => !last || tick.epoch >= last.epoch)
+      .forEach(tick => this.addTick({ ...tick, symbol }));
+  }
+
+  // Closed bars followed by the forming bar
+  public getCandles(symbol: string): Candle[] {
+    return [...(this.symbols.get(symbol)?.candles || [])];
+  }
+
+  // The forming bar, or the last closed bar between ticks
+  public getLatest(symbol: string): Candle | null {
+    const candles = this.symbols.get(symbol)?.candles || [];
+    return candles[candles.length - 1] || null;
+  }
+
+  public getSeries(symbol: string): OHLCSeries {
+    const candles = this.symbols.get(symbol)?.candles || [];
+    return {
+      opens: candles.map(c => c.open),
+      highs: candles.map(c => c.high),
+      lows: candles.map(c => c.low),
+      closes: candles.map(c => c.close),
+    };
+  }
+
+  public getInterval(): CandleInterval {
+    return this.interval;
+  }
+
+  public reset(symbol?: string) {
+    if (symbol) {
+      this.symbols.delete(symbol);
+    } else {
+      this.symbols.clear();
+    }
+  }
+
+  public onCandle(handler: CandleHandler) {
+    this.candleHandlers.push(handler);
+  }
+
+  public offCandle(handler: CandleHandler) {
+    const index = this.candleHandlers.indexOf(handler);
+    if (index > -1) {
+      this.candleHandlers.splice(index, 1);
+    }
+  }
+
+  // Fill a symbol's bars from ticks_history, keeping live ticks received before the reply.
+  // Returns the merged tick window (oldest first) for callers that also keep raw ticks.
+  public async backfill(
+    source: CandleHistorySource,
+    symbol: string,
+    getLiveTicks: () => TickUpdate[],
+    minTicks: number = 0
+  ): Promise<TickUpdate[]> {
+    if ('ticks' in this.interval) {
+      const count = Math.min(MAX_HISTORY_TICKS, Math.max(minTicks, this.interval.ticks * this.maxCandles));
+      const history = await source.getTickHistory(symbol, count);
+      const ticks = mergeTicks(history, getLiveTicks(), MAX_HISTORY_TICKS);
+      this.load(symbol, ticks);
+      return ticks;
+    }
+
+    const [candles, history] = await Promise.all([
+      source.getCandles(symbol, this.interval.seconds, this.maxCandles),
+      source.getTickHistory(symbol, Math.max(1, minTicks)),
+    ]);
+    const ticks = mergeTicks(history, getLiveTicks(), MAX_HISTORY_TICKS);
+    this.load(symbol, ticks, candles);
+    return ticks;
+  }
+
+  private bucketStart(epoch: number): number {
+    return 'seconds' in this.interval ? epoch - (epoch % this.interval.seconds) : epoch;
+  }
+
+  private getState(symbol: string): SymbolCandles {
+    let state = this.symbols.get(symbol);
+    if (!state) {
+      state = { candles: [], formingTicks: 0, lastEpoch: 0 };
+      this.symbols.set(symbol, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { expectedValue, riseFallPayout } from './contract-pricing';
+import type { ContractParameters } from './deriv-websocket';
+
+describe('expectedValue', () => {
+  const call: ContractParameters = { contractType: 'CALL', duration: 5, durationUnit: 't' };
+  const stake = 10;
+
+  it('weighs the payout by the win probability against the ask price', () => {
+    expect(expectedValue(call, 0.6, 19.5, stake)).toBe(1.7);
+    expect(expectedValue({ contractType: 'DIGITMATCH', duration: 5, durationUnit: 't', barrier: '3' }, 0.1, 90, stake)).toBe(-1);
+  });
+
+  it('is negative for an even-odds rise/fall at the standard payout, so the gate refuses it', () => {
+    expect(expectedValue(call, 0.5, riseFallPayout(stake), stake)).toBe(-0.25);
+  });
+
+  it('breaks even where the probability equals the ask over the payout', () => {
+    expect(expectedValue(call, stake / 19.5, 19.5, stake)).toBeCloseTo(0, 10);
+    expect(expectedValue(call, stake / 19.5 - 0.001, 19.5, stake)).toBeLessThan(0);
+  });
+
+  it('has none for multipliers, which the gate lets through', () => {
+    expect(expectedValue({ contractType: 'MULTUP', multiplier: 100 }, 0.1, 0, stake)).toBeUndefined();
+  });
+});
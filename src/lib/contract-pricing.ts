@@ -0,0 +1,281 @@
+// Contract Pricing
+// Shared by the mock server, the paper broker and the backtester so simulated fills agree
+
+import type { ContractParameters, DurationUnit } from './deriv-websocket';
+import { getContractCategory, resolveBarrier } from './contract-types';
+import { getLastDigit } from './digit-stats';
+import { getSymbolProfile, tickVolatility } from './price-generator';
+
+// Deriv pays roughly 95% on a winning rise/fall stake
+export const RISE_FALL_PAYOUT_RATIO = 1.95;
+
+// Spread applied to the fair value when selling back before expiry
+export const RESALE_SPREAD = 0.97;
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export function riseFallPayout(stake: number): number {
+  return roundTo(stake * RISE_FALL_PAYOUT_RATIO, 2);
+}
+
+// Probability that a CALL/PUT finishes in the money under a driftless random walk
+export function riseFallWinProbability(
+  symbol: string,
+  contractType: 'CALL' | 'PUT',
+  entrySpot: number,
+  currentSpot: number,
+  remainingTicks: number
+): number {
+  const sigma = tickVolatility(symbol) * Math.sqrt(Math.max(1, remainingTicks));
+  const distance = Math.log(currentSpot / entrySpot) / sigma;
+  return contractType === 'CALL' ? normalCdf(distance) : normalCdf(-distance);
+}
+
+// Resale (bid) price of an open rise/fall contract
+export function riseFallBidPrice(
+  symbol: string,
+  contractType: 'CALL' | 'PUT',
+  payout: number,
+  entrySpot: number,
+  currentSpot: number,
+  remainingTicks: number
+): number {
+  const winProbability = riseFallWinProbability(symbol, contractType, entrySpot, currentSpot, remainingTicks);
+  return roundTo(payout * winProbability * RESALE_SPREAD, 2);
+}
+
+// Expected profit of buying a contract at `askPrice` that pays `payout` with `winProbability`.
+// Multipliers have no fixed payout to weigh against the stake, so they have none.
+export function expectedValue(
+  contract: ContractParameters,
+  winProbability: number,
+  payout: number,
+  askPrice: number
+): number | undefined {
+  if (getContractCategory(contract) === 'multiplier') return undefined;
+  return roundTo(winProbability * payout - askPrice, 2);
+}
+
+// Rise/Fall settles strictly: an exit equal to the entry loses both ways
+export function riseFallWins(contractType: 'CALL' | 'PUT', entrySpot: number, exitSpot: number): boolean {
+  return contractType === 'CALL' ? exitSpot > entrySpot : exitSpot < entrySpot;
+}
+
+// Share of the fair payout Deriv pays out (1.95 on an even-odds rise/fall)
+const PAYOUT_MARGIN = RISE_FALL_PAYOUT_RATIO / 2;
+
+// Offers are only made between these win probabilities
+const MIN_OFFER_PROBABILITY = 0.05;
+const MAX_OFFER_PROBABILITY = 0.95;
+
+export const DURATION_SECONDS: Record<Exclude<DurationUnit, 't'>, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+// Open contract state the simulators advance tick by tick
+export interface SimulatedContract {
+  symbol: string;
+  parameters: ContractParameters;
+  buyPrice: number;
+  payout: number; // 0 for multipliers
+  entrySpot: number | null;
+  currentSpot: number | null;
+  barrierSpot: number | null; // absolute price barrier, fixed at entry
+  ticksSeen: number; // ticks after the entry tick
+  expiryEpoch: number | null; // time-based contracts only
+}
+
+export interface ContractSettlement {
+  status: 'won' | 'lost' | 'sold';
+  sellPrice: number;
+  reason: 'expiry' | 'touch' | 'take_profit' | 'stop_loss' | 'stop_out';
+}
+
+// Expiry time of a time-based contract; tick contracts and multipliers have none
+export function contractExpiryEpoch(parameters: ContractParameters, purchaseEpoch: number): number | null {
+  const { duration, durationUnit } = parameters;
+  if (duration === undefined || !durationUnit || durationUnit === 't') return null;
+  return purchaseEpoch + duration * DURATION_SECONDS[durationUnit];
+}
+
+// Probability that the price touches `barrier` within the remaining ticks (reflection principle)
+function touchProbability(symbol: string, currentSpot: number, barrier: number, remainingTicks: number): number {
+  const sigma = tickVolatility(symbol) * Math.sqrt(Math.max(1, remainingTicks));
+  return Math.min(1, 2 * normalCdf(-Math.abs(Math.log(barrier / currentSpot)) / sigma));
+}
+
+// Probability that a digit contract settles in the money on a uniform last digit
+function digitWinProbability(parameters: ContractParameters): number {
+  const digit = Number(parameters.barrier);
+  switch (parameters.contractType) {
+    case 'DIGITOVER': return (9 - digit) / 10;
+    case 'DIGITUNDER': return digit / 10;
+    case 'DIGITMATCH': return 0.1;
+    case 'DIGITDIFF': return 0.9;
+    default: return 0.5; // even/odd
+  }
+}
+
+// Probability that an open binary contract finishes in the money
+export function contractWinProbability(
+  symbol: string,
+  parameters: ContractParameters,
+  entrySpot: number,
+  currentSpot: number,
+  barrierSpot: number | null,
+  remainingTicks: number
+): number {
+  const { contractType } = parameters;
+  switch (getContractCategory(parameters)) {
+    case 'rise_fall':
+      return riseFallWinProbability(symbol, contractType as 'CALL' | 'PUT', entrySpot, currentSpot, remainingTicks);
+    case 'higher_lower':
+      // Same as rise/fall, measured from the barrier instead of the entry spot
+      return riseFallWinProbability(symbol, contractType as 'CALL' | 'PUT', barrierSpot, currentSpot, remainingTicks);
+    case 'touch': {
+      const touch = touchProbability(symbol, currentSpot, barrierSpot, remainingTicks);
+      return contractType === 'ONETOUCH' ? touch : 1 - touch;
+    }
+    case 'digits':
+      return digitWinProbability(parameters);
+    default:
+      return 0;
+  }
+}
+
+// Contract length in ticks, converting time durations at the symbol's tick rate
+export function durationInTicks(symbol: string, parameters: ContractParameters): number {
+  const { duration, durationUnit } = parameters;
+  if (duration === undefined) return 0;
+  if (!durationUnit || durationUnit === 't') return duration;
+  return duration * DURATION_SECONDS[durationUnit] * 1000 / getSymbolProfile(symbol).tickIntervalMs;
+}
+
+// Payout offered at purchase, priced from the current spot
+export function contractPayout(symbol: string, parameters: ContractParameters, stake: number, spot: number): number {
+  const category = getContractCategory(parameters);
+  if (category === 'multiplier') return 0;
+  if (category === 'rise_fall') return riseFallPayout(stake);
+
+  const barrierSpot = category === 'digits' ? null : resolveBarrier(parameters.barrier, spot);
+  const probability = contractWinProbability(symbol, parameters, spot, spot, barrierSpot, durationInTicks(symbol, parameters));
+  const clamped = Math.min(MAX_OFFER_PROBABILITY, Math.max(MIN_OFFER_PROBABILITY, probability));
+  return roundTo(stake * PAYOUT_MARGIN / clamped, 2);
+}
+
+// Multiplier P/L: stake x multiplier x relative move in the contract's direction
+export function multiplierProfit(contract: SimulatedContract): number {
+  if (contract.entrySpot === null || contract.currentSpot === null) return 0;
+  const move = contract.currentSpot / contract.entrySpot - 1;
+  const sign = contract.parameters.contractType === 'MULTUP' ? 1 : -1;
+  return roundTo(contract.buyPrice * contract.parameters.multiplier * move * sign, 2);
+}
+
+// Settlement of a binary contract at expiry
+export function contractWins(contract: SimulatedContract, exitSpot: number): boolean {
+  const { contractType, barrier } = contract.parameters;
+  switch (getContractCategory(contract.parameters)) {
+    case 'rise_fall':
+      return riseFallWins(contractType as 'CALL' | 'PUT', contract.entrySpot, exitSpot);
+    case 'higher_lower':
+      return contractType === 'CALL' ? exitSpot > contract.barrierSpot : exitSpot < contract.barrierSpot;
+    case 'touch':
+      // Reaching expiry means the barrier was never touched
+      return contractType === 'NOTOUCH';
+    case 'digits': {
+      const digit = getLastDigit(exitSpot, getSymbolProfile(contract.symbol).decimals);
+      const prediction = Number(barrier);
+      switch (contractType) {
+        case 'DIGITEVEN': return digit % 2 === 0;
+        case 'DIGITODD': return digit % 2 === 1;
+        case 'DIGITOVER': return digit > prediction;
+        case 'DIGITUNDER': return digit < prediction;
+        case 'DIGITMATCH': return digit === prediction;
+        default: return digit !== prediction;
+      }
+    }
+    default:
+      return false;
+  }
+}
+
+// Feed the next tick to an open contract; returns its settlement once it closes.
+// The entry spot is the first tick after purchase; tick contracts exit on the Nth tick after entry.
+export function advanceContract(contract: SimulatedContract, quote: number, epoch: number): ContractSettlement | null {
+  const { parameters } = contract;
+  const category = getContractCategory(parameters);
+  contract.currentSpot = quote;
+
+  if (contract.entrySpot === null) {
+    contract.entrySpot = quote;
+    if (category === 'higher_lower' || category === 'touch') {
+      contract.barrierSpot = resolveBarrier(parameters.barrier, quote);
+    }
+    return null;
+  }
+  contract.ticksSeen++;
+
+  if (category === 'multiplier') {
+    const profit = multiplierProfit(contract);
+    const { takeProfit, stopLoss } = parameters.limitOrder || {};
+    const sellPrice = roundTo(Math.max(0, contract.buyPrice + profit), 2);
+    if (profit <= -contract.buyPrice) return { status: 'lost', sellPrice: 0, reason: 'stop_out' };
+    if (takeProfit !== undefined && profit >= takeProfit) return { status: 'sold', sellPrice, reason: 'take_profit' };
+    if (stopLoss !== undefined && profit <= -stopLoss) return { status: 'sold', sellPrice, reason: 'stop_loss' };
+    return null;
+  }
+
+  if (category === 'touch') {
+    const touched = contract.barrierSpot >= contract.entrySpot ? quote >= contract.barrierSpot : quote <= contract.barrierSpot;
+    if (touched) {
+      const won = parameters.contractType === 'ONETOUCH';
+      return { status: won ? 'won' : 'lost', sellPrice: won ? contract.payout : 0, reason: 'touch' };
+    }
+  }
+
+  const expired = contract.expiryEpoch === null
+    ? contract.ticksSeen >= parameters.duration
+    : epoch >= contract.expiryEpoch;
+  if (!expired) return null;
+
+  const won = contractWins(contract, quote);
+  return { status: won ? 'won' : 'lost', sellPrice: won ? contract.payout : 0, reason: 'expiry' };
+}
+
+// Resale (bid) price of an open contract at `epoch`
+export function contractBidPrice(contract: SimulatedContract, epoch: number): number {
+  if (contract.entrySpot === null) return contract.buyPrice;
+  if (getContractCategory(contract.parameters) === 'multiplier') {
+    return roundTo(Math.max(0, contract.buyPrice + multiplierProfit(contract)), 2);
+  }
+
+  // Time-based contracts are priced on the number of ticks left before expiry
+  const tickSeconds = getSymbolProfile(contract.symbol).tickIntervalMs / 1000;
+  const remaining = contract.expiryEpoch === null
+    ? contract.parameters.duration - contract.ticksSeen
+    : (contract.expiryEpoch - epoch) / tickSeconds;
+
+  const winProbability = contractWinProbability(
+    contract.symbol,
+    contract.parameters,
+    contract.entrySpot,
+    contract.currentSpot,
+    contract.barrierSpot,
+    remaining
+  );
+  return roundTo(contract.payout * winProbability * RESALE_SPREAD, 2);
+}
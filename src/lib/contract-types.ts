@@ -0,0 +1,147 @@
+// Contract Catalogue
+// Offering rules and display labels for the Deriv contract types the buy path supports
+
+import type { ContractParameters, ContractType } from './deriv-websocket';
+
+export type ContractCategory = 'rise_fall' | 'higher_lower' | 'digits' | 'touch' | 'multiplier';
+
+export const CONTRACT_TYPES: ContractType[] = [
+  'CALL', 'PUT',
+  'DIGITEVEN', 'DIGITODD', 'DIGITOVER', 'DIGITUNDER', 'DIGITMATCH', 'DIGITDIFF',
+  'ONETOUCH', 'NOTOUCH',
+  'MULTUP', 'MULTDOWN',
+];
+
+// Digit contracts that take a prediction in `barrier`
+const DIGIT_PREDICTION_TYPES: ContractType[] = ['DIGITOVER', 'DIGITUNDER', 'DIGITMATCH', 'DIGITDIFF'];
+
+const MAX_TICK_DURATION = 10;
+const MIN_BARRIER_TICKS = 5;
+
+const CONTRACT_LABELS: Record<ContractType, string> = {
+  CALL: 'RISE',
+  PUT: 'FALL',
+  DIGITEVEN: 'EVEN',
+  DIGITODD: 'ODD',
+  DIGITOVER: 'OVER',
+  DIGITUNDER: 'UNDER',
+  DIGITMATCH: 'MATCH',
+  DIGITDIFF: 'DIFFERS',
+  ONETOUCH: 'TOUCH',
+  NOTOUCH: 'NO TOUCH',
+  MULTUP: 'MULT UP',
+  MULTDOWN: 'MULT DOWN',
+};
+
+export function isContractType(value: string): value is ContractType {
+  return (CONTRACT_TYPES as string[]).includes(value);
+}
+
+export function getContractCategory(contract: Pick<ContractParameters, 'contractType' | 'barrier'>): ContractCategory {
+  switch (contract.contractType) {
+    case 'CALL':
+    case 'PUT':
+      return contract.barrier !== undefined ? 'higher_lower' : 'rise_fall';
+    case 'ONETOUCH':
+    case 'NOTOUCH':
+      return 'touch';
+    case 'MULTUP':
+    case 'MULTDOWN':
+      return 'multiplier';
+    default:
+      return 'digits';
+  }
+}
+
+// Contracts that pay when the price falls or stays away; the rest are reported as LONG
+const SHORT_TYPES: ContractType[] = ['PUT', 'NOTOUCH', 'MULTDOWN', 'DIGITUNDER', 'DIGITODD', 'DIGITDIFF'];
+
+// Direction shown for a contract opened without a signal, e.g. one recovered from the portfolio
+export function contractDirection(contractType: ContractType): 'LONG' | 'SHORT' {
+  return SHORT_TYPES.includes(contractType) ? 'SHORT' : 'LONG';
+}
+
+// Digit contracts run to their last tick; everything else can be sold back once started. This is the
+// simulated rule for the mock server, the paper broker and the backtester; live trading follows the
+// broker's is_valid_to_sell instead.
+export function isResellable(contract: Pick<ContractParameters, 'contractType' | 'barrier'>): boolean {
+  return getContractCategory(contract) !== 'digits';
+}
+
+// Absolute price of a price barrier; relative barriers ('+0.8', '-1.2') are offsets from the entry spot
+export function resolveBarrier(barrier: string, entrySpot: number): number {
+  const value = parseFloat(barrier);
+  return /^[+-]/.test(barrier.trim()) ? entrySpot + value : value;
+}
+
+// Check a contract against Deriv's offering rules for synthetic indices. Returns the reason it is invalid, or null.
+export function validateContract(contract: ContractParameters): string | null {
+  if (!isContractType(contract.contractType)) {
+    return `Contract type ${contract.contractType} is not offered.`;
+  }
+
+  const category = getContractCategory(contract);
+  if (category === 'multiplier') {
+    if (!(contract.multiplier > 0)) return 'Multiplier contracts require a multiplier.';
+    if (contract.duration !== undefined) return 'Multiplier contracts do not take a duration.';
+    const { takeProfit, stopLoss } = contract.limitOrder || {};
+    if ((takeProfit !== undefined && !(takeProfit > 0)) || (stopLoss !== undefined && !(stopLoss > 0))) {
+      return 'Limit order amounts must be positive.';
+    }
+    return null;
+  }
+
+  if (contract.multiplier !== undefined || contract.limitOrder !== undefined) {
+    return 'Multiplier and limit orders apply to multiplier contracts only.';
+  }
+  if (!(contract.duration >= 1) || !Number.isInteger(contract.duration)) {
+    return 'Duration must be a whole number of at least 1.';
+  }
+  const durationUnit = contract.durationUnit || 't';
+  if (durationUnit === 't' && contract.duration > MAX_TICK_DURATION) {
+    return `Duration must be between 1 and ${MAX_TICK_DURATION} ticks.`;
+  }
+
+  if (category === 'digits') {
+    if (durationUnit !== 't') return 'Digit contracts are tick contracts.';
+    if (!DIGIT_PREDICTION_TYPES.includes(contract.contractType)) {
+      return contract.barrier === undefined ? null : 'Even/odd contracts do not take a prediction.';
+    }
+    const digit = Number(contract.barrier);
+    if (contract.barrier === undefined || !Number.isInteger(digit) || digit < 0 || digit > 9) {
+      return 'Digit prediction must be between 0 and 9.';
+    }
+    if ((contract.contractType === 'DIGITOVER' && digit === 9) || (contract.contractType === 'DIGITUNDER' && digit === 0)) {
+      return `Prediction ${digit} cannot win for ${contract.contractType}.`;
+    }
+    return null;
+  }
+
+  if (category === 'touch' || category === 'higher_lower') {
+    if (contract.barrier === undefined || Number.isNaN(parseFloat(contract.barrier))) {
+      return 'A price barrier is required.';
+    }
+    if (durationUnit === 't' && contract.duration < MIN_BARRIER_TICKS) {
+      return `Barrier contracts last at least ${MIN_BARRIER_TICKS} ticks.`;
+    }
+  }
+  return null;
+}
+
+// Short label for positions and history, e.g. 'RISE', 'OVER 4', 'TOUCH +1.2', 'MULT UP x100'
+export function describeContract(contract: ContractParameters): string {
+  const category = getContractCategory(contract);
+  if (category === 'higher_lower') {
+    return `${contract.contractType === 'CALL' ? 'HIGHER' : 'LOWER'} ${contract.barrier}`;
+  }
+
+  const label = CONTRACT_LABELS[contract.contractType] || contract.contractType;
+  if (category === 'multiplier') return `${label} x${contract.multiplier}`;
+  return contract.barrier !== undefined ? `${label} ${contract.barrier}` : label;
+}
+
+// e.g. '5t', '2m'; multipliers run until sold, stopped out or closed by a limit order
+export function describeDuration(contract: ContractParameters): string {
+  if (contract.duration === undefined) return 'open';
+  return `${contract.duration}${contract.durationUnit || 't'}`;
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DERIV_CONFIG } from '@/config/deriv';
+import { credentialVault } from './credential-vault';
+
+// Node has WebCrypto but no localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+});
+
+const PASSPHRASE = 'correct horse battery';
+
+describe('credentialVault', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    credentialVault.reset();
+  });
+
+  it('decrypts what it encrypted once unlocked again', async () => {
+    const contents = { accounts: [{ id: 'a', token: 'secret-token' }], activeId: 'a' };
+    await credentialVault.create(PASSPHRASE, contents);
+    credentialVault.lock();
+    expect(credentialVault.getStatus()).toBe('locked');
+    expect(credentialVault.read()).toBeNull();
+
+    // Only ciphertext is stored
+    expect([...storage.values()].join()).not.toContain('secret-token');
+
+    await credentialVault.unlock(PASSPHRASE);
+    expect(credentialVault.getStatus()).toBe('unlocked');
+    expect(credentialVault.read()).toEqual(contents);
+  });
+
+  it('stays locked under a wrong passphrase', async () => {
+    await credentialVault.create(PASSPHRASE, { accounts: [] });
+    credentialVault.lock();
+
+    await expect(credentialVault.unlock('wrong passphrase')).rejects.toThrow('Wrong passphrase');
+    expect(credentialVault.getStatus()).toBe('locked');
+    expect(credentialVault.read()).toBeNull();
+  });
+
+  it('locks itself after a period without activity', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    await credentialVault.create(PASSPHRASE, { accounts: [] });
+
+    vi.advanceTimersByTime(DERIV_CONFIG.VAULT.AUTO_LOCK_MS - 1000);
+    credentialVault.touch();
+    vi.advanceTimersByTime(DERIV_CONFIG.VAULT.AUTO_LOCK_MS - 1000);
+    expect(credentialVault.getStatus()).toBe('unlocked');
+
+    vi.advanceTimersByTime(1000);
+    expect(credentialVault.getStatus()).toBe('locked');
+    expect(credentialVault.read()).toBeNull();
+  });
+
+  it('reports a corrupted record instead of failing to parse it', async () => {
+    await credentialVault.create(PASSPHRASE, { accounts: [] });
+    credentialVault.lock();
+    const [key] = storage.keys();
+
+    storage.set(key, '{not json');
+    await expect(credentialVault.unlock(PASSPHRASE)).rejects.toThrow(/corrupted/);
+
+    storage.set(key, JSON.stringify({ version: 1, salt: '%%', iterations: 1, iv: '', ciphertext: '' }));
+    await expect(credentialVault.unlock(PASSPHRASE)).rejects.toThrow(/corrupted/);
+    expect(credentialVault.getStatus()).toBe('locked');
+  });
+});
@@ -0,0 +1,235 @@
+// Credential Vault
+// Keeps secrets (the saved accounts' API tokens) in localStorage, encrypted with AES-GCM under a key
+// derived from the user's passphrase with PBKDF2. The key lives only in memory, so the vault is
+// unlocked once per page session and locks itself again after a period of inactivity.
+
+import { DERIV_CONFIG } from '@/config/deriv';
+
+export type VaultStatus = 'unavailable' | 'empty' | 'locked' | 'unlocked';
+
+// What localStorage holds; everything but the ciphertext is needed to derive the key again
+interface VaultRecord {
+  version: 1;
+  salt: string; // base64
+  iterations: number;
+  iv: string; // base64, fresh for every write
+  ciphertext: string; // base64
+}
+
+type VaultStatusHandler = (status: VaultStatus) => void;
+
+const STORAGE_KEY = 'deriv-ascend.vault';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const MIN_PASSPHRASE_LENGTH = 8;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'];
+const CORRUPTED = 'The vault is corrupted and cannot be read. Reset it and add your accounts again.';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false, // not extractable: the key can encrypt and decrypt but never be read back out
+    ['encrypt', 'decrypt']
+  );
+}
+
+class CredentialVault {
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+  private iterations = DERIV_CONFIG.VAULT.PBKDF2_ITERATIONS;
+  private contents: unknown = null;
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private statusHandlers: VaultStatusHandler[] = [];
+
+  // False without localStorage or WebCrypto (Node, or a page served over plain http)
+  public isAvailable(): boolean {
+    return typeof localStorage !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  public getStatus(): VaultStatus {
+    if (!this.isAvailable()) return 'unavailable';
+    if (this.key) return 'unlocked';
+    return localStorage.getItem(STORAGE_KEY) ? 'locked' : 'empty';
+  }
+
+  // Start a new vault holding `contents`, protected by `passphrase`
+  public async create(passphrase: string, contents: unknown = {}): Promise<void> {
+    if (this.getStatus() !== 'empty') {
+      throw new Error('A vault already exists; unlock or reset it first');
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    this.salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    this.iterations = DERIV_CONFIG.VAULT.PBKDF2_ITERATIONS;
+    this.key = await deriveKey(passphrase, this.salt, this.iterations);
+    await this.write(contents);
+    this.startActivityTracking();
+    this.notify();
+  }
+
+  public async unlock(passphrase: string): Promise<void> {
+    const status = this.getStatus();
+    if (status === 'unlocked') return;
+    if (status !== 'locked') {
+      throw new Error('There is no vault to unlock');
+    }
+
+    // A record that cannot be decoded can never be unlocked, whatever the passphrase
+    let record: VaultRecord;
+    let salt: Uint8Array;
+    let iv: Uint8Array;
+    let ciphertext: Uint8Array;
+    try {
+      record = JSON.parse(localStorage.getItem(STORAGE_KEY) as string) as VaultRecord;
+      if (!(record.iterations > 0)) throw new Error('Bad iteration count');
+      salt = fromBase64(record.salt);
+      iv = fromBase64(record.iv);
+      ciphertext = fromBase64(record.ciphertext);
+    } catch {
+      throw new Error(CORRUPTED);
+    }
+
+    const key = await deriveKey(passphrase, salt, record.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    } catch {
+      // AES-GCM authenticates the ciphertext, so a wrong key fails here rather than yielding garbage
+      throw new Error('Wrong passphrase');
+    }
+
+    let contents: unknown;
+    try {
+      contents = JSON.parse(decoder.decode(plaintext));
+    } catch {
+      throw new Error(CORRUPTED);
+    }
+
+    this.key = key;
+    this.salt = salt;
+    this.iterations = record.iterations;
+    this.contents = contents;
+    this.startActivityTracking();
+    this.notify();
+  }
+
+  // Forget the key and the decrypted contents; the encrypted copy stays in localStorage
+  public lock() {
+    if (!this.key) return;
+
+    this.key = null;
+    this.contents = null;
+    this.stopActivityTracking();
+    this.notify();
+  }
+
+  // Delete the vault, e.g. after a forgotten passphrase. Its contents cannot be recovered.
+  public reset() {
+    if (!this.isAvailable()) return;
+
+    this.key = null;
+    this.salt = null;
+    this.contents = null;
+    this.stopActivityTracking();
+    localStorage.removeItem(STORAGE_KEY);
+    this.notify();
+  }
+
+  // Decrypted contents while unlocked, null while locked
+  public read<T>(): T | null {
+    return this.key ? (this.contents as T) : null;
+  }
+
+  // Encrypt and store new contents under the session key
+  public async write(contents: unknown): Promise<void> {
+    if (!this.key || !this.salt) {
+      throw new Error('Unlock the vault first');
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      encoder.encode(JSON.stringify(contents))
+    );
+    const record: VaultRecord = {
+      version: 1,
+      salt: toBase64(this.salt),
+      iterations: this.iterations,
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+    this.contents = contents;
+  }
+
+  // Postpone the auto-lock; user input does this automatically
+  public touch = () => {
+    if (!this.key) return;
+
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+    }
+    this.lockTimer = setTimeout(() => {
+      this.lockTimer = null;
+      this.lock();
+    }, DERIV_CONFIG.VAULT.AUTO_LOCK_MS);
+  };
+
+  public onStatusChange(handler: VaultStatusHandler) {
+    this.statusHandlers.push(handler);
+    handler(this.getStatus());
+  }
+
+  public offStatusChange(handler: VaultStatusHandler) {
+    const index = this.statusHandlers.indexOf(handler);
+    if (index > -1) {
+      this.statusHandlers.splice(index, 1);
+    }
+  }
+
+  private startActivityTracking() {
+    if (typeof window !== 'undefined') {
+      ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.touch, { passive: true }));
+    }
+    this.touch();
+  }
+
+  private stopActivityTracking() {
+    if (typeof window !== 'undefined') {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.touch));
+    }
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.statusHandlers.forEach(handler => handler(status));
+  }
+}
+
+// Singleton instance
+export const credentialVault = new CredentialVault();
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearOAuthState, getOAuthUrl, matchesOAuthState, parseOAuthRedirect } from './deriv-oauth';
+
+// Node has no sessionStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('sessionStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+});
+
+describe('parseOAuthRedirect', () => {
+  it('reads every acctN/tokenN/curN triple in order', () => {
+    const accounts = parseOAuthRedirect('?acct1=VRTC1234567&token1=a1-abc&cur1=usd&acct2=CR1234567&token2=a1-def&cur2=eur');
+    expect(accounts).toEqual([
+      { loginid: 'VRTC1234567', token: 'a1-abc', currency: 'USD' },
+      { loginid: 'CR1234567', token: 'a1-def', currency: 'EUR' },
+    ]);
+  });
+
+  it('skips a triple without a token and keeps an account without a currency', () => {
+    const accounts = parseOAuthRedirect('?acct1=VRTC1234567&cur1=usd&acct2=CR1234567&token2=a1-def');
+    expect(accounts).toEqual([{ loginid: 'CR1234567', token: 'a1-def', currency: '' }]);
+  });
+
+  it('stops at the first missing index', () => {
+    const accounts = parseOAuthRedirect('?acct1=VRTC1234567&token1=a1-abc&acct3=CR1234567&token3=a1-def');
+    expect(accounts.map(a => a.loginid)).toEqual(['VRTC1234567']);
+  });
+
+  it('returns nothing for a cancelled login', () => {
+    expect(parseOAuthRedirect('')).toEqual([]);
+    expect(parseOAuthRedirect('?token1=a1-abc&cur1=usd')).toEqual([]);
+  });
+});
+
+describe('OAuth state', () => {
+  beforeEach(() => storage.clear());
+
+  it('accepts the redirect that echoes the state sent with the login', () => {
+    const state = new URL(getOAuthUrl(), 'http://localhost').searchParams.get('state');
+    expect(state).toMatch(/^[0-9a-f]{32}$/);
+    // The login page renders more than once before it redirects
+    expect(new URL(getOAuthUrl(), 'http://localhost').searchParams.get('state')).toBe(state);
+
+    expect(matchesOAuthState(`?acct1=VRTC1234567&token1=a1-abc&state=${state}`)).toBe(true);
+  });
+
+  it('refuses a missing or different state', () => {
+    getOAuthUrl();
+    expect(matchesOAuthState('?acct1=VRTC1234567&token1=a1-abc')).toBe(false);
+    expect(matchesOAuthState('?acct1=VRTC1234567&token1=a1-abc&state=forged')).toBe(false);
+  });
+
+  it('refuses a redirect once its state has been used', () => {
+    const state = new URL(getOAuthUrl(), 'http://localhost').searchParams.get('state');
+    clearOAuthState();
+    expect(matchesOAuthState(`?state=${state}`)).toBe(false);
+  });
+});
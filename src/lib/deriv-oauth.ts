@@ -0,0 +1,50 @@
+// Deriv OAuth
+// Login through Deriv's OAuth page instead of pasting API tokens. Deriv redirects back to the URL
+// registered for APP_ID with one acctN/tokenN/curN triple per account the user holds.
+
+import { DERIV_CONFIG } from '@/config/deriv';
+
+export interface OAuthAccount {
+  loginid: string;
+  token: string;
+  currency: string;
+}
+
+// The state sent with a login, kept in this tab until its redirect comes back
+const STATE_KEY = 'deriv-ascend.oauth-state';
+
+// Where the login route sends the browser. Repeated calls before the redirect reuse the same state.
+export function getOAuthUrl(): string {
+  let state = sessionStorage.getItem(STATE_KEY);
+  if (!state) {
+    state = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+    sessionStorage.setItem(STATE_KEY, state);
+  }
+  const params = new URLSearchParams({ app_id: String(DERIV_CONFIG.APP_ID), l: 'EN', state });
+  return `${DERIV_CONFIG.OAUTH_URL}?${params}`;
+}
+
+// Whether the redirect answers the login this tab started, so forged or replayed callbacks are refused
+export function matchesOAuthState(search: string): boolean {
+  const expected = sessionStorage.getItem(STATE_KEY);
+  return expected !== null && new URLSearchParams(search).get('state') === expected;
+}
+
+// A state is good for one redirect
+export function clearOAuthState() {
+  sessionStorage.removeItem(STATE_KEY);
+}
+
+// Accounts from the redirect's query string, in Deriv's order (acct1 is the account the user was on).
+// Numbering stops at the first gap; triples without a token are skipped.
+export function parseOAuthRedirect(search: string): OAuthAccount[] {
+  const params = new URLSearchParams(search);
+  const accounts: OAuthAccount[] = [];
+  for (let i = 1; params.has(`acct${i}`); i++) {
+    const loginid = params.get(`acct${i}`)?.trim();
+    const token = params.get(`token${i}`)?.trim();
+    if (!loginid || !token) continue;
+    accounts.push({ loginid, token, currency: (params.get(`cur${i}`) || '').toUpperCase() });
+  }
+  return accounts;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DerivValidationError, parseDerivMessage } from './deriv-schema';
+
+const tick = { symbol: 'R_100', quote: 1234.56, epoch: 1_700_000_000, id: 'abc' };
+
+describe('parseDerivMessage', () => {
+  it('accepts a frame that matches its schema', () => {
+    const result = parseDerivMessage({ msg_type: 'tick', tick, subscription: { id: 'abc' } });
+    expect('message' in result && result.message.tick).toMatchObject(tick);
+  });
+
+  it('rejects a frame without a msg_type', () => {
+    const result = parseDerivMessage({ tick });
+    expect('error' in result && result.error).toBeInstanceOf(DerivValidationError);
+    expect('error' in result && result.error.msgType).toBe('unknown');
+  });
+
+  it('rejects a payload field of the wrong type and keeps the req_id for the pending request', () => {
+    const result = parseDerivMessage({ msg_type: 'tick', req_id: 4, tick: { ...tick, quote: '1234.56' } });
+    if (!('error' in result)) throw new Error('Expected a validation error');
+    expect(result.error.msgType).toBe('tick');
+    expect(result.error.reqId).toBe(4);
+    expect(result.error.issues[0].path).toEqual(['tick', 'quote']);
+    expect(result.error.message).toContain('tick.quote');
+  });
+
+  it('rejects a payload with a required field missing', () => {
+    const result = parseDerivMessage({ msg_type: 'sell', sell: { sold_for: 9.5, balance_after: 10_000, transaction_id: 2 } });
+    expect('error' in result && result.error.issues.map(issue => issue.path.join('.'))).toEqual(['sell.contract_id']);
+  });
+
+  it('rejects a payload that is absent on a successful reply', () => {
+    expect('error' in parseDerivMessage({ msg_type: 'balance', req_id: 1 })).toBe(true);
+  });
+
+  it('passes error frames and unknown msg_types on the envelope alone', () => {
+    const error = parseDerivMessage({ msg_type: 'buy', req_id: 2, error: { code: 'InsufficientBalance', message: 'No funds' } });
+    expect('message' in error && error.message.error?.code).toBe('InsufficientBalance');
+    expect('message' in parseDerivMessage({ msg_type: 'website_status', website_status: {} })).toBe(true);
+  });
+
+  it('rejects an error frame whose error is malformed', () => {
+    expect('error' in parseDerivMessage({ msg_type: 'buy', error: { message: 'No code' } })).toBe(true);
+  });
+});
@@ -0,0 +1,386 @@
+// Deriv API v3 Message Schema
+// Typed catalog of the calls the app uses, with runtime validation of incoming frames
+
+import { z } from 'zod';
+
+// ==================== Requests ====================
+
+interface BaseRequest {
+  req_id?: number;
+  passthrough?: Record<string, unknown>;
+}
+
+export interface AuthorizeRequest extends BaseRequest {
+  authorize: string;
+}
+
+export interface TicksRequest extends BaseRequest {
+  ticks: string;
+  subscribe?: 1;
+}
+
+export interface TicksHistoryRequest extends BaseRequest {
+  ticks_history: string;
+  end: 'latest' | number;
+  start?: number;
+  count?: number;
+  style?: 'ticks' | 'candles';
+  granularity?: number; // candle size in seconds
+  adjust_start_time?: 1;
+}
+
+export interface ForgetRequest extends BaseRequest {
+  forget: string;
+}
+
+export interface ForgetAllRequest extends BaseRequest {
+  forget_all: string | string[];
+}
+
+// Contract terms, shared by proposal and buy
+export interface ContractRequestParameters {
+  contract_type: string;
+  symbol: string;
+  duration?: number; // omitted for multipliers
+  duration_unit?: 't' | 's' | 'm' | 'h' | 'd';
+  basis: 'stake' | 'payout';
+  amount: number;
+  currency: string;
+  barrier?: string;
+  multiplier?: number;
+  limit_order?: { take_profit?: number; stop_loss?: number };
+}
+
+export interface ProposalRequest extends BaseRequest, ContractRequestParameters {
+  proposal: 1;
+  subscribe?: 1;
+}
+
+export interface BuyRequest extends BaseRequest {
+  buy: 1 | string; // 1 with parameters, or a proposal id
+  price: number;
+  parameters?: ContractRequestParameters;
+}
+
+export interface SellRequest extends BaseRequest {
+  sell: string | number;
+  price: number;
+}
+
+export interface ProposalOpenContractRequest extends BaseRequest {
+  proposal_open_contract: 1;
+  contract_id?: string | number;
+  subscribe?: 1;
+}
+
+export interface BalanceRequest extends BaseRequest {
+  balance: 1;
+  subscribe?: 1;
+}
+
+export interface PortfolioRequest extends BaseRequest {
+  portfolio: 1;
+}
+
+export interface ActiveSymbolsRequest extends BaseRequest {
+  active_symbols: 'brief' | 'full';
+  product_type?: 'basic';
+}
+
+export interface ContractsForRequest extends BaseRequest {
+  contracts_for: string;
+  currency?: string;
+  product_type?: 'basic';
+}
+
+export interface PingRequest extends BaseRequest {
+  ping: 1;
+}
+
+export interface GetSettingsRequest extends BaseRequest {
+  get_settings: 1;
+}
+
+export type DerivRequest =
+  | AuthorizeRequest
+  | TicksRequest
+  | TicksHistoryRequest
+  | ForgetRequest
+  | ForgetAllRequest
+  | ProposalRequest
+  | BuyRequest
+  | SellRequest
+  | ProposalOpenContractRequest
+  | BalanceRequest
+  | PortfolioRequest
+  | ActiveSymbolsRequest
+  | ContractsForRequest
+  | PingRequest
+  | GetSettingsRequest;
+
+// ==================== Responses ====================
+
+const flag = z.union([z.literal(0), z.literal(1)]);
+
+export const derivErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+const envelopeSchema = z.object({
+  msg_type: z.string(),
+  req_id: z.number().optional(),
+  echo_req: z.record(z.unknown()).optional(),
+  subscription: z.object({ id: z.string() }).optional(),
+  error: derivErrorSchema.optional(),
+}).passthrough();
+
+const authorizeSchema = z.object({
+  loginid: z.string(),
+  currency: z.string(),
+  balance: z.number(),
+  is_virtual: flag,
+  email: z.string().optional(),
+  fullname: z.string().optional(),
+  landing_company_name: z.string().optional(),
+  account_list: z.array(z.object({
+    loginid: z.string(),
+    currency: z.string().optional(),
+    is_virtual: flag,
+    is_disabled: flag.optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const tickSchema = z.object({
+  symbol: z.string(),
+  quote: z.number(),
+  epoch: z.number(),
+  id: z.string().optional(),
+  pip_size: z.number().optional(),
+  ask: z.number().optional(),
+  bid: z.number().optional(),
+}).passthrough();
+
+// ticks_history with style 'ticks' answers with msg_type 'history'
+const historySchema = z.object({
+  prices: z.array(z.number()),
+  times: z.array(z.number()),
+}).passthrough();
+
+// ticks_history with style 'candles' answers with msg_type 'candles'
+const candleSchema = z.object({
+  epoch: z.number(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+}).passthrough();
+
+const proposalSchema = z.object({
+  id: z.string(),
+  ask_price: z.number(),
+  payout: z.number(),
+  spot: z.number(),
+  spot_time: z.number(),
+  date_start: z.number().optional(),
+  longcode: z.string().optional(),
+  display_value: z.string().optional(),
+}).passthrough();
+
+const buySchema = z.object({
+  contract_id: z.number(),
+  buy_price: z.number(),
+  balance_after: z.number(),
+  payout: z.number(),
+  purchase_time: z.number(),
+  start_time: z.number(),
+  transaction_id: z.number(),
+  longcode: z.string(),
+  shortcode: z.string().optional(),
+}).passthrough();
+
+const sellSchema = z.object({
+  contract_id: z.number(),
+  sold_for: z.number(),
+  balance_after: z.number(),
+  transaction_id: z.number(),
+  reference_id: z.number().optional(),
+}).passthrough();
+
+// Every field is optional: Deriv sends an empty object once a stream is forgotten
+const proposalOpenContractSchema = z.object({
+  contract_id: z.number().optional(),
+  underlying: z.string().optional(),
+  contract_type: z.string().optional(),
+  currency: z.string().optional(),
+  buy_price: z.number().optional(),
+  bid_price: z.number().optional(),
+  payout: z.number().optional(),
+  profit: z.number().optional(),
+  profit_percentage: z.number().optional(),
+  is_sold: flag.optional(),
+  is_expired: flag.optional(),
+  is_settleable: flag.optional(),
+  is_valid_to_sell: flag.optional(),
+  status: z.enum(['open', 'sold', 'won', 'lost', 'cancelled']).nullable().optional(),
+  sell_price: z.number().optional(),
+  sell_time: z.number().optional(),
+  entry_spot: z.number().nullable().optional(),
+  current_spot: z.number().optional(),
+  exit_tick: z.number().optional(),
+  date_start: z.number().optional(),
+  date_expiry: z.number().optional(),
+  tick_count: z.number().optional(),
+  barrier: z.string().nullable().optional(),
+  multiplier: z.number().optional(),
+}).passthrough();
+
+const balanceSchema = z.object({
+  balance: z.number(),
+  currency: z.string(),
+  loginid: z.string(),
+  id: z.string().optional(),
+}).passthrough();
+
+const portfolioSchema = z.object({
+  contracts: z.array(z.object({
+    contract_id: z.number(),
+    symbol: z.string(),
+    contract_type: z.string(),
+    buy_price: z.number(),
+    payout: z.number(),
+    purchase_time: z.number(),
+    expiry_time: z.number(),
+    date_start: z.number().optional(),
+    currency: z.string().optional(),
+    longcode: z.string().optional(),
+    transaction_id: z.number().optional(),
+  }).passthrough()),
+}).passthrough();
+
+const activeSymbolSchema = z.object({
+  symbol: z.string(),
+  display_name: z.string(),
+  market: z.string(),
+  market_display_name: z.string().optional(),
+  submarket: z.string(),
+  submarket_display_name: z.string().optional(),
+  pip: z.number(), // smallest price increment, e.g. 0.001
+  exchange_is_open: flag,
+  is_trading_suspended: flag,
+  symbol_type: z.string().optional(),
+}).passthrough();
+
+const contractsForSchema = z.object({
+  available: z.array(z.object({
+    contract_type: z.string(),
+    contract_category: z.string(),
+    contract_category_display: z.string().optional(),
+    contract_display: z.string().optional(),
+    expiry_type: z.string(),
+    min_contract_duration: z.string(), // e.g. '1t', '15s', '1d'; empty for multipliers
+    max_contract_duration: z.string(),
+    barriers: z.number().optional(),
+    sentiment: z.string().optional(),
+    start_type: z.string().optional(),
+    last_digit_range: z.array(z.number()).optional(),
+    multiplier_range: z.array(z.number()).optional(),
+  }).passthrough()),
+  hit_count: z.number().optional(),
+  spot: z.number().nullable().optional(),
+}).passthrough();
+
+const payloadSchemas = {
+  authorize: authorizeSchema,
+  tick: tickSchema,
+  history: historySchema,
+  candles: z.array(candleSchema),
+  proposal: proposalSchema,
+  buy: buySchema,
+  sell: sellSchema,
+  proposal_open_contract: proposalOpenContractSchema,
+  balance: balanceSchema,
+  portfolio: portfolioSchema,
+  active_symbols: z.array(activeSymbolSchema),
+  contracts_for: contractsForSchema,
+  ping: z.literal('pong'),
+  get_settings: z.record(z.unknown()),
+  forget: flag,
+  forget_all: z.array(z.string()),
+};
+
+export type DerivError = z.infer<typeof derivErrorSchema>;
+export type DerivEnvelope = z.infer<typeof envelopeSchema>;
+export type DerivMsgType = keyof typeof payloadSchemas;
+export type DerivPayloadMap = { [K in DerivMsgType]: z.infer<(typeof payloadSchemas)[K]> };
+
+// A frame as delivered to handlers: the payload is absent when the frame carries an error
+export type DerivMessage<K extends DerivMsgType = DerivMsgType> = DerivEnvelope & { msg_type: K } & {
+  [P in K]?: DerivPayloadMap[P];
+};
+
+// A successful response, as resolved by DerivWebSocket.request
+export type DerivResponse<K extends DerivMsgType> = DerivEnvelope & { msg_type: K } & {
+  [P in K]: DerivPayloadMap[P];
+};
+
+export type AuthorizePayload = DerivPayloadMap['authorize'];
+export type TickPayload = DerivPayloadMap['tick'];
+export type CandlePayload = DerivPayloadMap['candles'][number];
+export type ProposalPayload = DerivPayloadMap['proposal'];
+export type ProposalOpenContractPayload = DerivPayloadMap['proposal_open_contract'];
+export type PortfolioPayload = DerivPayloadMap['portfolio'];
+export type ActiveSymbolPayload = DerivPayloadMap['active_symbols'][number];
+export type ContractsForPayload = DerivPayloadMap['contracts_for'];
+
+// Raised when an incoming frame does not match the schema for its msg_type
+export class DerivValidationError extends Error {
+  public readonly msgType: string;
+  public readonly reqId?: number;
+  public readonly issues: z.ZodIssue[];
+  public readonly frame: unknown;
+
+  constructor(msgType: string, issues: z.ZodIssue[], frame: unknown, reqId?: number) {
+    const summary = issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid ${msgType} frame - ${summary}`);
+    this.name = 'DerivValidationError';
+    this.msgType = msgType;
+    this.reqId = reqId;
+    this.issues = issues;
+    this.frame = frame;
+  }
+}
+
+export type DerivParseResult =
+  | { message: DerivMessage }
+  | { error: DerivValidationError };
+
+function isKnownMsgType(msgType: string): msgType is DerivMsgType {
+  return Object.prototype.hasOwnProperty.call(payloadSchemas, msgType);
+}
+
+// Validate a decoded frame against the envelope and the payload schema for its msg_type.
+// Error frames and msg_types outside the catalog are validated by envelope only.
+export function parseDerivMessage(frame: unknown): DerivParseResult {
+  const envelope = envelopeSchema.safeParse(frame);
+  if (!envelope.success) {
+    return { error: new DerivValidationError('unknown', envelope.error.issues, frame) };
+  }
+
+  const { msg_type: msgType, req_id: reqId } = envelope.data;
+  if (envelope.data.error || !isKnownMsgType(msgType)) {
+    return { message: envelope.data as DerivMessage };
+  }
+
+  const payload = payloadSchemas[msgType].safeParse(envelope.data[msgType]);
+  if (!payload.success) {
+    const issues = payload.error.issues.map(issue => ({ ...issue, path: [msgType, ...issue.path] }));
+    return { error: new DerivValidationError(msgType, issues, frame, reqId) };
+  }
+
+  return { message: { ...envelope.data, [msgType]: payload.data } as DerivMessage };
+}
@@ -0,0 +1,217 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DERIV_CONFIG } from '@/config/deriv';
+import { ConnectionHealth, DerivAPIError, derivWS, TickUpdate } from './deriv-websocket';
+import { mockDerivServer } from './mock-deriv-server';
+import { waitFor, withMockSession } from './test-session';
+
+withMockSession();
+
+describe('request correlation', () => {
+  it('resolves each request with its own reply when replies arrive out of order', async () => {
+    mockDerivServer.injectFault({ type: 'delay', ms: 200, msgType: 'balance', count: 1 });
+    const order: string[] = [];
+    const balance = derivWS.request<'balance'>({ balance: 1 }).then(reply => {
+      order.push('balance');
+      return reply;
+    });
+    const ping = derivWS.request<'ping'>({ ping: 1 }).then(reply => {
+      order.push('ping');
+      return reply;
+    });
+
+    const [balanceReply, pingReply] = await Promise.all([balance, ping]);
+    expect(order).toEqual(['ping', 'balance']);
+    expect(balanceReply.msg_type).toBe('balance');
+    expect(pingReply.ping).toBe('pong');
+    expect(balanceReply.req_id).not.toBe(pingReply.req_id);
+  });
+
+  it('rejects only the request that failed', async () => {
+    mockDerivServer.injectFault({ type: 'rateLimit', msgType: 'balance', count: 1 });
+    const [balance, ping] = await Promise.allSettled([
+      derivWS.request<'balance'>({ balance: 1 }),
+      derivWS.request<'ping'>({ ping: 1 }),
+    ]);
+
+    expect(balance.status).toBe('rejected');
+    const error = (balance as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(DerivAPIError);
+    expect(error.code).toBe('RateLimit');
+    expect(error.msgType).toBe('balance');
+    expect(ping.status).toBe('fulfilled');
+  });
+
+  it('times out a request that gets no reply and ignores the late one', async () => {
+    mockDerivServer.injectFault({ type: 'delay', ms: 300, msgType: 'ping', count: 1 });
+    const error = await derivWS.request<'ping'>({ ping: 1 }, 100).catch(e => e);
+    expect(error).toBeInstanceOf(DerivAPIError);
+    expect(error.code).toBe('Timeout');
+
+    // The late reply finds nothing pending, and the connection keeps working
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await expect(derivWS.request<'ping'>({ ping: 1 })).resolves.toMatchObject({ msg_type: 'ping' });
+  });
+});
+
+describe('tick stream reference counting', () => {
+  // The frames the client has sent since the spy was installed
+  function recordSent() {
+    const receive = vi.spyOn(mockDerivServer, 'receive');
+    return {
+      sent: () => receive.mock.calls.map(([, raw]) => JSON.parse(raw) as Record<string, unknown>),
+      restore: () => receive.mockRestore(),
+    };
+  }
+
+  function collectTicks(symbol: string) {
+    const ticks: TickUpdate[] = [];
+    const handler = (tick: TickUpdate) => ticks.push(tick);
+    derivWS.onTick(symbol, handler);
+    return { ticks, stop: () => derivWS.offTick(symbol, handler) };
+  }
+
+  const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('shares one subscription between consumers and forgets it by id after the last', async () => {
+    const frames = recordSent();
+    const stream = collectTicks('1HZ100V');
+
+    derivWS.subscribeTicks('1HZ100V');
+    derivWS.subscribeTicks('1HZ100V');
+    await waitFor(() => stream.ticks.length >= 1);
+    expect(frames.sent().filter(frame => frame.ticks === '1HZ100V')).toHaveLength(1);
+    expect(derivWS.getTickConsumers('1HZ100V')).toBe(2);
+
+    // The first consumer leaving keeps the stream alive
+    derivWS.unsubscribeTicks('1HZ100V');
+    const before = stream.ticks.length;
+    await waitFor(() => stream.ticks.length > before);
+    expect(frames.sent().some(frame => 'forget' in frame)).toBe(false);
+
+    derivWS.unsubscribeTicks('1HZ100V');
+    const forgets = frames.sent().filter(frame => 'forget' in frame || 'forget_all' in frame);
+    expect(forgets).toEqual([expect.objectContaining({ forget: expect.any(String) })]);
+    expect(derivWS.getTickConsumers('1HZ100V')).toBe(0);
+
+    const after = stream.ticks.length;
+    await pause(1500);
+    expect(stream.ticks.length).toBe(after);
+    stream.stop();
+    frames.restore();
+  });
+
+  it('forgets a stream left before its first tick once the id is known', async () => {
+    const frames = recordSent();
+    const stream = collectTicks('1HZ100V');
+
+    derivWS.subscribeTicks('1HZ100V');
+    derivWS.unsubscribeTicks('1HZ100V');
+    expect(frames.sent().some(frame => 'forget' in frame)).toBe(false);
+
+    await waitFor(() => frames.sent().some(frame => 'forget' in frame));
+    await pause(1500);
+    expect(stream.ticks).toHaveLength(1);
+    stream.stop();
+    frames.restore();
+  });
+
+  it('keeps other symbols streaming when one is forgotten', async () => {
+    const jump = collectTicks('JD10');
+    const volatility = collectTicks('1HZ100V');
+    derivWS.subscribeTicks('JD10');
+    derivWS.subscribeTicks('1HZ100V');
+    await waitFor(() => jump.ticks.length >= 1 && volatility.ticks.length >= 1);
+
+    derivWS.unsubscribeTicks('1HZ100V');
+    const before = jump.ticks.length;
+    await waitFor(() => jump.ticks.length >= before + 2);
+    expect(derivWS.getTickConsumers('JD10')).toBe(1);
+
+    derivWS.unsubscribeTicks('JD10');
+    jump.stop();
+    volatility.stop();
+  });
+});
+
+describe('connection supervision', () => {
+  const { RECONNECT_MAX_MS, TICK_SILENCE_MS, PING_INTERVAL_MS, PONG_TIMEOUT_MS } = DERIV_CONFIG.CONNECTION;
+  const SYMBOL = '1HZ100V';
+  // A client and server of their own on fake timers, so minutes of silence and backoff pass at once
+  let client: typeof derivWS;
+  let server: typeof mockDerivServer;
+
+  async function advanceUntil(done: () => boolean, limitMs: number) {
+    for (let elapsed = 0; !done(); elapsed += 100) {
+      if (elapsed > limitMs) throw new Error('Timed out waiting');
+      await vi.advanceTimersByTimeAsync(100);
+    }
+  }
+
+  beforeAll(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    vi.resetModules();
+    ({ mockDerivServer: server } = await import('./mock-deriv-server'));
+    ({ derivWS: client } = await import('./deriv-websocket'));
+    server.reseed(1);
+    client.setApiToken('demo-token');
+    await advanceUntil(() => client.getStatus() === 'authorized', 5000);
+  });
+
+  afterAll(() => {
+    client.disconnect();
+    vi.useRealTimers();
+  });
+
+  it('reconnects when a subscribed symbol stops ticking', async () => {
+    let ticks = 0;
+    client.onTick(SYMBOL, () => ticks++);
+    client.subscribeTicks(SYMBOL);
+    await advanceUntil(() => ticks > 0, 5000);
+
+    const { totalReconnects } = client.getHealth();
+    server.injectFault({ type: 'stall' });
+    await advanceUntil(() => client.getHealth().totalReconnects > totalReconnects, TICK_SILENCE_MS + 10_000);
+    expect(client.getHealth().lastError).toMatch(`No ticks from ${SYMBOL}`);
+
+    // The stream is restored on the new connection
+    await advanceUntil(() => client.getStatus() === 'authorized', 5000);
+    const before = ticks;
+    await advanceUntil(() => ticks > before, 5000);
+    client.unsubscribeTicks(SYMBOL);
+  });
+
+  it('reconnects when a ping goes unanswered', async () => {
+    const { totalReconnects } = client.getHealth();
+    server.injectFault({ type: 'stall' });
+    await advanceUntil(() => client.getHealth().totalReconnects > totalReconnects, PING_INTERVAL_MS + PONG_TIMEOUT_MS + 5000);
+    expect(client.getHealth().lastError).toMatch('No pong');
+    await advanceUntil(() => client.getStatus() === 'authorized', 5000);
+  });
+
+  it('backs off exponentially up to the cap and starts over once authorized', async () => {
+    // Jitter picks a delay between half and all of the ceiling; pin it to the ceiling
+    const random = vi.spyOn(Math, 'random').mockReturnValue(1);
+    let dropping = true;
+    const dropOnConnect = (status: string) => {
+      if (dropping && status === 'connected') server.injectFault({ type: 'drop' });
+    };
+    // Delay per attempt, the first one announced for each
+    const delays: number[] = [];
+    const recordDelay = (health: ConnectionHealth) => {
+      if (health.nextRetryMs !== null && delays.length < health.reconnectAttempts) delays.push(health.nextRetryMs);
+    };
+    client.onStatusChange(dropOnConnect);
+    client.onHealthChange(recordDelay);
+
+    server.dropConnections();
+    await advanceUntil(() => delays.length >= 7, 120_000);
+    dropping = false;
+    await advanceUntil(() => client.getStatus() === 'authorized', RECONNECT_MAX_MS + 5000);
+
+    client.offStatusChange(dropOnConnect);
+    client.offHealthChange(recordDelay);
+    random.mockRestore();
+    expect(delays.slice(0, 7)).toEqual([1000, 2000, 4000, 8000, 16000, RECONNECT_MAX_MS, RECONNECT_MAX_MS]);
+    expect(client.getHealth().reconnectAttempts).toBe(0);
+  });
+});
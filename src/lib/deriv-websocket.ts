@@ -1,4 +1,16 @@
 import { DERIV_CONFIG, SymbolValue } from '@/config/deriv';
+import {
+  parseDerivMessage,
+  DerivValidationError,
+  DerivRequest,
+  DerivMessage,
+  DerivMsgType,
+  DerivResponse,
+  ContractRequestParameters,
+  ContractsForPayload,
+  ProposalOpenContractPayload,
+  ProposalPayload,
+} from './deriv-schema';
 
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'authorized' | 'error';
 
@@ -6,6 +18,16 @@ export interface TickUpdate {
   symbol: string;
   quote: number;
   epoch: number;
+  pipSize?: number; // decimal places, when the server reports them
+}
+
+export interface Candle {
+  symbol: string;
+  epoch: number; // candle open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
 }
 
 export interface TradeResult {
@@ -14,11 +36,16 @@ export interface TradeResult {
   buyPrice?: number;
   error?: string;
   profit?: number;
+  sellPrice?: number;
 }
 
 export interface ContractUpdate {
   contractId: string;
   symbol: string;
+  contractType?: string;
+  entrySpot?: number;
+  currentSpot?: number;
+  barrier?: string;
   buyPrice: number;
   bidPrice: number;
   profit: number;
@@ -26,40 +53,221 @@ export interface ContractUpdate {
   isSold: boolean;
   isExpired: boolean;
   isSettled: boolean;
+  // The broker's word on whether a sell would be accepted right now; false before the contract
+  // starts, for digit contracts and while a market is closed
+  isValidToSell: boolean;
   sellPrice?: number;
   sellTime?: number;
   status: 'open' | 'sold' | 'expired' | 'won' | 'lost';
+  // Contract terms, for rebuilding a position this client did not open
+  dateStart?: number;
+  dateExpiry?: number;
+  tickCount?: number;
+  multiplier?: number;
+}
+
+// A priced quote for a contract, from the proposal call
+export interface Proposal {
+  id: string; // changes with every streamed update
+  symbol: string;
+  contractType: ContractType;
+  askPrice: number;
+  payout: number;
+  spot: number;
+  spotTime: number;
+  longcode?: string;
 }
 
 export interface AccountInfo {
   currency: string;
+  balance: number; // kept current by the balance stream
+  loginid: string;
+  isVirtual: boolean;
+}
+
+export interface BalanceInfo {
   balance: number;
+  currency: string;
   loginid: string;
 }
 
-export type MessageHandler = (data: any) => void;
+// Reconnection state, for display
+export interface ConnectionHealth {
+  reconnectAttempts: number; // failed attempts since the last good connection
+  totalReconnects: number; // successful reconnections this session
+  nextRetryMs: number | null; // delay before the pending attempt, if one is scheduled
+  lastError: string | null;
+  lastErrorAt: number | null;
+  connectedSince: number | null;
+}
+
+export interface PortfolioContract {
+  contractId: string;
+  symbol: string;
+  contractType: string;
+  buyPrice: number;
+  payout: number;
+  purchaseTime: number;
+  expiryTime: number;
+}
+
+// An underlying from active_symbols
+export interface ActiveSymbol {
+  symbol: string;
+  displayName: string;
+  market: string;
+  marketDisplayName: string;
+  submarket: string;
+  submarketDisplayName: string;
+  pipSize: number; // decimal places
+  isOpen: boolean; // market open and trading not suspended
+}
+
+// One contract type a symbol offers, from contracts_for
+export interface ContractOffering {
+  contractType: string; // may be a type this app does not trade, e.g. 'ACCU'
+  category: string; // Deriv's contract_category, e.g. 'callput', 'digits', 'touchnotouch', 'multiplier'
+  categoryDisplay: string;
+  expiryType: string; // 'tick', 'intraday', 'daily' or 'no_expiry'
+  minDuration: string; // e.g. '1t', '15s', '1d'; empty when there is no expiry
+  maxDuration: string;
+  barriers: number;
+  multipliers?: number[];
+}
+
+// Error returned by the Deriv API (or raised locally) for a correlated request
+export class DerivAPIError extends Error {
+  public readonly code: string;
+  public readonly msgType?: string;
+
+  constructor(message: string, code: string, msgType?: string) {
+    super(message);
+    this.name = 'DerivAPIError';
+    this.code = code;
+    this.msgType = msgType;
+  }
+}
+
+interface PendingRequest {
+  msgType: string;
+  resolve: (data: unknown) => void;
+  reject: (error: DerivAPIError | DerivValidationError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Minimal socket surface used by DerivWebSocket (browser WebSocket or the in-process mock)
+export interface DerivSocket {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type MessageHandler<K extends DerivMsgType = DerivMsgType> = (data: DerivMessage<K>) => void;
+export type ValidationErrorHandler = (error: DerivValidationError) => void;
+
+export type ContractType =
+  | 'CALL' | 'PUT' // rise/fall, or higher/lower when a barrier is set
+  | 'DIGITEVEN' | 'DIGITODD'
+  | 'DIGITOVER' | 'DIGITUNDER'
+  | 'DIGITMATCH' | 'DIGITDIFF'
+  | 'ONETOUCH' | 'NOTOUCH'
+  | 'MULTUP' | 'MULTDOWN';
+export type DurationUnit = 't' | 's' | 'm' | 'h' | 'd';
+
+export interface LimitOrder {
+  takeProfit?: number; // account currency
+  stopLoss?: number;
+}
+
+// What to buy: see contract-types.ts for the rules per contract type
+export interface ContractParameters {
+  contractType: ContractType;
+  duration?: number; // not used by multipliers
+  durationUnit?: DurationUnit;
+  barrier?: string; // digit prediction ('0'-'9'), or a price barrier: absolute ('1502.5') or relative to entry ('+0.8')
+  multiplier?: number; // MULTUP/MULTDOWN only
+  limitOrder?: LimitOrder; // MULTUP/MULTDOWN only
+}
+
+// Execution surface shared by the live connection and the paper broker
+export interface ContractBroker {
+  subscribeProposal(
+    symbol: SymbolValue,
+    contract: ContractParameters,
+    amount: number,
+    handler: ProposalHandler
+  ): Promise<string>;
+  unsubscribeProposal(streamId: string): void;
+  buyContract(symbol: SymbolValue, contract: ContractParameters, amount: number): Promise<TradeResult>;
+  sellContract(contractId: string, price?: number): Promise<TradeResult>;
+  subscribeOpenContract(contractId: string, handler: ContractHandler): void;
+  unsubscribeOpenContract(contractId: string): void;
+  getAccountCurrency(): string;
+}
 export type TickHandler = (tick: TickUpdate) => void;
 export type StatusHandler = (status: ConnectionStatus) => void;
 export type ContractHandler = (update: ContractUpdate) => void;
+export type ProposalHandler = (proposal: Proposal) => void;
+export type HealthHandler = (health: ConnectionHealth) => void;
+export type AccountHandler = (account: AccountInfo) => void;
+
+interface ProposalStream {
+  symbol: string;
+  contractType: ContractType;
+  handler: ProposalHandler;
+}
+
+// WebSocket.OPEN, without relying on a global WebSocket (absent in Node test runners)
+const SOCKET_OPEN = 1;
 
-class DerivWebSocket {
-  private ws: WebSocket | null = null;
+// One tick stream per symbol, shared by every consumer (engine, scanners)
+interface TickStream {
+  consumers: number; // 0 while waiting for the subscription id needed to forget it
+  subscriptionId: string | null; // known once the first tick arrives
+}
+
+class DerivWebSocket implements ContractBroker {
+  private ws: DerivSocket | null = null;
+  private wsUrl: string = DERIV_CONFIG.WS_URL;
   private messageHandlers: Map<string, MessageHandler[]> = new Map();
   private tickHandlers: Map<string, TickHandler[]> = new Map();
   private contractHandlers: Map<string, ContractHandler[]> = new Map();
   private statusHandlers: StatusHandler[] = [];
+  private accountHandlers: AccountHandler[] = [];
+  private validationErrorHandlers: ValidationErrorHandler[] = [];
   private status: ConnectionStatus = 'disconnected';
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-  private pingInterval: NodeJS.Timeout | null = null;
-  private subscriptions: Set<string> = new Set();
+  private healthHandlers: HealthHandler[] = [];
+  private health: ConnectionHealth = {
+    reconnectAttempts: 0,
+    totalReconnects: 0,
+    nextRetryMs: null,
+    lastError: null,
+    lastErrorAt: null,
+    connectedSince: null,
+  };
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private watchdogInterval: ReturnType<typeof setInterval> | null = null;
+  private hasConnected = false;
+  private connectAttempt = 0; // bumped by connect and disconnect, so a stale mock load is dropped
+  private lastTickAt: Map<string, number> = new Map(); // symbol -> ms, for symbols that have ticked on this connection
+  private tickStreams: Map<string, TickStream> = new Map(); // symbol -> stream
   private contractSubscriptions: Map<string, string> = new Map(); // contractId -> subscriptionId
+  private proposalStreams: Map<string, ProposalStream> = new Map(); // subscriptionId -> stream
+  
+  // Request/response correlation by req_id
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private nextReqId = 1;
+  private readonly REQUEST_TIMEOUT_MS = 10000;
   
   // Dynamic currency from account
   private accountCurrency: string = 'USD';
   private accountInfo: AccountInfo | null = null;
-  private currentApiToken: string = DERIV_CONFIG.API_TOKEN;
+  private currentApiToken = ''; // set from the credential vault once it is unlocked
 
   constructor() {
     this.connect();
@@ -67,9 +275,10 @@ class DerivWebSocket {
 
   public setApiToken(token: string) {
     this.currentApiToken = token;
+    // The account is unknown again until the new token authorizes
+    this.accountInfo = null;
     console.log('[WS] API token updated, reconnecting...');
     this.disconnect();
-    this.reconnectAttempts = 0;
     this.connect();
   }
 
@@ -77,44 +286,140 @@ class DerivWebSocket {
     return this.currentApiToken;
   }
 
+  // Point the client at another endpoint (e.g. mock://local for the in-process mock server)
+  public setWsUrl(url: string) {
+    this.wsUrl = url;
+    console.log(`[WS] Endpoint set to ${url}, reconnecting...`);
+    this.disconnect();
+    this.connect();
+  }
+
+  public getWsUrl(): string {
+    return this.wsUrl;
+  }
+
   private connect() {
-    if (this.ws?.readyState === WebSocket.OPEN) return;
+    if (this.ws?.readyState === SOCKET_OPEN) return;
     
+    this.clearReconnectTimer();
     this.setStatus('connecting');
+    const attempt = ++this.connectAttempt;
     
-    const url = `${DERIV_CONFIG.WS_URL}?app_id=${DERIV_CONFIG.APP_ID}`;
-    this.ws = new WebSocket(url);
+    if (this.wsUrl.startsWith('mock://')) {
+      // The mock server is only loaded when asked for, so it stays out of the main bundle
+      import('./mock-deriv-server')
+        .then(({ MockDerivSocket }) => {
+          if (attempt !== this.connectAttempt) return;
+          this.attach(new MockDerivSocket());
+        })
+        .catch(error => {
+          if (attempt !== this.connectAttempt) return;
+          console.error('[WS] Could not load the mock server:', error);
+          this.recordError('Could not load the mock server');
+          this.setStatus('error');
+          this.scheduleReconnect();
+        });
+      return;
+    }
+    this.attach(new WebSocket(`${this.wsUrl}?app_id=${DERIV_CONFIG.APP_ID}`));
+  }
+
+  private attach(ws: DerivSocket) {
+    this.ws = ws;
 
-    this.ws.onopen = () => {
+    ws.onopen = () => {
       console.log('[WS] Connected to Deriv');
+      if (this.hasConnected) {
+        this.health.totalReconnects++;
+      }
+      this.hasConnected = true;
+      this.health.connectedSince = Date.now();
       this.setStatus('connected');
-      this.reconnectAttempts = 0;
-      this.authorize();
-      this.startPing();
+      this.startHeartbeat();
+      if (this.currentApiToken) {
+        this.authorize();
+      } else {
+        // Without a token there is no authorize to wait for; market data needs none
+        this.resetBackoff();
+        this.resubscribe();
+      }
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
+      let frame: unknown;
       try {
-        const data = JSON.parse(event.data);
-        this.handleMessage(data);
+        frame = JSON.parse(event.data);
       } catch (error) {
         console.error('[WS] Parse error:', error);
+        return;
+      }
+
+      const parsed = parseDerivMessage(frame);
+      if ('error' in parsed) {
+        this.handleValidationError(parsed.error);
+      } else {
+        this.handleMessage(parsed.message);
       }
     };
 
-    this.ws.onerror = (error) => {
+    ws.onerror = (error) => {
       console.error('[WS] Error:', error);
       this.setStatus('error');
     };
 
-    this.ws.onclose = () => {
-      console.log('[WS] Disconnected');
-      this.setStatus('disconnected');
-      this.stopPing();
-      this.attemptReconnect();
+    // Browsers give no detail for socket errors, so the close is what gets recorded
+    ws.onclose = () => {
+      this.recordError(this.health.connectedSince !== null ? 'Connection closed' : 'Could not connect');
+      this.teardown();
+      this.scheduleReconnect();
     };
   }
 
+  // Drop the socket's handlers and clear per-connection state; subscriptions are restored by resubscribe()
+  private teardown() {
+    console.log('[WS] Disconnected');
+    if (this.ws) {
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onerror = null;
+      this.ws.onclose = null;
+      this.ws = null;
+    }
+    this.health.connectedSince = null;
+    this.stopHeartbeat();
+    this.lastTickAt.clear();
+    // Subscription ids die with the connection; streams nobody wants any more need no forget
+    this.tickStreams.forEach((stream, symbol) => {
+      if (stream.consumers === 0) {
+        this.tickStreams.delete(symbol);
+      } else {
+        stream.subscriptionId = null;
+      }
+    });
+    this.setStatus('disconnected');
+    this.rejectPendingRequests('Connection closed');
+    // Proposal streams end with the connection; subscribers re-request them on reconnect
+    this.proposalStreams.clear();
+    this.contractSubscriptions.clear();
+  }
+
+  // Give up on a socket that is open but no longer delivering (half-open, stalled feed) and reconnect
+  private failConnection(reason: string) {
+    if (!this.ws) return;
+    console.warn(`[WS] ${reason} - reconnecting`);
+    this.recordError(reason);
+    const ws = this.ws;
+    this.teardown();
+    ws.close();
+    this.scheduleReconnect();
+  }
+
+  private recordError(reason: string) {
+    this.health.lastError = reason;
+    this.health.lastErrorAt = Date.now();
+    this.notifyHealth();
+  }
+
   private authorize() {
     if (this.currentApiToken) {
       this.send({
@@ -123,36 +428,93 @@ class DerivWebSocket {
     }
   }
 
-  private startPing() {
+  // Ping on an interval and expect each pong in time; watch every ticking symbol for silence
+  private startHeartbeat() {
+    const { PING_INTERVAL_MS, PONG_TIMEOUT_MS, TICK_SILENCE_MS } = DERIV_CONFIG.CONNECTION;
+    this.stopHeartbeat();
+
     this.pingInterval = setInterval(() => {
-      this.send({ ping: 1 });
-    }, 30000);
+      this.request<'ping'>({ ping: 1 }, PONG_TIMEOUT_MS).catch(error => {
+        if (error instanceof DerivAPIError && error.code === 'Timeout') {
+          this.failConnection(`No pong within ${PONG_TIMEOUT_MS / 1000}s`);
+        }
+      });
+    }, PING_INTERVAL_MS);
+
+    this.watchdogInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [symbol, lastTick] of this.lastTickAt) {
+        if (now - lastTick > TICK_SILENCE_MS) {
+          this.failConnection(`No ticks from ${symbol} for ${Math.round((now - lastTick) / 1000)}s`);
+          return;
+        }
+      }
+    }, Math.min(TICK_SILENCE_MS / 3, 5000));
   }
 
-  private stopPing() {
+  private stopHeartbeat() {
     if (this.pingInterval) {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
   }
 
-  private attemptReconnect() {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('[WS] Max reconnection attempts reached');
-      return;
-    }
+  // Retry forever: exponential backoff capped at RECONNECT_MAX_MS, with jitter so clients do not retry in step
+  private scheduleReconnect() {
+    const { RECONNECT_BASE_MS, RECONNECT_MAX_MS } = DERIV_CONFIG.CONNECTION;
+    this.clearReconnectTimer();
 
-    this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    this.health.reconnectAttempts++;
+    const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * Math.pow(2, this.health.reconnectAttempts - 1));
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    this.health.nextRetryMs = delay;
+    this.notifyHealth();
     
-    console.log(`[WS] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    console.log(`[WS] Reconnecting in ${delay}ms (attempt ${this.health.reconnectAttempts})`);
     
-    setTimeout(() => {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.health.nextRetryMs = null;
+      this.notifyHealth();
       this.connect();
     }, delay);
   }
 
-  private handleMessage(data: any) {
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.health.nextRetryMs = null;
+    }
+  }
+
+  // A connection counts as good once it is authorized (or open, without a token)
+  private resetBackoff() {
+    this.health.reconnectAttempts = 0;
+    this.notifyHealth();
+  }
+
+  // Skip the backoff wait and reconnect now
+  public reconnectNow() {
+    if (this.ws?.readyState === SOCKET_OPEN) return;
+    this.disconnect();
+    this.connect();
+  }
+
+  private notifyHealth() {
+    this.healthHandlers.forEach(handler => handler(this.getHealth()));
+  }
+
+  private handleMessage(data: DerivMessage) {
+    // Settle the request this frame answers (stream updates after the first are not tracked)
+    if (typeof data.req_id === 'number') {
+      this.settleRequest(data);
+    }
+
     // Handle authorization - extract account currency
     if (data.authorize) {
       console.log('[WS] Authorized successfully');
@@ -162,16 +524,22 @@ class DerivWebSocket {
         this.accountCurrency = data.authorize.currency;
         console.log(`[WS] Account currency detected: ${this.accountCurrency}`);
       }
+      this.resetBackoff();
       
       this.accountInfo = {
         currency: data.authorize.currency || 'USD',
         balance: data.authorize.balance || 0,
         loginid: data.authorize.loginid || '',
+        isVirtual: data.authorize.is_virtual === 1,
       };
+      this.notifyAccount();
       
       this.setStatus('authorized');
       this.resubscribe();
       
+      // Stream the balance for the life of this connection
+      this.send({ balance: 1, subscribe: 1 });
+      
       // Also fetch settings for additional account info
       this.send({ get_settings: 1 });
     }
@@ -183,14 +551,33 @@ class DerivWebSocket {
       }
     }
 
+    // Handle balance updates for the authorized account
+    if (data.balance && this.accountInfo && data.balance.loginid === this.accountInfo.loginid) {
+      this.accountInfo = { ...this.accountInfo, balance: data.balance.balance, currency: data.balance.currency };
+      this.notifyAccount();
+    }
+
     // Handle ticks
     if (data.tick) {
       const tick: TickUpdate = {
         symbol: data.tick.symbol,
         quote: data.tick.quote,
         epoch: data.tick.epoch,
+        pipSize: data.tick.pip_size,
       };
       
+      const stream = this.tickStreams.get(tick.symbol);
+      if (stream && data.subscription?.id && !stream.subscriptionId) {
+        stream.subscriptionId = data.subscription.id;
+        // The last consumer left before the id was known
+        if (stream.consumers === 0) {
+          this.forgetTicks(tick.symbol, stream);
+        }
+      }
+      if (stream && stream.consumers > 0) {
+        this.lastTickAt.set(tick.symbol, Date.now());
+      }
+      
       const handlers = this.tickHandlers.get(tick.symbol) || [];
       handlers.forEach(handler => handler(tick));
       
@@ -199,8 +586,17 @@ class DerivWebSocket {
       globalHandlers.forEach(handler => handler(tick));
     }
 
+    // Handle streamed proposal updates (the first quote resolves subscribeProposal)
+    if (data.proposal && data.subscription?.id) {
+      const stream = this.proposalStreams.get(data.subscription.id);
+      if (stream) {
+        stream.handler(this.toProposal(stream.symbol, stream.contractType, data.proposal));
+      }
+    }
+
     // Handle proposal_open_contract updates (contract lifecycle)
-    if (data.proposal_open_contract) {
+    // (an empty payload arrives once the stream has been forgotten)
+    if (data.proposal_open_contract?.contract_id !== undefined) {
       const poc = data.proposal_open_contract;
       const contractId = String(poc.contract_id);
       
@@ -209,20 +605,7 @@ class DerivWebSocket {
         this.contractSubscriptions.set(contractId, data.subscription.id);
       }
       
-      const update: ContractUpdate = {
-        contractId,
-        symbol: poc.underlying || '',
-        buyPrice: poc.buy_price || 0,
-        bidPrice: poc.bid_price || 0,
-        profit: poc.profit || 0,
-        payout: poc.payout || 0,
-        isSold: poc.is_sold === 1,
-        isExpired: poc.is_expired === 1,
-        isSettled: poc.is_settleable === 1 || poc.is_sold === 1 || poc.is_expired === 1,
-        sellPrice: poc.sell_price,
-        sellTime: poc.sell_time,
-        status: this.determineContractStatus(poc),
-      };
+      const update = this.toContractUpdate(poc);
       
       // Call handlers for this specific contract
       const contractHandlers = this.contractHandlers.get(contractId) || [];
@@ -236,6 +619,14 @@ class DerivWebSocket {
     // Handle errors
     if (data.error) {
       console.error('[WS] API Error:', data.error.message);
+      if (data.msg_type === 'authorize') {
+        this.recordError(`Authorization failed: ${data.error.message}`);
+      }
+      // A refused tick stream will never get an id to forget; drop it if nobody wants it
+      const symbol = data.msg_type === 'tick' ? data.echo_req?.ticks : undefined;
+      if (typeof symbol === 'string' && this.tickStreams.get(symbol)?.consumers === 0) {
+        this.tickStreams.delete(symbol);
+      }
     }
 
     // Call message handlers
@@ -250,22 +641,93 @@ class DerivWebSocket {
     }
   }
 
-  private determineContractStatus(poc: any): ContractUpdate['status'] {
-    if (poc.is_sold === 1) return 'sold';
-    if (poc.is_expired === 1) {
-      return poc.profit >= 0 ? 'won' : 'lost';
+  private handleValidationError(error: DerivValidationError) {
+    console.error('[WS] Validation error:', error.message, error.issues);
+    this.validationErrorHandlers.forEach(handler => handler(error));
+
+    // Fail the matching request rather than letting it time out
+    const pending = error.reqId !== undefined ? this.pendingRequests.get(error.reqId) : undefined;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(error.reqId);
+      pending.reject(error);
     }
+  }
+
+  private settleRequest(data: DerivMessage) {
+    const pending = this.pendingRequests.get(data.req_id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(data.req_id);
+
+    if (data.error) {
+      pending.reject(new DerivAPIError(data.error.message, data.error.code || 'UnknownError', pending.msgType));
+    } else {
+      pending.resolve(data);
+    }
+  }
+
+  private rejectPendingRequests(reason: string) {
+    this.pendingRequests.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(new DerivAPIError(reason, 'Disconnected', pending.msgType));
+    });
+    this.pendingRequests.clear();
+  }
+
+  private toContractUpdate(poc: ProposalOpenContractPayload): ContractUpdate {
+    return {
+      contractId: String(poc.contract_id),
+      symbol: poc.underlying || '',
+      contractType: poc.contract_type,
+      entrySpot: poc.entry_spot ?? undefined,
+      currentSpot: poc.current_spot,
+      barrier: poc.barrier ?? undefined,
+      buyPrice: poc.buy_price || 0,
+      bidPrice: poc.bid_price || 0,
+      profit: poc.profit || 0,
+      payout: poc.payout || 0,
+      isSold: poc.is_sold === 1,
+      isExpired: poc.is_expired === 1,
+      isSettled: poc.is_settleable === 1 || poc.is_sold === 1 || poc.is_expired === 1,
+      isValidToSell: poc.is_valid_to_sell === 1,
+      sellPrice: poc.sell_price,
+      sellTime: poc.sell_time,
+      status: this.determineContractStatus(poc),
+      dateStart: poc.date_start,
+      dateExpiry: poc.date_expiry,
+      tickCount: poc.tick_count,
+      multiplier: poc.multiplier,
+    };
+  }
+
+  private determineContractStatus(poc: ProposalOpenContractPayload): ContractUpdate['status'] {
+    // Deriv reports the settled outcome directly; is_sold is also set once an expired contract settles
+    if (poc.status === 'won' || poc.status === 'lost') return poc.status;
+    if (poc.status === 'sold' || poc.is_sold === 1) return 'sold';
+    if (poc.is_expired === 1) return 'expired';
     return 'open';
   }
 
   private resubscribe() {
     // Resubscribe to all symbols after reconnection
-    this.subscriptions.forEach(symbol => {
+    this.tickStreams.forEach((_, symbol) => {
       this.send({
         ticks: symbol,
         subscribe: 1,
       });
     });
+    
+    // And to every tracked contract; one that settled while offline answers with its final state
+    this.contractHandlers.forEach((_, contractId) => {
+      if (contractId === '*') return;
+      this.send({
+        proposal_open_contract: 1,
+        contract_id: contractId,
+        subscribe: 1,
+      });
+    });
   }
 
   private setStatus(status: ConnectionStatus) {
@@ -273,33 +735,80 @@ class DerivWebSocket {
     this.statusHandlers.forEach(handler => handler(status));
   }
 
-  public send(data: any) {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+  public send(data: DerivRequest) {
+    if (this.ws?.readyState === SOCKET_OPEN) {
       this.ws.send(JSON.stringify(data));
     } else {
       console.warn('[WS] Cannot send - not connected');
     }
   }
 
+  // Send a request and resolve with the response carrying the same req_id
+  public request<K extends DerivMsgType>(
+    payload: DerivRequest,
+    timeoutMs: number = this.REQUEST_TIMEOUT_MS
+  ): Promise<DerivResponse<K>> {
+    const msgType = Object.keys(payload)[0] || 'unknown';
+
+    return new Promise<DerivResponse<K>>((resolve, reject) => {
+      if (this.ws?.readyState !== SOCKET_OPEN) {
+        reject(new DerivAPIError('Cannot send - not connected', 'NotConnected', msgType));
+        return;
+      }
+
+      const reqId = this.nextReqId++;
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(reqId);
+        reject(new DerivAPIError(`Request timeout: ${msgType}`, 'Timeout', msgType));
+      }, timeoutMs);
+
+      this.pendingRequests.set(reqId, {
+        msgType,
+        resolve: data => resolve(data as DerivResponse<K>),
+        reject,
+        timer,
+      });
+      this.send({ ...payload, req_id: reqId });
+    });
+  }
+
+  // Reference-counted: only the first consumer of a symbol opens its stream
   public subscribeTicks(symbol: SymbolValue) {
-    this.subscriptions.add(symbol);
+    const stream = this.tickStreams.get(symbol);
+    if (stream) {
+      stream.consumers++;
+      return;
+    }
+
+    this.tickStreams.set(symbol, { consumers: 1, subscriptionId: null });
     this.send({
       ticks: symbol,
       subscribe: 1,
     });
   }
 
+  // Forgets the symbol's stream once its last consumer has left; other symbols are untouched
   public unsubscribeTicks(symbol: SymbolValue) {
-    this.subscriptions.delete(symbol);
+    const stream = this.tickStreams.get(symbol);
+    if (!stream || stream.consumers === 0) return;
+
+    stream.consumers--;
+    if (stream.consumers > 0) return;
+
+    this.lastTickAt.delete(symbol);
+    if (stream.subscriptionId) {
+      this.forgetTicks(symbol, stream);
+    }
+  }
+
+  public getTickConsumers(symbol: string): number {
+    return this.tickStreams.get(symbol)?.consumers ?? 0;
+  }
+
+  private forgetTicks(symbol: string, stream: TickStream) {
+    this.tickStreams.delete(symbol);
     this.send({
-      forget_all: 'ticks',
-    });
-    // Resubscribe to remaining symbols
-    this.subscriptions.forEach(s => {
-      this.send({
-        ticks: s,
-        subscribe: 1,
-      });
+      forget: stream.subscriptionId,
     });
   }
 
@@ -342,44 +851,23 @@ class DerivWebSocket {
 
   // Sell a contract at market price
   public async sellContract(contractId: string, price: number = 0): Promise<TradeResult> {
-    return new Promise((resolve) => {
-      const reqId = Date.now();
-      
-      const handler = (data: any) => {
-        if (data.sell) {
-          resolve({
-            success: true,
-            contractId: String(data.sell.contract_id),
-            profit: data.sell.sold_for - (data.sell.buy_price || 0),
-          });
-        } else if (data.error) {
-          resolve({
-            success: false,
-            error: data.error.message,
-          });
-        }
-        // Remove handler after response
-        const handlers = this.messageHandlers.get('sell') || [];
-        const idx = handlers.indexOf(handler);
-        if (idx > -1) handlers.splice(idx, 1);
-      };
-
-      this.onMessage('sell', handler);
-
-      this.send({
+    try {
+      const data = await this.request<'sell'>({
         sell: contractId,
         price: price, // 0 = market price
-        req_id: reqId,
       });
-
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        resolve({
-          success: false,
-          error: 'Sell contract timeout',
-        });
-      }, 10000);
-    });
+      // The sell response carries no buy price, so profit is left to the contract stream
+      return {
+        success: true,
+        contractId: String(data.sell.contract_id),
+        sellPrice: data.sell.sold_for,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
   }
 
   public onTick(symbol: string, handler: TickHandler) {
@@ -397,12 +885,32 @@ class DerivWebSocket {
     }
   }
 
-  public onMessage(msgType: string, handler: MessageHandler) {
+  public onMessage<K extends DerivMsgType>(msgType: K | '*', handler: MessageHandler<K>) {
     const handlers = this.messageHandlers.get(msgType) || [];
-    handlers.push(handler);
+    handlers.push(handler as MessageHandler);
     this.messageHandlers.set(msgType, handlers);
   }
 
+  public offMessage<K extends DerivMsgType>(msgType: K | '*', handler: MessageHandler<K>) {
+    const handlers = this.messageHandlers.get(msgType) || [];
+    const index = handlers.indexOf(handler as MessageHandler);
+    if (index > -1) {
+      handlers.splice(index, 1);
+    }
+  }
+
+  // Register handler for frames that fail schema validation
+  public onValidationError(handler: ValidationErrorHandler) {
+    this.validationErrorHandlers.push(handler);
+  }
+
+  public offValidationError(handler: ValidationErrorHandler) {
+    const index = this.validationErrorHandlers.indexOf(handler);
+    if (index > -1) {
+      this.validationErrorHandlers.splice(index, 1);
+    }
+  }
+
   public onStatusChange(handler: StatusHandler) {
     this.statusHandlers.push(handler);
     // Immediately call with current status
@@ -419,6 +927,22 @@ class DerivWebSocket {
   public getStatus(): ConnectionStatus {
     return this.status;
   }
+
+  public getHealth(): ConnectionHealth {
+    return { ...this.health };
+  }
+
+  public onHealthChange(handler: HealthHandler) {
+    this.healthHandlers.push(handler);
+    handler(this.getHealth());
+  }
+
+  public offHealthChange(handler: HealthHandler) {
+    const index = this.healthHandlers.indexOf(handler);
+    if (index > -1) {
+      this.healthHandlers.splice(index, 1);
+    }
+  }
   
   public getAccountCurrency(): string {
     return this.accountCurrency;
@@ -428,77 +952,233 @@ class DerivWebSocket {
     return this.accountInfo;
   }
 
-  public async buyContract(
+  // Called on authorize and on every balance change; at once if an account is already known
+  public onAccountChange(handler: AccountHandler) {
+    this.accountHandlers.push(handler);
+    if (this.accountInfo) {
+      handler(this.accountInfo);
+    }
+  }
+
+  public offAccountChange(handler: AccountHandler) {
+    const index = this.accountHandlers.indexOf(handler);
+    if (index > -1) {
+      this.accountHandlers.splice(index, 1);
+    }
+  }
+
+  private notifyAccount() {
+    const account = this.accountInfo;
+    if (account) {
+      this.accountHandlers.forEach(handler => handler(account));
+    }
+  }
+
+  // Quote a contract once
+  public async getProposal(symbol: SymbolValue, contract: ContractParameters, amount: number): Promise<Proposal> {
+    const data = await this.request<'proposal'>({ proposal: 1, ...this.contractRequest(symbol, contract, amount) });
+    return this.toProposal(symbol, contract.contractType, data.proposal);
+  }
+
+  // Stream quotes for a contract; resolves with the stream id once the first quote has been delivered
+  public async subscribeProposal(
     symbol: SymbolValue,
-    contractType: 'CALL' | 'PUT',
+    contract: ContractParameters,
     amount: number,
-    duration: number = 5,
-    durationUnit: 't' | 's' | 'm' | 'h' | 'd' = 't'
-  ): Promise<TradeResult> {
-    return new Promise((resolve) => {
-      const reqId = Date.now();
-      
-      const handler = (data: any) => {
-        if (data.buy) {
-          resolve({
-            success: true,
-            contractId: String(data.buy.contract_id),
-            buyPrice: data.buy.buy_price,
-          });
-        } else if (data.error) {
-          resolve({
-            success: false,
-            error: data.error.message,
-          });
-        }
-        this.messageHandlers.delete(`buy_${reqId}`);
-      };
-
-      this.onMessage('buy', handler);
+    handler: ProposalHandler
+  ): Promise<string> {
+    const data = await this.request<'proposal'>({
+      proposal: 1,
+      subscribe: 1,
+      ...this.contractRequest(symbol, contract, amount),
+    });
+    const streamId = data.subscription?.id || data.proposal.id;
+    this.proposalStreams.set(streamId, { symbol, contractType: contract.contractType, handler });
+    handler(this.toProposal(symbol, contract.contractType, data.proposal));
+    return streamId;
+  }
 
-      // Use dynamic currency from account instead of hardcoded USD
-      const currency = this.accountCurrency;
-      console.log(`[WS] Executing buy with currency: ${currency}`);
+  public unsubscribeProposal(streamId: string) {
+    if (this.proposalStreams.delete(streamId)) {
+      this.send({ forget: streamId });
+    }
+  }
 
-      this.send({
+  public async buyContract(symbol: SymbolValue, contract: ContractParameters, amount: number): Promise<TradeResult> {
+    try {
+      const data = await this.request<'buy'>({
         buy: 1,
         price: amount,
-        parameters: {
-          contract_type: contractType,
-          symbol: symbol,
-          duration: duration,
-          duration_unit: durationUnit,
-          basis: 'stake',
-          amount: amount,
-          currency: currency, // Dynamic currency from account
-        },
-        req_id: reqId,
+        parameters: this.contractRequest(symbol, contract, amount),
       });
+      return {
+        success: true,
+        contractId: String(data.buy.contract_id),
+        buyPrice: data.buy.buy_price,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
 
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        resolve({
-          success: false,
-          error: 'Trade execution timeout',
-        });
-      }, 10000);
+  // One-off balance; the stream opened at authorize keeps getAccountInfo() current
+  public async getBalance(): Promise<BalanceInfo> {
+    const data = await this.request<'balance'>({ balance: 1 });
+    return {
+      balance: data.balance.balance,
+      currency: data.balance.currency,
+      loginid: data.balance.loginid,
+    };
+  }
+
+  // Current state of one contract, open or settled
+  public async getOpenContract(contractId: string): Promise<ContractUpdate> {
+    const data = await this.request<'proposal_open_contract'>({
+      proposal_open_contract: 1,
+      contract_id: contractId,
+    });
+    if (data.proposal_open_contract.contract_id === undefined) {
+      throw new DerivAPIError(`Contract ${contractId} not found`, 'InvalidContractId', 'proposal_open_contract');
+    }
+    return this.toContractUpdate(data.proposal_open_contract);
+  }
+
+  public async getActiveContracts(): Promise<PortfolioContract[]> {
+    const data = await this.request<'portfolio'>({ portfolio: 1 });
+    return data.portfolio.contracts.map(c => ({
+      contractId: String(c.contract_id),
+      symbol: c.symbol,
+      contractType: c.contract_type,
+      buyPrice: c.buy_price,
+      payout: c.payout,
+      purchaseTime: c.purchase_time,
+      expiryTime: c.expiry_time,
+    }));
+  }
+
+  // Most recent ticks for a symbol, oldest first
+  public async getTickHistory(symbol: string, count: number = 100): Promise<TickUpdate[]> {
+    const data = await this.request<'history'>({
+      ticks_history: symbol,
+      end: 'latest',
+      count,
+      style: 'ticks',
+    });
+    const { prices, times } = data.history;
+    const pipSize = typeof data.pip_size === 'number' ? data.pip_size : undefined;
+    return prices.map((quote, i) => ({ symbol, quote, epoch: times[i], pipSize }));
+  }
+
+  // Most recent OHLC candles for a symbol, oldest first
+  public async getCandles(symbol: string, granularity: number = 60, count: number = 100): Promise<Candle[]> {
+    const data = await this.request<'candles'>({
+      ticks_history: symbol,
+      end: 'latest',
+      count,
+      style: 'candles',
+      granularity,
     });
+    return data.candles.map(c => ({
+      symbol,
+      epoch: c.epoch,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+    }));
+  }
+
+  // Underlyings offered to this account, with display names and market hours
+  public async getActiveSymbols(): Promise<ActiveSymbol[]> {
+    const data = await this.request<'active_symbols'>({ active_symbols: 'brief', product_type: 'basic' });
+    return data.active_symbols.map(s => ({
+      symbol: s.symbol,
+      displayName: s.display_name,
+      market: s.market,
+      marketDisplayName: s.market_display_name || s.market,
+      submarket: s.submarket,
+      submarketDisplayName: s.submarket_display_name || s.submarket,
+      pipSize: Math.max(0, Math.round(-Math.log10(s.pip))),
+      isOpen: s.exchange_is_open === 1 && s.is_trading_suspended === 0,
+    }));
   }
 
-  public getBalance() {
-    this.send({ balance: 1, subscribe: 1 });
+  // Contract types and duration ranges offered on a symbol
+  public async getContractsFor(symbol: string): Promise<ContractOffering[]> {
+    const data = await this.request<'contracts_for'>({
+      contracts_for: symbol,
+      currency: this.accountCurrency,
+      product_type: 'basic',
+    });
+    return data.contracts_for.available.map(c => this.toContractOffering(c));
   }
 
-  public getActiveContracts() {
-    this.send({ portfolio: 1 });
+  // Contract terms in the shape proposal and buy expect
+  private contractRequest(symbol: SymbolValue, contract: ContractParameters, amount: number): ContractRequestParameters {
+    return {
+      contract_type: contract.contractType,
+      symbol: symbol,
+      basis: 'stake',
+      amount: amount,
+      currency: this.accountCurrency, // Dynamic currency from account
+      ...(contract.duration !== undefined && {
+        duration: contract.duration,
+        duration_unit: contract.durationUnit || 't',
+      }),
+      ...(contract.barrier !== undefined && { barrier: contract.barrier }),
+      ...(contract.multiplier !== undefined && { multiplier: contract.multiplier }),
+      ...(contract.limitOrder && {
+        limit_order: {
+          ...(contract.limitOrder.takeProfit !== undefined && { take_profit: contract.limitOrder.takeProfit }),
+          ...(contract.limitOrder.stopLoss !== undefined && { stop_loss: contract.limitOrder.stopLoss }),
+        },
+      }),
+    };
   }
 
+  private toContractOffering(payload: ContractsForPayload['available'][number]): ContractOffering {
+    return {
+      contractType: payload.contract_type,
+      category: payload.contract_category,
+      categoryDisplay: payload.contract_category_display || payload.contract_category,
+      expiryType: payload.expiry_type,
+      minDuration: payload.min_contract_duration,
+      maxDuration: payload.max_contract_duration,
+      barriers: payload.barriers ?? 0,
+      multipliers: payload.multiplier_range,
+    };
+  }
+
+  private toProposal(symbol: string, contractType: ContractType, payload: ProposalPayload): Proposal {
+    return {
+      id: payload.id,
+      symbol,
+      contractType,
+      askPrice: payload.ask_price,
+      payout: payload.payout,
+      spot: payload.spot,
+      spotTime: payload.spot_time,
+      longcode: payload.longcode,
+    };
+  }
+
+  // Close without reconnecting
   public disconnect() {
-    this.stopPing();
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    this.connectAttempt++;
+    this.clearReconnectTimer();
+    this.health.reconnectAttempts = 0;
+    const ws = this.ws;
+    if (ws) {
+      this.teardown();
+      ws.close();
+    } else if (this.status === 'connecting') {
+      // Still loading the mock server; the load is dropped once it finishes
+      this.setStatus('disconnected');
     }
+    this.notifyHealth();
   }
 }
 
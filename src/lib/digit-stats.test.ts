@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { TickUpdate } from './deriv-websocket';
+import { CHI_SQUARE_CRITICAL, DigitStatsTracker, getLastDigit } from './digit-stats';
+
+const SYMBOL = 'R_100'; // 2 decimals
+
+// Quotes ending in the given digits at 2 decimals, one second apart
+function ticksEndingIn(digits: number[], startEpoch = 1000): TickUpdate[] {
+  return digits.map((digit, i) => ({ symbol: SYMBOL, quote: 1500 + i + digit / 100, epoch: startEpoch + i }));
+}
+
+describe('getLastDigit', () => {
+  it('reads the digit at the pip size, including trailing zeros', () => {
+    expect(getLastDigit(1492.5, 2)).toBe(0);
+    expect(getLastDigit(1492.57, 2)).toBe(7);
+    expect(getLastDigit(6123.456, 3)).toBe(6);
+    expect(getLastDigit(0.29, 2)).toBe(9); // 28.999... before rounding
+  });
+});
+
+describe('DigitStatsTracker', () => {
+  it('summarises the window: counts, ratios and trailing streaks', () => {
+    const tracker = new DigitStatsTracker(10);
+    ticksEndingIn([2, 4, 6, 7, 7]).forEach(tick => tracker.addTick(tick));
+
+    const stats = tracker.getStats(SYMBOL);
+    expect(stats.sampleSize).toBe(5);
+    expect(stats.lastDigit).toBe(7);
+    expect(stats.counts).toEqual([0, 0, 1, 0, 1, 0, 1, 2, 0, 0]);
+    expect(stats.evenRatio).toBeCloseTo(0.6, 10);
+    expect(stats.oddRatio).toBeCloseTo(0.4, 10);
+    expect(stats.overRatio).toBeCloseTo(0.6, 10);
+    expect(stats.mostFrequent).toBe(7);
+    expect(stats.digitStreak).toEqual({ value: '7', length: 2 });
+    expect(stats.parityStreak).toEqual({ value: 'odd', length: 2 });
+    expect(stats.overUnderStreak).toEqual({ value: 'over', length: 3 });
+  });
+
+  it('drops the oldest digit once the window is full and ignores replayed ticks', () => {
+    const tracker = new DigitStatsTracker(5);
+    const ticks = ticksEndingIn([1, 1, 2, 3, 4, 5, 6]);
+    ticks.forEach(tick => tracker.addTick(tick));
+    ticks.slice(0, 3).forEach(tick => tracker.addTick(tick));
+
+    const stats = tracker.getStats(SYMBOL);
+    expect(stats.sampleSize).toBe(5);
+    expect(stats.counts).toEqual([0, 0, 1, 1, 1, 1, 1, 0, 0, 0]);
+  });
+
+  it('flags a distribution the chi-square test rejects as uniform', () => {
+    const uniform = new DigitStatsTracker(100);
+    ticksEndingIn([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]).forEach(tick => uniform.addTick(tick));
+    expect(uniform.getStats(SYMBOL).chiSquare).toBe(0);
+    expect(uniform.getStats(SYMBOL).isBiased).toBe(false);
+
+    // 20 threes: (20 - 2)^2 / 2 for the three, plus 2^2 / 2 for each of the nine absent digits
+    const skewed = new DigitStatsTracker(100);
+    ticksEndingIn(new Array(20).fill(3)).forEach(tick => skewed.addTick(tick));
+    expect(skewed.getStats(SYMBOL).chiSquare).toBeCloseTo(180, 10);
+    expect(skewed.getStats(SYMBOL).chiSquare).toBeGreaterThan(CHI_SQUARE_CRITICAL);
+    expect(skewed.getStats(SYMBOL).isBiased).toBe(true);
+  });
+
+  it('replaces the window on load and honours a pip size from the feed', () => {
+    const tracker = new DigitStatsTracker(3);
+    ticksEndingIn([9, 9, 9]).forEach(tick => tracker.addTick(tick));
+    tracker.load(SYMBOL, ticksEndingIn([1, 2, 3, 4], 5000));
+    expect(tracker.getStats(SYMBOL).counts).toEqual([0, 0, 1, 1, 1, 0, 0, 0, 0, 0]);
+
+    // 1500.123 at 3 decimals ends in 3, not the 2 it would at the profile's 2 decimals
+    tracker.addTick({ symbol: SYMBOL, quote: 1500.123, epoch: 6000, pipSize: 3 });
+    expect(tracker.getStats(SYMBOL)).toMatchObject({ pipSize: 3, lastDigit: 3 });
+  });
+});
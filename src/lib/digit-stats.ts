@@ -0,0 +1,184 @@
+// Last-Digit Statistics
+// Rolling per-symbol digit distribution for DIGITEVEN/ODD, DIGITOVER/UNDER and DIGITMATCH/DIFFS analysis
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import type { TickUpdate } from './deriv-websocket';
+import { getSymbolProfile } from './price-generator';
+
+export interface DigitStreak {
+  value: string; // the digit, 'even'/'odd' or 'over'/'under'
+  length: number;
+}
+
+export interface DigitStats {
+  symbol: string;
+  pipSize: number;
+  sampleSize: number;
+  lastDigit: number | null;
+  counts: number[]; // index = digit
+  frequencies: number[]; // share of the window per digit, 0..1
+  evenRatio: number;
+  oddRatio: number;
+  overRatio: number; // digits 5-9
+  underRatio: number; // digits 0-4
+  mostFrequent: number | null;
+  leastFrequent: number | null;
+  digitStreak: DigitStreak | null; // repeats of the last digit
+  parityStreak: DigitStreak | null;
+  overUnderStreak: DigitStreak | null;
+  chiSquare: number; // deviation from a uniform distribution, 9 degrees of freedom
+  isBiased: boolean; // chi-square above the 5% critical value
+}
+
+interface SymbolDigits {
+  pipSize: number;
+  digits: number[];
+  counts: number[];
+  lastEpoch: number;
+}
+
+type DigitStatsHandler = (stats: DigitStats) => void;
+
+// Chi-square critical value for 9 degrees of freedom at p = 0.05
+export const CHI_SQUARE_CRITICAL = 16.919;
+
+// Last digit of a quote at the symbol's pip size (e.g. 1492.50 at 2 decimals -> 0)
+export function getLastDigit(quote: number, pipSize: number): number {
+  return Math.round(Math.abs(quote) * Math.pow(10, pipSize)) % 10;
+}
+
+function parity(digit: number): string {
+  return digit % 2 === 0 ? 'even' : 'odd';
+}
+
+function overUnder(digit: number): string {
+  return digit >= 5 ? 'over' : 'under';
+}
+
+// Run of equal classifications ending at the newest digit
+function trailingStreak(digits: number[], classify: (digit: number) => string): DigitStreak | null {
+  if (digits.length === 0) return null;
+  const value = classify(digits[digits.length - 1]);
+  let length = 0;
+  for (let i = digits.length - 1; i >= 0 && classify(digits[i]) === value; i--) {
+    length++;
+  }
+  return { value, length };
+}
+
+export class DigitStatsTracker {
+  private symbols: Map<string, SymbolDigits> = new Map();
+  private updateHandlers: DigitStatsHandler[] = [];
+
+  constructor(private windowSize: number = DERIV_CONFIG.DIGIT_WINDOW) {}
+
+  // Ticks at or before the last seen epoch are ignored, so backfill overlaps are safe
+  public addTick(tick: TickUpdate) {
+    const state = this.getState(tick.symbol);
+    if (tick.epoch <= state.lastEpoch) return;
+    state.lastEpoch = tick.epoch;
+    if (tick.pipSize !== undefined) {
+      state.pipSize = tick.pipSize;
+    }
+
+    const digit = getLastDigit(tick.quote, state.pipSize);
+    state.digits.push(digit);
+    state.counts[digit]++;
+    if (state.digits.length > this.windowSize) {
+      state.counts[state.digits.shift()]--;
+    }
+
+    if (this.updateHandlers.length > 0) {
+      const stats = this.getStats(tick.symbol);
+      this.updateHandlers.forEach(handler => handler(stats));
+    }
+  }
+
+  // Replace a symbol's window with a tick history (oldest first)
+  public load(symbol: string, ticks: TickUpdate[]) {
+    const previous = this.symbols.get(symbol);
+    this.symbols.set(symbol, {
+      pipSize: previous?.pipSize ?? getSymbolProfile(symbol).decimals,
+      digits: [],
+      counts: new Array(10).fill(0),
+      lastEpoch: 0,
+    });
+    ticks.slice(-this.windowSize).forEach(tick => this.addTick({ ...tick, symbol }));
+  }
+
+  public getStats(symbol: string): DigitStats {
+    const { pipSize, digits, counts } = this.getState(symbol);
+    const n = digits.length;
+    const share = (predicate: (digit: number) => boolean) =>
+      n > 0 ? counts.reduce((sum, count, digit) => sum + (predicate(digit) ? count : 0), 0) / n : 0;
+
+    const expected = n / 10;
+    const chiSquare = n > 0
+      ? counts.reduce((sum, count) => sum + Math.pow(count - expected, 2) / expected, 0)
+      : 0;
+
+    let mostFrequent: number | null = null;
+    let leastFrequent: number | null = null;
+    if (n > 0) {
+      mostFrequent = counts.indexOf(Math.max(...counts));
+      leastFrequent = counts.indexOf(Math.min(...counts));
+    }
+
+    return {
+      symbol,
+      pipSize,
+      sampleSize: n,
+      lastDigit: n > 0 ? digits[n - 1] : null,
+      counts: [...counts],
+      frequencies: counts.map(count => (n > 0 ? count / n : 0)),
+      evenRatio: share(digit => digit % 2 === 0),
+      oddRatio: share(digit => digit % 2 === 1),
+      overRatio: share(digit => digit >= 5),
+      underRatio: share(digit => digit < 5),
+      mostFrequent,
+      leastFrequent,
+      digitStreak: trailingStreak(digits, digit => String(digit)),
+      parityStreak: trailingStreak(digits, parity),
+      overUnderStreak: trailingStreak(digits, overUnder),
+      chiSquare,
+      isBiased: chiSquare > CHI_SQUARE_CRITICAL,
+    };
+  }
+
+  public getWindowSize(): number {
+    return this.windowSize;
+  }
+
+  public reset(symbol?: string) {
+    if (symbol) {
+      this.symbols.delete(symbol);
+    } else {
+      this.symbols.clear();
+    }
+  }
+
+  public onUpdate(handler: DigitStatsHandler) {
+    this.updateHandlers.push(handler);
+  }
+
+  public offUpdate(handler: DigitStatsHandler) {
+    const index = this.updateHandlers.indexOf(handler);
+    if (index > -1) {
+      this.updateHandlers.splice(index, 1);
+    }
+  }
+
+  private getState(symbol: string): SymbolDigits {
+    let state = this.symbols.get(symbol);
+    if (!state) {
+      state = {
+        pipSize: getSymbolProfile(symbol).decimals,
+        digits: [],
+        counts: new Array(10).fill(0),
+        lastEpoch: 0,
+      };
+      this.symbols.set(symbol, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateADX,
+  calculateAllIndicators,
+  calculateATR,
+  calculateCCI,
+  calculateDonchianChannels,
+  calculateHMA,
+  calculateKeltnerChannels,
+  calculateParabolicSAR,
+  calculateROC,
+  calculateStochastic,
+  calculateSupertrend,
+  calculateWilliamsR,
+  calculateWMA,
+  IndicatorResult,
+  PriceBar,
+  StreamingIndicators,
+} from './indicators';
+import { PriceGenerator } from './price-generator';
+
+const TICKS_PER_BAR = 5;
+
+function generatePrices(count: number, seed = 42): number[] {
+  return new PriceGenerator('R_100', { seed, startEpoch: 1_700_000_000 }).take(count).map(t => t.quote);
+}
+
+function toBars(prices: number[]): (PriceBar & { epoch: number })[] {
+  const bars: (PriceBar & { epoch: number })[] = [];
+  for (let i = 0; i < prices.length; i += TICKS_PER_BAR) {
+    const chunk = prices.slice(i, i + TICKS_PER_BAR);
+    bars.push({ epoch: i, high: Math.max(...chunk), low: Math.min(...chunk), close: chunk[chunk.length - 1] });
+  }
+  return bars;
+}
+
+function toSeries(bars: PriceBar[]) {
+  return {
+    highs: bars.map(b => b.high),
+    lows: bars.map(b => b.low),
+    closes: bars.map(b => b.close),
+  };
+}
+
+// Every field of an indicator result, with nested values flattened to numbers
+function flatten(result: IndicatorResult): Record<string, number | null> {
+  const flat: Record<string, number | null> = {};
+  Object.entries(result).forEach(([key, value]) => {
+    if (value === null || typeof value === 'number') {
+      flat[key] = value;
+    } else {
+      Object.entries(value).forEach(([field, nested]) => {
+        flat[`${key}.${field}`] = typeof nested === 'number' ? nested : nested === 'up' ? 1 : -1;
+      });
+    }
+  });
+  return flat;
+}
+
+function expectSameResult(actual: IndicatorResult, expected: IndicatorResult) {
+  const a = flatten(actual);
+  const e = flatten(expected);
+  expect(Object.keys(a).sort()).toEqual(Object.keys(e).sort());
+  Object.keys(e).forEach(key => {
+    if (e[key] === null) {
+      expect(a[key], key).toBeNull();
+    } else {
+      expect(a[key], key).toBeCloseTo(e[key] as number, 6);
+    }
+  });
+}
+
+describe('StreamingIndicators', () => {
+  it('matches calculateAllIndicators over the whole series at every step', () => {
+    const prices = generatePrices(400);
+    const bars = toBars(prices);
+    const stream = new StreamingIndicators();
+
+    prices.forEach((price, i) => {
+      stream.update(price);
+      // Close a bar after every TICKS_PER_BAR prices
+      if ((i + 1) % TICKS_PER_BAR !== 0) return;
+
+      const barCount = (i + 1) / TICKS_PER_BAR;
+      const streamed = stream.updateBar(bars[barCount - 1]);
+      const batch = calculateAllIndicators(prices.slice(0, i + 1), toSeries(bars.slice(0, barCount)));
+      expectSameResult(streamed, batch);
+    });
+  });
+
+  it('rebuilds the same state from history as from live updates', () => {
+    const prices = generatePrices(300, 7);
+    const bars = toBars(prices);
+    const live = new StreamingIndicators();
+    prices.forEach(price => live.update(price));
+    bars.forEach(bar => live.updateBar(bar));
+
+    expectSameResult(StreamingIndicators.fromHistory(prices, bars).getResult(), live.getResult());
+  });
+
+  it('treats a bar with a repeated epoch as a revision of the forming candle', () => {
+    const prices = generatePrices(300, 11);
+    const bars = toBars(prices);
+    const last = bars[bars.length - 1];
+    const stream = StreamingIndicators.fromHistory([], bars.slice(0, -1));
+
+    // A forming bar revised twice ends up where a single final bar would
+    stream.updateBar({ ...last, high: last.high + 5, low: last.low - 5 });
+    const revised = stream.updateBar(last);
+
+    expectSameResult(revised, StreamingIndicators.fromHistory([], bars).getResult());
+  });
+});
+
+describe('streaming history', () => {
+  const WINDOW = 100;
+
+  it('matches the batch functions over the window it was seeded from', () => {
+    const prices = generatePrices(2000, 3);
+    const bars = toBars(prices);
+    const seed = { prices: prices.slice(-WINDOW), bars: bars.slice(-WINDOW) };
+    const { highs, lows, closes } = toSeries(seed.bars);
+
+    const stream = StreamingIndicators.fromHistory(seed.prices, seed.bars).getResult();
+    expect(stream.adx).toBeCloseTo(calculateADX(highs, lows, closes) as number, 6);
+    expect(stream.atr).toBeCloseTo(calculateATR(highs, lows, closes) as number, 6);
+    expectSameResult(stream, calculateAllIndicators(seed.prices, toSeries(seed.bars)));
+  });
+});
+
+// Reference values worked out from the textbook definitions over eight bars, with short periods
+describe('indicator reference values', () => {
+  const highs = [10, 11, 12, 11.5, 13, 12.5, 14, 13.5];
+  const lows = [9, 9.5, 10.5, 10, 11, 11.5, 12, 12.5];
+  const closes = [9.5, 10.5, 11.5, 10.5, 12.5, 12, 13.5, 13];
+
+  it('Stochastic %K and its %D average', () => {
+    // %K over the last 3 bars: (13 - 11.5) / (14 - 11.5); the bar before scored 83.33
+    const stochastic = calculateStochastic(highs, lows, closes, 3, 2);
+    expect(stochastic?.k).toBeCloseTo(60, 10);
+    expect(stochastic?.d).toBeCloseTo(71.666667, 6);
+    expect(calculateStochastic(highs.slice(0, 3), lows.slice(0, 3), closes.slice(0, 3), 3, 2)).toBeNull();
+  });
+
+  it('CCI', () => {
+    expect(calculateCCI(highs, lows, closes, 4)).toBeCloseTo(55.555556, 6);
+  });
+
+  it('Williams %R', () => {
+    expect(calculateWilliamsR(highs, lows, closes, 4)).toBeCloseTo(-33.333333, 6);
+  });
+
+  it('Donchian channels', () => {
+    expect(calculateDonchianChannels(highs, lows, 4)).toEqual({ upper: 14, middle: 12.5, lower: 11 });
+  });
+
+  it('Keltner channels', () => {
+    const keltner = calculateKeltnerChannels(highs, lows, closes, 3, 3, 2);
+    expect(keltner?.middle).toBeCloseTo(12.8125, 10);
+    expect(keltner?.upper).toBeCloseTo(15.750772, 6);
+    expect(keltner?.lower).toBeCloseTo(9.874228, 6);
+  });
+
+  it('Supertrend', () => {
+    const supertrend = calculateSupertrend(highs, lows, closes, 3, 1);
+    expect(supertrend?.direction).toBe('up');
+    expect(supertrend?.value).toBeCloseTo(11.530864, 6);
+  });
+
+  it('Parabolic SAR, and its reversal to the prior extreme', () => {
+    const sar = calculateParabolicSAR(highs, lows);
+    expect(sar?.direction).toBe('up');
+    expect(sar?.value).toBeCloseTo(10.019549, 6);
+
+    expect(calculateParabolicSAR([10, 11, 12, 8], [9, 10, 11, 7])).toEqual({ value: 12, direction: 'down' });
+  });
+
+  it('WMA and HMA', () => {
+    // (11.5 * 1 + 10.5 * 2 + 12.5 * 3) / 6
+    expect(calculateWMA(closes.slice(0, 5), 3)).toBeCloseTo(11.666667, 6);
+    expect(calculateHMA(closes, 4)).toBeCloseTo(13.438889, 6);
+    expect(calculateHMA(closes.slice(0, 4), 4)).toBeNull();
+  });
+
+  it('ROC', () => {
+    // 13 against 12.5 three bars earlier
+    expect(calculateROC(closes, 3)).toBeCloseTo(4, 10);
+    expect(calculateROC(closes.slice(0, 3), 3)).toBeNull();
+  });
+});
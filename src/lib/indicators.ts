@@ -1,5 +1,7 @@
 // Technical Indicators Library
 
+import type { OHLCSeries } from './candles';
+
 export interface TickData {
   epoch: number;
   quote: number;
@@ -16,6 +18,27 @@ export interface IndicatorResult {
   ema: number | null;
   macd: { macd: number; signal: number; histogram: number } | null;
   atr: number | null;
+  stochastic: { k: number; d: number } | null;
+  cci: number | null;
+  williamsR: number | null;
+  donchian: Channel | null;
+  keltner: Channel | null;
+  supertrend: TrendLevel | null;
+  parabolicSar: TrendLevel | null;
+  hma: number | null;
+  roc: number | null;
+}
+
+export interface Channel {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+// A trailing level with the trend it implies (e.g. Supertrend line, SAR dot)
+export interface TrendLevel {
+  value: number;
+  direction: 'up' | 'down';
 }
 
 // Calculate Simple Moving Average
@@ -226,26 +249,764 @@ export function calculateATR(
   return atr;
 }
 
-// Calculate all indicators for a symbol
+// Calculate Weighted Moving Average (linear weights, newest heaviest)
+export function calculateWMA(data: number[], period: number): number | null {
+  if (data.length < period) return null;
+  const slice = data.slice(-period);
+  const weighted = slice.reduce((sum, val, i) => sum + val * (i + 1), 0);
+  return weighted / (period * (period + 1) / 2);
+}
+
+// Calculate Hull Moving Average: WMA over sqrt(n) of 2 * WMA(n/2) - WMA(n)
+export function calculateHMA(data: number[], period: number = 16): number | null {
+  const halfPeriod = Math.floor(period / 2);
+  const sqrtPeriod = Math.floor(Math.sqrt(period));
+  if (data.length < period + sqrtPeriod - 1) return null;
+  
+  const raw: number[] = [];
+  for (let end = data.length - sqrtPeriod + 1; end <= data.length; end++) {
+    const window = data.slice(end - period, end);
+    raw.push(2 * calculateWMA(window, halfPeriod) - calculateWMA(window, period));
+  }
+  
+  return calculateWMA(raw, sqrtPeriod);
+}
+
+// Calculate Rate of Change (percent change over `period` values)
+export function calculateROC(data: number[], period: number = 12): number | null {
+  if (data.length < period + 1) return null;
+  const past = data[data.length - 1 - period];
+  if (past === 0) return null;
+  return ((data[data.length - 1] - past) / past) * 100;
+}
+
+// Calculate Stochastic Oscillator (%K and its %D signal)
+export function calculateStochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod: number = 14,
+  dPeriod: number = 3
+): { k: number; d: number } | null {
+  if (closes.length < kPeriod + dPeriod - 1) return null;
+  
+  const kValues: number[] = [];
+  for (let end = closes.length - dPeriod + 1; end <= closes.length; end++) {
+    const highest = Math.max(...highs.slice(end - kPeriod, end));
+    const lowest = Math.min(...lows.slice(end - kPeriod, end));
+    // A flat range puts the close mid-range
+    kValues.push(highest === lowest ? 50 : ((closes[end - 1] - lowest) / (highest - lowest)) * 100);
+  }
+  
+  return {
+    k: kValues[kValues.length - 1],
+    d: kValues.reduce((sum, val) => sum + val, 0) / dPeriod,
+  };
+}
+
+// Calculate Commodity Channel Index (CCI)
+export function calculateCCI(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 20
+): number | null {
+  if (closes.length < period) return null;
+  
+  const typical: number[] = [];
+  for (let i = closes.length - period; i < closes.length; i++) {
+    typical.push((highs[i] + lows[i] + closes[i]) / 3);
+  }
+  
+  const mean = typical.reduce((sum, val) => sum + val, 0) / period;
+  const meanDeviation = typical.reduce((sum, val) => sum + Math.abs(val - mean), 0) / period;
+  if (meanDeviation === 0) return 0;
+  
+  return (typical[typical.length - 1] - mean) / (0.015 * meanDeviation);
+}
+
+// Calculate Williams %R (0 at the period high, -100 at the period low)
+export function calculateWilliamsR(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 14
+): number | null {
+  if (closes.length < period) return null;
+  
+  const highest = Math.max(...highs.slice(-period));
+  const lowest = Math.min(...lows.slice(-period));
+  if (highest === lowest) return -50;
+  
+  return ((highest - closes[closes.length - 1]) / (highest - lowest)) * -100;
+}
+
+// Calculate Donchian Channels (period high, low and their midpoint)
+export function calculateDonchianChannels(
+  highs: number[],
+  lows: number[],
+  period: number = 20
+): Channel | null {
+  if (highs.length < period) return null;
+  
+  const upper = Math.max(...highs.slice(-period));
+  const lower = Math.min(...lows.slice(-period));
+  
+  return { upper, middle: (upper + lower) / 2, lower };
+}
+
+// Calculate Keltner Channels (EMA of closes +/- a multiple of ATR)
+export function calculateKeltnerChannels(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  emaPeriod: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
+): Channel | null {
+  return replayBars(new StreamingKeltnerChannels(emaPeriod, atrPeriod, multiplier), highs, lows, closes);
+}
+
+// Calculate Supertrend (ATR band that flips with the trend)
+export function calculateSupertrend(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 10,
+  multiplier: number = 3
+): TrendLevel | null {
+  return replayBars(new StreamingSupertrend(period, multiplier), highs, lows, closes);
+}
+
+// Calculate Parabolic SAR (Wilder's stop and reverse)
+export function calculateParabolicSAR(
+  highs: number[],
+  lows: number[],
+  step: number = 0.02,
+  maxStep: number = 0.2
+): TrendLevel | null {
+  // SAR only uses highs and lows
+  return replayBars(new StreamingParabolicSAR(step, maxStep), highs, lows, lows);
+}
+
+// Calculate all indicators for a symbol. Range-based indicators (ADX, ATR, ...) use the OHLC bars
+// when given; without them they fall back to treating each tick as a zero-range bar.
 export function calculateAllIndicators(
   prices: number[],
-  highs?: number[],
-  lows?: number[]
+  bars?: Pick<OHLCSeries, 'highs' | 'lows' | 'closes'>
 ): IndicatorResult {
-  const h = highs || prices;
-  const l = lows || prices;
+  const h = bars?.highs || prices;
+  const l = bars?.lows || prices;
+  const c = bars?.closes || prices;
   
   const bollinger = calculateBollingerBands(prices);
   
   return {
     rsi: calculateRSI(prices),
-    adx: calculateADX(h, l, prices),
+    adx: calculateADX(h, l, c),
     bollingerUpper: bollinger?.upper || null,
     bollingerMiddle: bollinger?.middle || null,
     bollingerLower: bollinger?.lower || null,
     sma: calculateSMA(prices, 20),
     ema: calculateEMA(prices, 12),
     macd: calculateMACD(prices),
-    atr: calculateATR(h, l, prices),
+    atr: calculateATR(h, l, c),
+    stochastic: calculateStochastic(h, l, c),
+    cci: calculateCCI(h, l, c),
+    williamsR: calculateWilliamsR(h, l, c),
+    donchian: calculateDonchianChannels(h, l),
+    keltner: calculateKeltnerChannels(h, l, c),
+    supertrend: calculateSupertrend(h, l, c),
+    parabolicSar: calculateParabolicSAR(h, l),
+    hma: calculateHMA(prices),
+    roc: calculateROC(prices),
+  };
+}
+
+// ==================== Streaming Indicators ====================
+// Stateful counterparts of the functions above, updated in O(1) per value. Each returns the
+// same number as its batch function applied to every value pushed since the stream began.
+// The recursive indicators (RSI, EMA, MACD, ADX, ATR, Keltner, Supertrend, SAR) keep their seed
+// and smoothing from the first value on, so their values depend on how much history a stream was
+// built from. The gap is largest for ADX and ATR, whose Wilder smoothing forgets slowly. Streams
+// rebuilt with fromHistory should therefore always be given the same length of history; the
+// fixed-window indicators (SMA, Bollinger, HMA, ROC, Stochastic, CCI, Williams %R, Donchian) match
+// the batch functions over any window that covers their period.
+
+export interface PriceBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Sliding mean and population variance over the last `period` values
+class RollingWindow {
+  private values: number[] = [];
+  private head = 0;
+  private mean = 0;
+  private m2 = 0;
+
+  constructor(private period: number) {}
+
+  public push(value: number) {
+    if (this.values.length < this.period) {
+      this.values.push(value);
+      const delta = value - this.mean;
+      this.mean += delta / this.values.length;
+      this.m2 += delta * (value - this.mean);
+      return;
+    }
+
+    // Replace the oldest value (sliding Welford update)
+    const oldest = this.values[this.head];
+    this.values[this.head] = value;
+    this.head = (this.head + 1) % this.period;
+    const previousMean = this.mean;
+    this.mean += (value - oldest) / this.period;
+    this.m2 += (value - oldest) * (value - this.mean + oldest - previousMean);
+  }
+
+  public isFull(): boolean {
+    return this.values.length >= this.period;
+  }
+
+  public getMean(): number {
+    return this.mean;
+  }
+
+  public getVariance(): number {
+    return Math.max(0, this.m2) / this.period;
+  }
+}
+
+export class StreamingSMA {
+  private window: RollingWindow;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  public update(value: number): number | null {
+    this.window.push(value);
+    return this.window.isFull() ? this.window.getMean() : null;
+  }
+}
+
+interface EMAState {
+  count: number;
+  sum: number;
+  ema: number | null;
+}
+
+const EMPTY_EMA: EMAState = { count: 0, sum: 0, ema: null };
+
+function emaStep(state: EMAState, value: number, period: number): EMAState {
+  const count = state.count + 1;
+  if (count <= period) {
+    // Seeded with the SMA of the first `period` values
+    const sum = state.sum + value;
+    return { count, sum, ema: count === period ? sum / period : null };
+  }
+  const multiplier = 2 / (period + 1);
+  return { count, sum: state.sum, ema: (value - state.ema) * multiplier + state.ema };
+}
+
+export class StreamingEMA {
+  private state = EMPTY_EMA;
+
+  constructor(private period: number) {}
+
+  public update(value: number): number | null {
+    this.state = emaStep(this.state, value, this.period);
+    return this.state.ema;
+  }
+}
+
+export class StreamingRSI {
+  private previous: number | null = null;
+  private changes = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+
+  constructor(private period: number = 14) {}
+
+  public update(value: number): number | null {
+    if (this.previous === null) {
+      this.previous = value;
+      return null;
+    }
+
+    const change = value - this.previous;
+    this.previous = value;
+    this.changes++;
+    const gain = change > 0 ? change : 0;
+    const loss = change > 0 ? 0 : Math.abs(change);
+
+    if (this.changes <= this.period) {
+      // Initial average
+      this.avgGain += gain;
+      this.avgLoss += loss;
+      if (this.changes === this.period) {
+        this.avgGain /= this.period;
+        this.avgLoss /= this.period;
+      }
+    } else {
+      // Smoothed average
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    if (this.changes < this.period) return null;
+    if (this.avgLoss === 0) return 100;
+    return 100 - (100 / (1 + this.avgGain / this.avgLoss));
+  }
+}
+
+export class StreamingBollingerBands {
+  private window: RollingWindow;
+
+  constructor(period: number = 20, private stdDev: number = 2) {
+    this.window = new RollingWindow(period);
+  }
+
+  public update(value: number): { upper: number; middle: number; lower: number } | null {
+    this.window.push(value);
+    if (!this.window.isFull()) return null;
+
+    const middle = this.window.getMean();
+    const standardDeviation = Math.sqrt(this.window.getVariance());
+    return {
+      upper: middle + (standardDeviation * this.stdDev),
+      middle,
+      lower: middle - (standardDeviation * this.stdDev),
+    };
+  }
+}
+
+export class StreamingMACD {
+  private fast: StreamingEMA;
+  private slow: StreamingEMA;
+  private signal: StreamingEMA;
+  private count = 0;
+
+  constructor(
+    fastPeriod: number = 12,
+    private slowPeriod: number = 26,
+    private signalPeriod: number = 9
+  ) {
+    this.fast = new StreamingEMA(fastPeriod);
+    this.slow = new StreamingEMA(slowPeriod);
+    this.signal = new StreamingEMA(signalPeriod);
+  }
+
+  public update(value: number): { macd: number; signal: number; histogram: number } | null {
+    this.count++;
+    const fastEMA = this.fast.update(value);
+    const slowEMA = this.slow.update(value);
+    if (fastEMA === null || slowEMA === null) return null;
+
+    const macdLine = fastEMA - slowEMA;
+    const signalLine = this.signal.update(macdLine);
+    if (this.count < this.slowPeriod + this.signalPeriod || signalLine === null) return null;
+
+    return {
+      macd: macdLine,
+      signal: signalLine,
+      histogram: macdLine - signalLine,
+    };
+  }
+}
+
+function trueRange(bar: PriceBar, previous: PriceBar): number {
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previous.close),
+    Math.abs(bar.low - previous.close)
+  );
+}
+
+// Bar indicators accept revisions of the latest bar, for candles that are still forming.
+// State is immutable per step, so amending restores the state before that bar and reapplies it.
+abstract class StreamingBarIndicator<S, V = number> {
+  private committed: S;
+  private current: S;
+
+  constructor(initial: S) {
+    this.committed = initial;
+    this.current = initial;
+  }
+
+  public update(bar: PriceBar): V | null {
+    this.committed = this.current;
+    this.current = this.step(this.committed, bar);
+    return this.value(this.current);
+  }
+
+  // Replace the most recent bar
+  public amend(bar: PriceBar): V | null {
+    this.current = this.step(this.committed, bar);
+    return this.value(this.current);
+  }
+
+  protected abstract step(state: S, bar: PriceBar): S;
+  protected abstract value(state: S): V | null;
+}
+
+// Run a bar indicator over whole series and return its final value
+function replayBars<V>(
+  indicator: StreamingBarIndicator<unknown, V>,
+  highs: number[],
+  lows: number[],
+  closes: number[]
+): V | null {
+  let value: V | null = null;
+  for (let i = 0; i < closes.length; i++) {
+    value = indicator.update({ high: highs[i], low: lows[i], close: closes[i] });
+  }
+  return value;
+}
+
+interface ATRState {
+  previous: PriceBar | null;
+  count: number; // true ranges seen
+  sum: number;
+  atr: number;
+}
+
+const EMPTY_ATR: ATRState = { previous: null, count: 0, sum: 0, atr: 0 };
+
+// Wilder-smoothed ATR, seeded with the mean of the first `period` true ranges
+function atrStep(state: ATRState, bar: PriceBar, period: number): ATRState {
+  if (!state.previous) return { ...state, previous: bar };
+
+  const tr = trueRange(bar, state.previous);
+  const count = state.count + 1;
+  let { sum, atr } = state;
+  if (count <= period) {
+    sum += tr;
+    if (count === period) atr = sum / period;
+  } else {
+    atr = ((atr * (period - 1)) + tr) / period;
+  }
+  return { previous: bar, count, sum, atr };
+}
+
+export class StreamingATR extends StreamingBarIndicator<ATRState> {
+  constructor(private period: number = 14) {
+    super(EMPTY_ATR);
+  }
+
+  protected step(state: ATRState, bar: PriceBar): ATRState {
+    return atrStep(state, bar, this.period);
+  }
+
+  protected value(state: ATRState): number | null {
+    return state.count >= this.period ? state.atr : null;
+  }
+}
+
+interface KeltnerState {
+  ema: EMAState;
+  atr: ATRState;
+}
+
+export class StreamingKeltnerChannels extends StreamingBarIndicator<KeltnerState, Channel> {
+  constructor(
+    private emaPeriod: number = 20,
+    private atrPeriod: number = 10,
+    private multiplier: number = 2
+  ) {
+    super({ ema: EMPTY_EMA, atr: EMPTY_ATR });
+  }
+
+  protected step(state: KeltnerState, bar: PriceBar): KeltnerState {
+    return {
+      ema: emaStep(state.ema, bar.close, this.emaPeriod),
+      atr: atrStep(state.atr, bar, this.atrPeriod),
+    };
+  }
+
+  protected value(state: KeltnerState): Channel | null {
+    if (state.ema.ema === null || state.atr.count < this.atrPeriod) return null;
+    const width = state.atr.atr * this.multiplier;
+    return { upper: state.ema.ema + width, middle: state.ema.ema, lower: state.ema.ema - width };
+  }
+}
+
+interface SupertrendState {
+  atr: ATRState;
+  upper: number | null; // final bands, ratcheted toward price
+  lower: number | null;
+  direction: 'up' | 'down';
+}
+
+export class StreamingSupertrend extends StreamingBarIndicator<SupertrendState, TrendLevel> {
+  constructor(private period: number = 10, private multiplier: number = 3) {
+    super({ atr: EMPTY_ATR, upper: null, lower: null, direction: 'up' });
+  }
+
+  protected step(state: SupertrendState, bar: PriceBar): SupertrendState {
+    const atr = atrStep(state.atr, bar, this.period);
+    if (atr.count < this.period) return { ...state, atr };
+
+    const midpoint = (bar.high + bar.low) / 2;
+    const basicUpper = midpoint + this.multiplier * atr.atr;
+    const basicLower = midpoint - this.multiplier * atr.atr;
+
+    if (state.upper === null || state.lower === null) {
+      return { atr, upper: basicUpper, lower: basicLower, direction: bar.close >= midpoint ? 'up' : 'down' };
+    }
+
+    // Bands only tighten, unless the previous close broke through them
+    const previousClose = state.atr.previous.close;
+    const upper = basicUpper < state.upper || previousClose > state.upper ? basicUpper : state.upper;
+    const lower = basicLower > state.lower || previousClose < state.lower ? basicLower : state.lower;
+
+    let direction = state.direction;
+    if (direction === 'up' && bar.close < lower) direction = 'down';
+    else if (direction === 'down' && bar.close > upper) direction = 'up';
+
+    return { atr, upper, lower, direction };
+  }
+
+  protected value(state: SupertrendState): TrendLevel | null {
+    if (state.upper === null || state.lower === null) return null;
+    return { value: state.direction === 'up' ? state.lower : state.upper, direction: state.direction };
+  }
+}
+
+interface ParabolicSARState {
+  bars: number;
+  previous: PriceBar | null;
+  beforePrevious: PriceBar | null;
+  direction: 'up' | 'down';
+  sar: number;
+  extreme: number; // highest high in an uptrend, lowest low in a downtrend
+  acceleration: number;
+}
+
+export class StreamingParabolicSAR extends StreamingBarIndicator<ParabolicSARState, TrendLevel> {
+  constructor(private stepSize: number = 0.02, private maxStep: number = 0.2) {
+    super({ bars: 0, previous: null, beforePrevious: null, direction: 'up', sar: 0, extreme: 0, acceleration: 0 });
+  }
+
+  protected step(state: ParabolicSARState, bar: PriceBar): ParabolicSARState {
+    const next = { ...state, bars: state.bars + 1, previous: bar, beforePrevious: state.previous };
+    if (!state.previous) return next;
+
+    // Second bar: the trend starts in the direction of the midpoint move
+    if (state.bars === 1) {
+      const rising = bar.high + bar.low >= state.previous.high + state.previous.low;
+      return {
+        ...next,
+        direction: rising ? 'up' : 'down',
+        sar: rising ? Math.min(state.previous.low, bar.low) : Math.max(state.previous.high, bar.high),
+        extreme: rising ? Math.max(state.previous.high, bar.high) : Math.min(state.previous.low, bar.low),
+        acceleration: this.stepSize,
+      };
+    }
+
+    let sar = state.sar + state.acceleration * (state.extreme - state.sar);
+    if (state.direction === 'up') {
+      // SAR may not rise above the prior two lows
+      sar = Math.min(sar, state.previous.low, state.beforePrevious.low);
+      if (bar.low < sar) {
+        return { ...next, direction: 'down', sar: state.extreme, extreme: bar.low, acceleration: this.stepSize };
+      }
+      if (bar.high > state.extreme) {
+        return { ...next, sar, extreme: bar.high, acceleration: Math.min(this.maxStep, state.acceleration + this.stepSize) };
+      }
+    } else {
+      // SAR may not fall below the prior two highs
+      sar = Math.max(sar, state.previous.high, state.beforePrevious.high);
+      if (bar.high > sar) {
+        return { ...next, direction: 'up', sar: state.extreme, extreme: bar.high, acceleration: this.stepSize };
+      }
+      if (bar.low < state.extreme) {
+        return { ...next, sar, extreme: bar.low, acceleration: Math.min(this.maxStep, state.acceleration + this.stepSize) };
+      }
+    }
+    return { ...next, sar };
+  }
+
+  protected value(state: ParabolicSARState): TrendLevel | null {
+    return state.bars >= 2 ? { value: state.sar, direction: state.direction } : null;
+  }
+}
+
+interface ADXState {
+  previous: PriceBar | null;
+  bars: number;
+  smoothedTR: number;
+  smoothedPlusDM: number;
+  smoothedMinusDM: number;
+  dxCount: number;
+  dxSum: number;
+  adx: number;
+}
+
+export class StreamingADX extends StreamingBarIndicator<ADXState> {
+  constructor(private period: number = 14) {
+    super({
+      previous: null,
+      bars: 0,
+      smoothedTR: 0,
+      smoothedPlusDM: 0,
+      smoothedMinusDM: 0,
+      dxCount: 0,
+      dxSum: 0,
+      adx: 0,
+    });
+  }
+
+  protected step(state: ADXState, bar: PriceBar): ADXState {
+    const next = { ...state, previous: bar, bars: state.bars + 1 };
+    if (!state.previous) return next;
+
+    const highDiff = bar.high - state.previous.high;
+    const lowDiff = state.previous.low - bar.low;
+    const plusDM = highDiff > lowDiff && highDiff > 0 ? highDiff : 0;
+    const minusDM = lowDiff > highDiff && lowDiff > 0 ? lowDiff : 0;
+    const tr = trueRange(bar, state.previous);
+
+    // The first `period` moves seed the smoothed sums
+    const moves = next.bars - 1;
+    if (moves <= this.period) {
+      next.smoothedTR += tr;
+      next.smoothedPlusDM += plusDM;
+      next.smoothedMinusDM += minusDM;
+      return next;
+    }
+
+    next.smoothedTR = next.smoothedTR - (next.smoothedTR / this.period) + tr;
+    next.smoothedPlusDM = next.smoothedPlusDM - (next.smoothedPlusDM / this.period) + plusDM;
+    next.smoothedMinusDM = next.smoothedMinusDM - (next.smoothedMinusDM / this.period) + minusDM;
+
+    const plusDI = (next.smoothedPlusDM / next.smoothedTR) * 100;
+    const minusDI = (next.smoothedMinusDM / next.smoothedTR) * 100;
+    const diSum = plusDI + minusDI;
+    if (!(diSum > 0)) return next;
+
+    const dx = (Math.abs(plusDI - minusDI) / diSum) * 100;
+    next.dxCount++;
+    if (next.dxCount <= this.period) {
+      next.dxSum += dx;
+      if (next.dxCount === this.period) next.adx = next.dxSum / this.period;
+    } else {
+      // ADX is smoothed DX
+      next.adx = ((next.adx * (this.period - 1)) + dx) / this.period;
+    }
+    return next;
+  }
+
+  protected value(state: ADXState): number | null {
+    if (state.bars < this.period * 2 || state.dxCount < this.period) return null;
+    return state.adx;
+  }
+}
+
+// Longest lookback among the windowed indicators (HMA 16 + 4 - 1, CCI/Donchian 20), with headroom
+const RECENT_WINDOW = 32;
+
+// Streaming equivalent of calculateAllIndicators for one symbol: prices per tick, bars per candle
+export class StreamingIndicators {
+  private rsi = new StreamingRSI();
+  private sma = new StreamingSMA(20);
+  private ema = new StreamingEMA(12);
+  private bollinger = new StreamingBollingerBands();
+  private macd = new StreamingMACD();
+  private adx = new StreamingADX();
+  private atr = new StreamingATR();
+  private keltner = new StreamingKeltnerChannels();
+  private supertrend = new StreamingSupertrend();
+  private parabolicSar = new StreamingParabolicSAR();
+  private lastBarEpoch: number | null = null;
+  // Short windows for the indicators that only look back a fixed number of values
+  private recentPrices: number[] = [];
+  private recentBars: PriceBar[] = [];
+
+  private result: IndicatorResult = {
+    rsi: null,
+    adx: null,
+    bollingerUpper: null,
+    bollingerMiddle: null,
+    bollingerLower: null,
+    sma: null,
+    ema: null,
+    macd: null,
+    atr: null,
+    stochastic: null,
+    cci: null,
+    williamsR: null,
+    donchian: null,
+    keltner: null,
+    supertrend: null,
+    parabolicSar: null,
+    hma: null,
+    roc: null,
   };
+
+  // Rebuild from a price history and its bars (oldest first)
+  public static fromHistory(prices: number[], bars: (PriceBar & { epoch: number })[] = []): StreamingIndicators {
+    const stream = new StreamingIndicators();
+    prices.forEach(price => stream.update(price));
+    bars.forEach(bar => stream.updateBar(bar));
+    return stream;
+  }
+
+  public update(price: number): IndicatorResult {
+    const bollinger = this.bollinger.update(price);
+    this.recentPrices.push(price);
+    if (this.recentPrices.length > RECENT_WINDOW) {
+      this.recentPrices.shift();
+    }
+    this.result = {
+      ...this.result,
+      rsi: this.rsi.update(price),
+      bollingerUpper: bollinger?.upper || null,
+      bollingerMiddle: bollinger?.middle || null,
+      bollingerLower: bollinger?.lower || null,
+      sma: this.sma.update(price),
+      ema: this.ema.update(price),
+      macd: this.macd.update(price),
+      hma: calculateHMA(this.recentPrices),
+      roc: calculateROC(this.recentPrices),
+    };
+    return this.getResult();
+  }
+
+  // A bar with the same epoch as the previous one is a revision of a forming candle
+  public updateBar(bar: PriceBar & { epoch: number }): IndicatorResult {
+    const isRevision = bar.epoch === this.lastBarEpoch;
+    this.lastBarEpoch = bar.epoch;
+    if (isRevision) {
+      this.recentBars[this.recentBars.length - 1] = bar;
+    } else {
+      this.recentBars.push(bar);
+      if (this.recentBars.length > RECENT_WINDOW) {
+        this.recentBars.shift();
+      }
+    }
+
+    const highs = this.recentBars.map(b => b.high);
+    const lows = this.recentBars.map(b => b.low);
+    const closes = this.recentBars.map(b => b.close);
+    this.result = {
+      ...this.result,
+      adx: isRevision ? this.adx.amend(bar) : this.adx.update(bar),
+      atr: isRevision ? this.atr.amend(bar) : this.atr.update(bar),
+      stochastic: calculateStochastic(highs, lows, closes),
+      cci: calculateCCI(highs, lows, closes),
+      williamsR: calculateWilliamsR(highs, lows, closes),
+      donchian: calculateDonchianChannels(highs, lows),
+      keltner: isRevision ? this.keltner.amend(bar) : this.keltner.update(bar),
+      supertrend: isRevision ? this.supertrend.amend(bar) : this.supertrend.update(bar),
+      parabolicSar: isRevision ? this.parabolicSar.amend(bar) : this.parabolicSar.update(bar),
+    };
+    return this.getResult();
+  }
+
+  public getResult(): IndicatorResult {
+    return { ...this.result };
+  }
 }
@@ -0,0 +1,318 @@
+// Journal Store
+// Persists trades and log entries to IndexedDB so session history and open positions survive reloads
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import type { LogEntry, Trade } from './trading-engine';
+
+export interface JournalQuery {
+  from?: number; // ms, inclusive
+  to?: number; // ms, exclusive
+  symbol?: string;
+  limit?: number; // keep only the newest N
+}
+
+export interface RetentionSettings {
+  tradeRetentionDays: number; // 0 keeps trades forever
+  logRetentionDays: number; // 0 keeps logs forever
+  maxLogEntries: number;
+}
+
+export interface CompactionResult {
+  tradesDeleted: number;
+  logsDeleted: number;
+}
+
+export interface JournalCounts {
+  trades: number;
+  logs: number;
+}
+
+type RetentionHandler = (settings: RetentionSettings) => void;
+
+const DB_NAME = 'deriv-ascend';
+const DB_VERSION = 1;
+const TRADES = 'trades';
+const LOGS = 'logs';
+const META = 'meta';
+
+// Log entries arrive in bursts (one signal per tick), so they are written in batches
+const LOG_FLUSH_MS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+class JournalStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private pendingLogs: LogEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private retentionHandlers: RetentionHandler[] = [];
+  private retention: RetentionSettings = {
+    tradeRetentionDays: DERIV_CONFIG.STORAGE.TRADE_RETENTION_DAYS,
+    logRetentionDays: DERIV_CONFIG.STORAGE.LOG_RETENTION_DAYS,
+    maxLogEntries: DERIV_CONFIG.STORAGE.MAX_LOG_ENTRIES,
+  };
+
+  // False where IndexedDB does not exist (Node, some private browsing modes); every call is then a no-op
+  public isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public async saveTrade(trade: Trade): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    const transaction = db.transaction(TRADES, 'readwrite');
+    transaction.objectStore(TRADES).put({ ...trade });
+    await completion(transaction);
+  }
+
+  public saveLog(entry: LogEntry) {
+    if (!this.isAvailable()) return;
+
+    this.pendingLogs.push(entry);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flush().catch(error => console.warn('[Journal] Failed to write logs:', error));
+      }, LOG_FLUSH_MS);
+    }
+  }
+
+  // Write queued log entries now
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const entries = this.pendingLogs;
+    this.pendingLogs = [];
+
+    const db = await this.open();
+    if (!db || entries.length === 0) return;
+
+    const transaction = db.transaction(LOGS, 'readwrite');
+    const store = transaction.objectStore(LOGS);
+    entries.forEach(entry => store.add({ ...entry }));
+    await completion(transaction);
+  }
+
+  // Closed trades by close time, oldest first
+  public async queryTrades(query: JournalQuery = {}): Promise<Trade[]> {
+    return this.query<Trade>(TRADES, 'closeTime', query);
+  }
+
+  // Trades saved while still open. They have no close time, so the closeTime index leaves them out.
+  // Closed records without a result were written by earlier versions on shutdown and count as open.
+  public async queryOpenTrades(): Promise<Trade[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const trades = await promisify(db.transaction(TRADES, 'readonly').objectStore(TRADES).getAll());
+    return (trades as Trade[]).filter(trade => trade.status !== 'closed' || !trade.result);
+  }
+
+  // Log entries by timestamp, oldest first. Queued entries are written first so they are included.
+  public async queryLogs(query: JournalQuery = {}): Promise<LogEntry[]> {
+    await this.flush();
+    return this.query<LogEntry>(LOGS, 'timestamp', query);
+  }
+
+  public async getCounts(): Promise<JournalCounts> {
+    const db = await this.open();
+    if (!db) return { trades: 0, logs: 0 };
+
+    const transaction = db.transaction([TRADES, LOGS], 'readonly');
+    const [trades, logs] = await Promise.all([
+      promisify(transaction.objectStore(TRADES).count()),
+      promisify(transaction.objectStore(LOGS).count()),
+    ]);
+    return { trades, logs };
+  }
+
+  public getRetention(): RetentionSettings {
+    return { ...this.retention };
+  }
+
+  // Save new retention settings and compact to them at once
+  public async setRetention(settings: Partial<RetentionSettings>): Promise<CompactionResult> {
+    this.retention = { ...this.retention, ...settings };
+    this.retentionHandlers.forEach(handler => handler(this.getRetention()));
+
+    const db = await this.open();
+    if (!db) return { tradesDeleted: 0, logsDeleted: 0 };
+
+    const transaction = db.transaction(META, 'readwrite');
+    transaction.objectStore(META).put(this.retention, 'retention');
+    await completion(transaction);
+    return this.compact();
+  }
+
+  // Delete trades and logs older than the retention windows, then the oldest logs beyond the entry cap
+  public async compact(): Promise<CompactionResult> {
+    await this.flush();
+    const db = await this.open();
+    if (!db) return { tradesDeleted: 0, logsDeleted: 0 };
+
+    const now = Date.now();
+    const { tradeRetentionDays, logRetentionDays, maxLogEntries } = this.retention;
+    const tradesDeleted = tradeRetentionDays > 0
+      ? await this.deleteBefore(db, TRADES, 'closeTime', now - tradeRetentionDays * DAY_MS)
+      : 0;
+    let logsDeleted = logRetentionDays > 0
+      ? await this.deleteBefore(db, LOGS, 'timestamp', now - logRetentionDays * DAY_MS)
+      : 0;
+
+    const transaction = db.transaction(LOGS, 'readwrite');
+    const store = transaction.objectStore(LOGS);
+    let excess = (await promisify(store.count())) - maxLogEntries;
+    if (excess > 0) {
+      // Out-of-line keys increase with insertion, so key order is oldest first
+      await new Promise<void>((resolve, reject) => {
+        const request = store.openCursor();
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || excess <= 0) return resolve();
+          cursor.delete();
+          excess--;
+          logsDeleted++;
+          cursor.continue();
+        };
+      });
+    }
+    await completion(transaction);
+
+    if (tradesDeleted > 0 || logsDeleted > 0) {
+      console.log(`[Journal] Compacted ${tradesDeleted} trades and ${logsDeleted} log entries`);
+    }
+    return { tradesDeleted, logsDeleted };
+  }
+
+  public async clear(): Promise<void> {
+    this.pendingLogs = [];
+    const db = await this.open();
+    if (!db) return;
+
+    const transaction = db.transaction([TRADES, LOGS], 'readwrite');
+    transaction.objectStore(TRADES).clear();
+    transaction.objectStore(LOGS).clear();
+    await completion(transaction);
+  }
+
+  public onRetentionChange(handler: RetentionHandler) {
+    this.retentionHandlers.push(handler);
+  }
+
+  public offRetentionChange(handler: RetentionHandler) {
+    const index = this.retentionHandlers.indexOf(handler);
+    if (index > -1) {
+      this.retentionHandlers.splice(index, 1);
+    }
+  }
+
+  // Open (and on first use create) the database, load saved retention settings and start compaction
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = this.isAvailable()
+        ? this.openDatabase().catch(error => {
+            console.warn('[Journal] IndexedDB unavailable - history will not persist:', error);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this.db;
+  }
+
+  private async openDatabase(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const trades = db.createObjectStore(TRADES, { keyPath: 'id' });
+      trades.createIndex('closeTime', 'closeTime');
+      trades.createIndex('symbol_closeTime', ['symbol', 'closeTime']);
+      const logs = db.createObjectStore(LOGS, { autoIncrement: true });
+      logs.createIndex('timestamp', 'timestamp');
+      logs.createIndex('symbol_timestamp', ['symbol', 'timestamp']);
+      db.createObjectStore(META);
+    };
+    const db = await promisify(request);
+
+    const saved = await promisify(db.transaction(META, 'readonly').objectStore(META).get('retention'));
+    if (saved) {
+      this.retention = { ...this.retention, ...saved };
+      this.retentionHandlers.forEach(handler => handler(this.getRetention()));
+    }
+
+    // Compact once the open promise has settled, then periodically
+    setTimeout(() => this.runCompaction(), 0);
+    setInterval(() => this.runCompaction(), DERIV_CONFIG.STORAGE.COMPACT_INTERVAL_MS);
+    return db;
+  }
+
+  private runCompaction() {
+    this.compact().catch(error => console.warn('[Journal] Compaction failed:', error));
+  }
+
+  private async query<T>(storeName: string, timeField: string, query: JournalQuery): Promise<T[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    // Time bounds go through the plain index, or the [symbol, time] index when filtering by symbol
+    const from = query.from ?? 0;
+    const to = query.to ?? Infinity;
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(
+      query.symbol !== undefined ? `symbol_${timeField}` : timeField
+    );
+    const range = query.symbol !== undefined
+      ? IDBKeyRange.bound([query.symbol, from], [query.symbol, to], false, true)
+      : IDBKeyRange.bound(from, to, false, true);
+
+    // Walk newest first so a limit keeps the most recent records
+    const results: T[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(range, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (query.limit !== undefined && results.length >= query.limit)) return resolve();
+        results.push(cursor.value as T);
+        cursor.continue();
+      };
+    });
+    return results.reverse();
+  }
+
+  private async deleteBefore(db: IDBDatabase, storeName: string, timeField: string, cutoff: number): Promise<number> {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const index = transaction.objectStore(storeName).index(timeField);
+    let deleted = 0;
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        cursor.delete();
+        deleted++;
+        cursor.continue();
+      };
+    });
+    await completion(transaction);
+    return deleted;
+  }
+}
+
+// Singleton instance
+export const journalStore = new JournalStore();
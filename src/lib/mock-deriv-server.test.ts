@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ContractUpdate, derivWS, TickUpdate } from './deriv-websocket';
+import { MockDerivSocket } from './mock-deriv-server';
+import { withMockSession, waitFor } from './test-session';
+
+const SYMBOL = '1HZ100V'; // ticks every second
+
+describe('mock Deriv server', () => {
+  withMockSession();
+
+  it('echoes req_id so concurrent requests get their own replies', async () => {
+    const socket = new MockDerivSocket();
+    const frames: Record<string, unknown>[] = [];
+    socket.onmessage = event => frames.push(JSON.parse(event.data));
+    await waitFor(() => socket.readyState === 1);
+
+    socket.send(JSON.stringify({ ticks_history: SYMBOL, end: 'latest', count: 5, req_id: 7 }));
+    socket.send(JSON.stringify({ ping: 1, req_id: 8 }));
+    await waitFor(() => frames.length === 2);
+    socket.close();
+
+    const byReqId = new Map(frames.map(frame => [frame.req_id, frame]));
+    expect(byReqId.get(7)?.msg_type).toBe('history');
+    expect(byReqId.get(8)?.msg_type).toBe('ping');
+
+    // Through the client, the same correlation resolves each promise with its own response
+    const [history, balance] = await Promise.all([derivWS.getTickHistory(SYMBOL, 5), derivWS.getBalance()]);
+    expect(history).toHaveLength(5);
+    expect(balance.loginid).toMatch(/^VRTC/);
+  });
+
+  it('streams ticks for a subscribed symbol', async () => {
+    const ticks: TickUpdate[] = [];
+    const handler = (tick: TickUpdate) => ticks.push(tick);
+    derivWS.onTick(SYMBOL, handler);
+    derivWS.subscribeTicks(SYMBOL);
+
+    await waitFor(() => ticks.length >= 2);
+    derivWS.offTick(SYMBOL, handler);
+    derivWS.unsubscribeTicks(SYMBOL);
+
+    expect(ticks.every(tick => tick.symbol === SYMBOL)).toBe(true);
+    expect(ticks[1].epoch).toBeGreaterThan(ticks[0].epoch);
+  });
+
+  it('buys a contract and sells it back', async () => {
+    const before = await derivWS.getBalance();
+    const bought = await derivWS.buyContract(SYMBOL, { contractType: 'CALL', duration: 5, durationUnit: 'm' }, 10);
+    expect(bought.success).toBe(true);
+
+    // Resale opens once the contract has its entry spot
+    const updates: ContractUpdate[] = [];
+    derivWS.subscribeOpenContract(bought.contractId as string, update => updates.push(update));
+    await waitFor(() => updates.some(update => update.isValidToSell));
+
+    const sold = await derivWS.sellContract(bought.contractId as string);
+    expect(sold.success).toBe(true);
+    expect(sold.contractId).toBe(bought.contractId);
+
+    const settled = await waitFor(() => updates.find(update => update.isSold));
+    expect(settled.status).toBe('sold');
+    expect(settled.isValidToSell).toBe(false);
+    derivWS.unsubscribeOpenContract(bought.contractId as string);
+
+    const after = await derivWS.getBalance();
+    expect(after.balance).toBeCloseTo(before.balance - (bought.buyPrice as number) + (sold.sellPrice as number), 2);
+  });
+});
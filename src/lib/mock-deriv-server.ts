@@ -0,0 +1,962 @@
+// Mock Deriv WebSocket Server
+// In-process stand-in for ws.binaryws.com, selected with a mock:// WS URL.
+// Speaks the subset of the v3 protocol used by DerivWebSocket and supports fault injection.
+
+import type { ContractParameters, ContractType, DerivSocket, DurationUnit } from './deriv-websocket';
+import { getSymbolProfile, PriceGenerator, seedForSymbol } from './price-generator';
+import {
+  advanceContract,
+  contractBidPrice,
+  contractExpiryEpoch,
+  contractPayout,
+  durationInTicks,
+  roundTo,
+  SimulatedContract,
+} from './contract-pricing';
+import { describeContract, describeDuration, isResellable, validateContract } from './contract-types';
+
+export type MockFault =
+  | { type: 'rateLimit'; msgType?: string; count?: number }
+  | { type: 'delay'; ms: number; msgType?: string; count?: number }
+  | { type: 'authFailure'; count?: number }
+  | { type: 'drop'; afterMs?: number }
+  | { type: 'stall'; afterMs?: number }; // connections stay open but deliver nothing, like a half-open socket
+
+interface MockAccount {
+  loginid: string;
+  currency: string;
+  balance: number;
+  isVirtual: boolean;
+}
+
+interface MockContract extends SimulatedContract {
+  id: number;
+  transactionId: number;
+  currency: string;
+  purchaseTime: number;
+  entryTime: number | null;
+  status: 'open' | 'sold' | 'won' | 'lost';
+  sellPrice?: number;
+  sellTime?: number;
+  exitTick?: number;
+  owner: MockSession;
+}
+
+interface MockSession {
+  socket: MockDerivSocket;
+  account: MockAccount | null;
+  tickStreams: Map<string, { symbol: string; reqId?: number }>;
+  contractStreams: Map<string, { contractId: number; reqId?: number }>;
+  proposalStreams: Map<string, { request: MockRequest }>;
+  balanceStream: { id: string; reqId?: number } | null;
+  stalled: boolean;
+}
+
+type MockRequest = Record<string, unknown> & { req_id?: number };
+
+const REPLY_LATENCY_MS = 20;
+
+// Deriv serves at most 5000 ticks per ticks_history call
+const HISTORY_LIMIT = 5000;
+const HISTORY_PREFILL_TICKS = 1000;
+
+// Underlyings the mock lists in active_symbols, each priced by its generator profile
+const MOCK_SYMBOLS: Record<string, { displayName: string; submarket: string; submarketDisplayName: string }> = {
+  R_10: { displayName: 'Volatility 10 Index', submarket: 'random_index', submarketDisplayName: 'Continuous Indices' },
+  R_25: { displayName: 'Volatility 25 Index', submarket: 'random_index', submarketDisplayName: 'Continuous Indices' },
+  R_50: { displayName: 'Volatility 50 Index', submarket: 'random_index', submarketDisplayName: 'Continuous Indices' },
+  R_75: { displayName: 'Volatility 75 Index', submarket: 'random_index', submarketDisplayName: 'Continuous Indices' },
+  R_100: { displayName: 'Volatility 100 Index', submarket: 'random_index', submarketDisplayName: 'Continuous Indices' },
+  '1HZ100V': { displayName: 'Volatility 100 (1s) Index', submarket: 'random_index', submarketDisplayName: 'Continuous Indices' },
+  JD10: { displayName: 'Jump 10 Index', submarket: 'jump_index', submarketDisplayName: 'Jump Indices' },
+  JD25: { displayName: 'Jump 25 Index', submarket: 'jump_index', submarketDisplayName: 'Jump Indices' },
+  JD50: { displayName: 'Jump 50 Index', submarket: 'jump_index', submarketDisplayName: 'Jump Indices' },
+  JD100: { displayName: 'Jump 100 Index', submarket: 'jump_index', submarketDisplayName: 'Jump Indices' },
+  stpRNG: { displayName: 'Step Index', submarket: 'step_index', submarketDisplayName: 'Step Indices' },
+  BOOM500: { displayName: 'Boom 500 Index', submarket: 'crash_index', submarketDisplayName: 'Crash/Boom Indices' },
+  BOOM1000: { displayName: 'Boom 1000 Index', submarket: 'crash_index', submarketDisplayName: 'Crash/Boom Indices' },
+  CRASH500: { displayName: 'Crash 500 Index', submarket: 'crash_index', submarketDisplayName: 'Crash/Boom Indices' },
+  CRASH1000: { displayName: 'Crash 1000 Index', submarket: 'crash_index', submarketDisplayName: 'Crash/Boom Indices' },
+};
+
+// contracts_for entries: [contract_category, display, contract types, barriers, min, max, expiry_type]
+const MOCK_OFFERINGS: [string, string, string[], number, string, string, string][] = [
+  ['callput', 'Ups & Downs', ['CALL', 'PUT'], 0, '1t', '10t', 'tick'],
+  ['callput', 'Highs & Lows', ['CALL', 'PUT'], 1, '5t', '10t', 'tick'],
+  ['digits', 'Digits', ['DIGITEVEN', 'DIGITODD', 'DIGITOVER', 'DIGITUNDER', 'DIGITMATCH', 'DIGITDIFF'], 0, '1t', '10t', 'tick'],
+  ['touchnotouch', 'Touch/No Touch', ['ONETOUCH', 'NOTOUCH'], 1, '5t', '10t', 'tick'],
+  ['multiplier', 'Multiply Up/Multiply Down', ['MULTUP', 'MULTDOWN'], 0, '', '', 'no_expiry'],
+];
+const MOCK_MULTIPLIERS = [10, 20, 40, 100, 200];
+
+// Crash/Boom indices trade rise/fall and multipliers only
+const CRASH_BOOM_CATEGORIES = ['callput', 'multiplier'];
+
+// WebSocket readyState values, without relying on a global WebSocket (absent in Node test runners)
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+class MockDerivServer {
+  private sessions: Set<MockSession> = new Set();
+  private symbols: Map<string, PriceGenerator> = new Map();
+  private lastTicks: Map<string, { quote: number; epoch: number }> = new Map();
+  private tickHistory: Map<string, { quote: number; epoch: number }[]> = new Map();
+  private tickTimers: Map<string, ReturnType<typeof setInterval>> = new Map();
+  private contracts: Map<number, MockContract> = new Map();
+  private accounts: Map<string, MockAccount> = new Map();
+  private faults: MockFault[] = [];
+  private nextContractId = 100000;
+  private nextTransactionId = 500000;
+  private nextStreamId = 1;
+  private seeded = false;
+
+  // Restart every symbol's price path from a fixed seed for reproducible runs.
+  // The path is prefilled with past ticks so ticks_history has data from the start.
+  public reseed(seed: number) {
+    this.seeded = true;
+    const now = Math.floor(Date.now() / 1000);
+    Object.keys(MOCK_SYMBOLS).forEach(symbol => {
+      const intervalSeconds = getSymbolProfile(symbol).tickIntervalMs / 1000;
+      const generator = new PriceGenerator(symbol, {
+        seed: seedForSymbol(seed, symbol),
+        startEpoch: now - HISTORY_PREFILL_TICKS * intervalSeconds,
+      });
+      const history = generator.take(HISTORY_PREFILL_TICKS).map(({ quote, epoch }) => ({ quote, epoch }));
+
+      this.symbols.set(symbol, generator);
+      this.tickHistory.set(symbol, history);
+      this.lastTicks.set(symbol, history[history.length - 1]);
+    });
+  }
+
+  // ==================== Fault injection ====================
+
+  public injectFault(fault: MockFault) {
+    if (fault.type === 'drop') {
+      setTimeout(() => this.dropConnections(), fault.afterMs || 0);
+      return;
+    }
+    if (fault.type === 'stall') {
+      setTimeout(() => this.sessions.forEach(session => { session.stalled = true; }), fault.afterMs || 0);
+      return;
+    }
+    this.faults.push({ ...fault });
+  }
+
+  public clearFaults() {
+    this.faults = [];
+  }
+
+  public dropConnections() {
+    Array.from(this.sessions).forEach(session => session.socket.serverClose());
+  }
+
+  public setAccount(token: string, account: MockAccount) {
+    this.accounts.set(token, { ...account });
+  }
+
+  // ==================== Connection lifecycle ====================
+
+  public attach(socket: MockDerivSocket) {
+    // Prefilling every symbol's history is too much work to do before anything connects
+    if (!this.seeded) {
+      this.reseed(Date.now());
+    }
+    const session: MockSession = {
+      socket,
+      account: null,
+      tickStreams: new Map(),
+      contractStreams: new Map(),
+      proposalStreams: new Map(),
+      balanceStream: null,
+      stalled: false,
+    };
+    this.sessions.add(session);
+    this.startTicks();
+    return session;
+  }
+
+  public detach(session: MockSession) {
+    this.sessions.delete(session);
+    if (this.sessions.size === 0) {
+      this.stopTicks();
+    }
+  }
+
+  private startTicks() {
+    this.symbols.forEach((generator, symbol) => {
+      if (this.tickTimers.has(symbol)) return;
+      this.tickTimers.set(symbol, setInterval(() => this.publishTick(symbol), generator.profile.tickIntervalMs));
+    });
+  }
+
+  private stopTicks() {
+    this.tickTimers.forEach(timer => clearInterval(timer));
+    this.tickTimers.clear();
+  }
+
+  // ==================== Request handling ====================
+
+  public receive(session: MockSession, raw: string) {
+    let request: MockRequest;
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      this.reply(session, { msg_type: 'error' }, {}, { code: 'InputValidationFailed', message: 'Malformed JSON' });
+      return;
+    }
+
+    const msgType = this.resolveMsgType(request);
+    const fault = this.takeFault(msgType);
+
+    if (fault?.type === 'rateLimit') {
+      this.reply(session, request, { msg_type: msgType }, {
+        code: 'RateLimit',
+        message: `You have reached the rate limit for ${msgType}.`,
+      });
+      return;
+    }
+
+    const delay = fault?.type === 'delay' ? fault.ms : 0;
+    setTimeout(() => this.dispatch(session, request, msgType, fault), delay);
+  }
+
+  private dispatch(session: MockSession, request: MockRequest, msgType: string, fault?: MockFault) {
+    if (!this.sessions.has(session)) return;
+
+    switch (msgType) {
+      case 'authorize':
+        return this.handleAuthorize(session, request, fault?.type === 'authFailure');
+      case 'ping':
+        return this.reply(session, request, { msg_type: 'ping', ping: 'pong' });
+      case 'tick':
+        return this.handleTicks(session, request);
+      case 'ticks_history':
+        return this.handleTicksHistory(session, request);
+      case 'forget':
+        return this.handleForget(session, request);
+      case 'forget_all':
+        return this.handleForgetAll(session, request);
+      case 'get_settings':
+        return this.reply(session, request, { msg_type: 'get_settings', get_settings: {} });
+      case 'proposal':
+        return this.handleProposal(session, request);
+      case 'active_symbols':
+        return this.handleActiveSymbols(session, request);
+      case 'contracts_for':
+        return this.handleContractsFor(session, request);
+    }
+
+    if (!session.account) {
+      this.reply(session, request, { msg_type: msgType }, {
+        code: 'AuthorizationRequired',
+        message: 'Please log in.',
+      });
+      return;
+    }
+
+    switch (msgType) {
+      case 'buy':
+        return this.handleBuy(session, request);
+      case 'sell':
+        return this.handleSell(session, request);
+      case 'proposal_open_contract':
+        return this.handleOpenContract(session, request);
+      case 'balance':
+        return this.handleBalance(session, request);
+      case 'portfolio':
+        return this.handlePortfolio(session, request);
+      default:
+        this.reply(session, request, { msg_type: msgType }, {
+          code: 'UnrecognisedRequest',
+          message: 'Unrecognised request.',
+        });
+    }
+  }
+
+  private resolveMsgType(request: MockRequest): string {
+    if ('ticks' in request) return 'tick';
+    const known = ['authorize', 'ping', 'ticks_history', 'forget_all', 'forget', 'get_settings', 'active_symbols',
+      'contracts_for', 'proposal', 'buy', 'sell', 'proposal_open_contract', 'balance', 'portfolio'];
+    return known.find(key => key in request) || Object.keys(request).find(key => key !== 'req_id') || 'unknown';
+  }
+
+  private takeFault(msgType: string): MockFault | undefined {
+    const index = this.faults.findIndex(fault => {
+      if (fault.type === 'authFailure') return msgType === 'authorize';
+      if (fault.type === 'rateLimit' || fault.type === 'delay') return !fault.msgType || fault.msgType === msgType;
+      return false;
+    });
+    if (index === -1) return undefined;
+
+    const fault = this.faults[index];
+    if ('count' in fault && fault.count !== undefined) {
+      fault.count--;
+      if (fault.count <= 0) this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private handleAuthorize(session: MockSession, request: MockRequest, failAuth: boolean) {
+    const token = String(request.authorize || '');
+
+    if (!token || failAuth) {
+      this.reply(session, request, { msg_type: 'authorize' }, {
+        code: 'InvalidToken',
+        message: 'The token is invalid.',
+      });
+      return;
+    }
+
+    // Tokens from the OAuth stand-in name their account (mock_CR1234567_...); otherwise tokens
+    // starting with 'real' open a real-money (CR) account and anything else a demo one
+    if (!this.accounts.has(token)) {
+      const named = /^mock_((?:VRTC|CR)\d{7})_/.exec(token);
+      const isVirtual = named ? named[1].startsWith('VRTC') : !token.startsWith('real');
+      this.accounts.set(token, {
+        loginid: named ? named[1] : `${isVirtual ? 'VRTC' : 'CR'}${String(this.accounts.size + 1).padStart(7, '0')}`,
+        currency: 'USD',
+        balance: isVirtual ? 10000 : 1000,
+        isVirtual,
+      });
+    }
+    const account = this.accounts.get(token);
+    session.account = account;
+
+    this.reply(session, request, {
+      msg_type: 'authorize',
+      authorize: {
+        loginid: account.loginid,
+        currency: account.currency,
+        balance: account.balance,
+        is_virtual: account.isVirtual ? 1 : 0,
+        email: 'mock@example.com',
+        fullname: 'Mock Trader',
+        landing_company_name: account.isVirtual ? 'virtual' : 'svg',
+        account_list: [{ loginid: account.loginid, currency: account.currency, is_virtual: account.isVirtual ? 1 : 0 }],
+      },
+    });
+  }
+
+  private handleTicks(session: MockSession, request: MockRequest) {
+    const symbol = String(request.ticks);
+    if (!this.symbols.has(symbol)) {
+      this.reply(session, request, { msg_type: 'tick' }, {
+        code: 'InvalidSymbol',
+        message: `Symbol ${symbol} is invalid.`,
+      });
+      return;
+    }
+
+    const alreadySubscribed = Array.from(session.tickStreams.values()).some(s => s.symbol === symbol);
+    if (request.subscribe === 1 && alreadySubscribed) {
+      this.reply(session, request, { msg_type: 'tick' }, {
+        code: 'AlreadySubscribed',
+        message: `You are already subscribed to ${symbol}.`,
+      });
+      return;
+    }
+
+    const tick = this.tickPayload(symbol);
+    if (request.subscribe === 1) {
+      const id = this.streamId();
+      session.tickStreams.set(id, { symbol, reqId: request.req_id });
+      this.reply(session, request, { msg_type: 'tick', tick: { ...tick, id }, subscription: { id } });
+    } else {
+      this.reply(session, request, { msg_type: 'tick', tick });
+    }
+  }
+
+  private handleTicksHistory(session: MockSession, request: MockRequest) {
+    const symbol = String(request.ticks_history);
+    const style = request.style === 'candles' ? 'candles' : 'ticks';
+    const msgType = style === 'candles' ? 'candles' : 'history';
+    const history = this.tickHistory.get(symbol);
+    if (!history) {
+      this.reply(session, request, { msg_type: msgType }, {
+        code: 'InvalidSymbol',
+        message: `Symbol ${symbol} is invalid.`,
+      });
+      return;
+    }
+
+    const end = request.end === 'latest' || request.end === undefined ? Infinity : Number(request.end);
+    const start = request.start !== undefined ? Number(request.start) : -Infinity;
+    const count = Math.min(HISTORY_LIMIT, Number(request.count) || HISTORY_LIMIT);
+    const inRange = history.filter(t => t.epoch >= start && t.epoch <= end);
+
+    if (style === 'ticks') {
+      const ticks = inRange.slice(-count);
+      this.reply(session, request, {
+        msg_type: 'history',
+        history: { prices: ticks.map(t => t.quote), times: ticks.map(t => t.epoch) },
+        pip_size: this.symbols.get(symbol).profile.decimals,
+      });
+      return;
+    }
+
+    const granularity = Number(request.granularity) || 60;
+    const candles: { epoch: number; open: number; high: number; low: number; close: number }[] = [];
+    inRange.forEach(({ quote, epoch }) => {
+      const open = epoch - (epoch % granularity);
+      const last = candles[candles.length - 1];
+      if (last && last.epoch === open) {
+        last.high = Math.max(last.high, quote);
+        last.low = Math.min(last.low, quote);
+        last.close = quote;
+      } else {
+        candles.push({ epoch: open, open: quote, high: quote, low: quote, close: quote });
+      }
+    });
+    this.reply(session, request, { msg_type: 'candles', candles: candles.slice(-count) });
+  }
+
+  private handleForget(session: MockSession, request: MockRequest) {
+    const id = String(request.forget);
+    let removed = session.tickStreams.delete(id) || session.contractStreams.delete(id) || session.proposalStreams.delete(id);
+    if (session.balanceStream?.id === id) {
+      session.balanceStream = null;
+      removed = true;
+    }
+    this.reply(session, request, { msg_type: 'forget', forget: removed ? 1 : 0 });
+  }
+
+  private handleForgetAll(session: MockSession, request: MockRequest) {
+    const types = ([] as unknown[]).concat(request.forget_all).map(String);
+    const forgotten: string[] = [];
+
+    if (types.includes('ticks')) {
+      forgotten.push(...session.tickStreams.keys());
+      session.tickStreams.clear();
+    }
+    if (types.includes('proposal')) {
+      forgotten.push(...session.proposalStreams.keys());
+      session.proposalStreams.clear();
+    }
+    if (types.includes('proposal_open_contract')) {
+      forgotten.push(...session.contractStreams.keys());
+      session.contractStreams.clear();
+    }
+    if (types.includes('balance') && session.balanceStream) {
+      forgotten.push(session.balanceStream.id);
+      session.balanceStream = null;
+    }
+
+    this.reply(session, request, { msg_type: 'forget_all', forget_all: forgotten });
+  }
+
+  private handleActiveSymbols(session: MockSession, request: MockRequest) {
+    const activeSymbols = Object.entries(MOCK_SYMBOLS).map(([symbol, info]) => ({
+      symbol,
+      display_name: info.displayName,
+      market: 'synthetic_index',
+      market_display_name: 'Derived',
+      submarket: info.submarket,
+      submarket_display_name: info.submarketDisplayName,
+      pip: Math.pow(10, -getSymbolProfile(symbol).decimals),
+      exchange_is_open: 1,
+      is_trading_suspended: 0,
+      symbol_type: 'stockindex',
+    }));
+    this.reply(session, request, { msg_type: 'active_symbols', active_symbols: activeSymbols });
+  }
+
+  private handleContractsFor(session: MockSession, request: MockRequest) {
+    const symbol = String(request.contracts_for);
+    const info = MOCK_SYMBOLS[symbol];
+    if (!info) {
+      this.reply(session, request, { msg_type: 'contracts_for' }, { code: 'InvalidSymbol', message: `Symbol ${symbol} is invalid.` });
+      return;
+    }
+
+    const available = MOCK_OFFERINGS
+      .filter(([category]) => info.submarket !== 'crash_index' || CRASH_BOOM_CATEGORIES.includes(category))
+      .flatMap(([category, display, types, barriers, min, max, expiryType]) => types.map(contractType => ({
+        contract_type: contractType,
+        contract_category: category,
+        contract_category_display: display,
+        expiry_type: expiryType,
+        min_contract_duration: min,
+        max_contract_duration: max,
+        barriers,
+        market: 'synthetic_index',
+        submarket: info.submarket,
+        underlying_symbol: symbol,
+        start_type: 'spot',
+        ...(category === 'digits' && { last_digit_range: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] }),
+        ...(category === 'multiplier' && { multiplier_range: MOCK_MULTIPLIERS }),
+      })));
+    this.reply(session, request, {
+      msg_type: 'contracts_for',
+      contracts_for: { available, hit_count: available.length, spot: this.lastTicks.get(symbol).quote },
+    });
+  }
+
+  // Proposals are public, like ticks; subscribed quotes are repriced on every tick of the symbol
+  private handleProposal(session: MockSession, request: MockRequest) {
+    const quote = this.quoteProposal(request);
+    if ('error' in quote) {
+      this.reply(session, request, { msg_type: 'proposal' }, quote.error);
+      return;
+    }
+
+    if (request.subscribe === 1) {
+      const id = this.streamId();
+      session.proposalStreams.set(id, { request });
+      this.reply(session, request, { msg_type: 'proposal', proposal: { ...quote.proposal, id }, subscription: { id } });
+      return;
+    }
+    this.reply(session, request, { msg_type: 'proposal', proposal: { ...quote.proposal, id: this.streamId() } });
+  }
+
+  private handleBuy(session: MockSession, request: MockRequest) {
+    const params = (request.parameters || {}) as Record<string, unknown>;
+    const symbol = String(params.symbol);
+    const amount = Number(params.amount);
+    const parameters = this.parseContract(params);
+    const account = session.account;
+
+    if (!this.symbols.has(symbol)) {
+      this.reply(session, request, { msg_type: 'buy' }, { code: 'InvalidSymbol', message: `Symbol ${symbol} is invalid.` });
+      return;
+    }
+    const invalid = validateContract(parameters) || (this.isOffered(symbol, parameters) ? null : 'Trading is not offered for this asset.');
+    if (invalid) {
+      this.reply(session, request, { msg_type: 'buy' }, { code: 'OfferingsValidationError', message: invalid });
+      return;
+    }
+    if (!(amount > 0) || amount > account.balance) {
+      this.reply(session, request, { msg_type: 'buy' }, {
+        code: 'InsufficientBalance',
+        message: 'Your account balance is insufficient to buy this contract.',
+      });
+      return;
+    }
+
+    const spot = this.symbols.get(symbol).getPrice();
+    const payout = contractPayout(symbol, parameters, amount, spot);
+    const now = Math.floor(Date.now() / 1000);
+    const contract: MockContract = {
+      id: this.nextContractId++,
+      transactionId: this.nextTransactionId++,
+      symbol,
+      parameters,
+      buyPrice: amount,
+      payout,
+      currency: account.currency,
+      purchaseTime: now,
+      expiryEpoch: contractExpiryEpoch(parameters, now),
+      entrySpot: null,
+      entryTime: null,
+      currentSpot: spot,
+      barrierSpot: null,
+      ticksSeen: 0,
+      status: 'open',
+      owner: session,
+    };
+    this.contracts.set(contract.id, contract);
+    this.adjustBalance(account, -amount);
+
+    const duration = describeDuration(parameters);
+    this.reply(session, request, {
+      msg_type: 'buy',
+      buy: {
+        contract_id: contract.id,
+        buy_price: amount,
+        balance_after: account.balance,
+        payout,
+        purchase_time: now,
+        start_time: now,
+        transaction_id: contract.transactionId,
+        longcode: this.longcode(symbol, parameters),
+        shortcode: `${parameters.contractType}_${symbol}_${payout}_${now}_${duration.toUpperCase()}_S0P_0`,
+      },
+    });
+  }
+
+  // Whether contracts_for lists the contract's category for the symbol
+  private isOffered(symbol: string, parameters: ContractParameters): boolean {
+    const offering = MOCK_OFFERINGS.find(([, , types]) => types.includes(parameters.contractType));
+    return MOCK_SYMBOLS[symbol].submarket !== 'crash_index' || CRASH_BOOM_CATEGORIES.includes(offering?.[0]);
+  }
+
+  // Contract terms from proposal or buy parameters
+  private parseContract(params: Record<string, unknown>): ContractParameters {
+    const limitOrder = params.limit_order as { take_profit?: number; stop_loss?: number } | undefined;
+    return {
+      contractType: String(params.contract_type) as ContractType,
+      duration: params.duration !== undefined ? Number(params.duration) : undefined,
+      durationUnit: params.duration_unit !== undefined ? params.duration_unit as DurationUnit : undefined,
+      barrier: params.barrier !== undefined ? String(params.barrier) : undefined,
+      multiplier: params.multiplier !== undefined ? Number(params.multiplier) : undefined,
+      limitOrder: limitOrder ? { takeProfit: limitOrder.take_profit, stopLoss: limitOrder.stop_loss } : undefined,
+    };
+  }
+
+  // Price a proposal request at the current spot, without an id
+  private quoteProposal(request: MockRequest):
+    | { proposal: Record<string, unknown> }
+    | { error: { code: string; message: string } } {
+    const symbol = String(request.symbol);
+    const amount = Number(request.amount);
+    const parameters = this.parseContract(request);
+
+    if (!this.symbols.has(symbol)) {
+      return { error: { code: 'InvalidSymbol', message: `Symbol ${symbol} is invalid.` } };
+    }
+    const invalid = validateContract(parameters);
+    if (invalid) {
+      return { error: { code: 'OfferingsValidationError', message: invalid } };
+    }
+    if (!this.isOffered(symbol, parameters)) {
+      return { error: { code: 'OfferingsValidationError', message: 'Trading is not offered for this asset.' } };
+    }
+    if (!(amount > 0)) {
+      return { error: { code: 'ContractBuyValidationError', message: 'Please enter a stake amount.' } };
+    }
+
+    const spot = this.symbols.get(symbol).getPrice();
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      proposal: {
+        ask_price: amount,
+        payout: contractPayout(symbol, parameters, amount, spot),
+        spot,
+        spot_time: this.lastTicks.get(symbol)?.epoch ?? now,
+        date_start: now,
+        display_value: amount.toFixed(2),
+        longcode: this.longcode(symbol, parameters),
+      },
+    };
+  }
+
+  private longcode(symbol: string, parameters: ContractParameters): string {
+    const duration = describeDuration(parameters);
+    return `${describeContract(parameters)} on ${symbol}, ${duration === 'open' ? 'open-ended' : `expiring after ${duration}`}.`;
+  }
+
+  private handleSell(session: MockSession, request: MockRequest) {
+    const contract = this.contracts.get(Number(request.sell));
+    if (!contract || contract.owner.account !== session.account) {
+      this.reply(session, request, { msg_type: 'sell' }, { code: 'InvalidContractId', message: 'Contract not found.' });
+      return;
+    }
+    if (contract.status !== 'open' || contract.entrySpot === null || !isResellable(contract.parameters)) {
+      this.reply(session, request, { msg_type: 'sell' }, {
+        code: 'InvalidSellContractProposal',
+        message: 'Resale of this contract is not offered.',
+      });
+      return;
+    }
+
+    const bid = contractBidPrice(contract, Math.floor(Date.now() / 1000));
+    contract.status = 'sold';
+    contract.sellPrice = bid;
+    contract.sellTime = Math.floor(Date.now() / 1000);
+    this.adjustBalance(session.account, bid);
+
+    this.reply(session, request, {
+      msg_type: 'sell',
+      sell: {
+        contract_id: contract.id,
+        sold_for: bid,
+        balance_after: session.account.balance,
+        transaction_id: this.nextTransactionId++,
+        reference_id: contract.transactionId,
+      },
+    });
+    this.publishContract(contract);
+  }
+
+  private handleOpenContract(session: MockSession, request: MockRequest) {
+    const contract = this.contracts.get(Number(request.contract_id));
+    if (!contract || contract.owner.account !== session.account) {
+      this.reply(session, request, { msg_type: 'proposal_open_contract' }, {
+        code: 'InvalidContractId',
+        message: 'Contract not found.',
+      });
+      return;
+    }
+
+    const payload = this.contractPayload(contract);
+    if (request.subscribe === 1 && contract.status === 'open') {
+      const id = this.streamId();
+      session.contractStreams.set(id, { contractId: contract.id, reqId: request.req_id });
+      this.reply(session, request, { msg_type: 'proposal_open_contract', proposal_open_contract: payload, subscription: { id } });
+    } else {
+      this.reply(session, request, { msg_type: 'proposal_open_contract', proposal_open_contract: payload });
+    }
+  }
+
+  private handleBalance(session: MockSession, request: MockRequest) {
+    const account = session.account;
+    const payload = { balance: account.balance, currency: account.currency, loginid: account.loginid };
+
+    if (request.subscribe === 1) {
+      if (session.balanceStream) {
+        this.reply(session, request, { msg_type: 'balance' }, {
+          code: 'AlreadySubscribed',
+          message: 'You are already subscribed to balance.',
+        });
+        return;
+      }
+      const id = this.streamId();
+      session.balanceStream = { id, reqId: request.req_id };
+      this.reply(session, request, { msg_type: 'balance', balance: { ...payload, id }, subscription: { id } });
+    } else {
+      this.reply(session, request, { msg_type: 'balance', balance: payload });
+    }
+  }
+
+  private handlePortfolio(session: MockSession, request: MockRequest) {
+    const contracts = Array.from(this.contracts.values())
+      .filter(c => c.owner.account === session.account && c.status === 'open')
+      .map(c => ({
+        contract_id: c.id,
+        symbol: c.symbol,
+        contract_type: c.parameters.contractType,
+        buy_price: c.buyPrice,
+        payout: c.payout,
+        purchase_time: c.purchaseTime,
+        date_start: c.purchaseTime,
+        expiry_time: this.expiryTime(c),
+        currency: c.currency,
+        transaction_id: c.transactionId,
+      }));
+
+    this.reply(session, request, { msg_type: 'portfolio', portfolio: { contracts } });
+  }
+
+  // ==================== Market simulation ====================
+
+  private publishTick(symbol: string) {
+    const next = this.symbols.get(symbol).next();
+    // Stamp with wall-clock time so the feed looks live
+    const last = { quote: next.quote, epoch: Math.floor(Date.now() / 1000) };
+    this.lastTicks.set(symbol, last);
+
+    const history = this.tickHistory.get(symbol);
+    history.push(last);
+    if (history.length > HISTORY_LIMIT) {
+      history.shift();
+    }
+
+    const tick = this.tickPayload(symbol);
+    this.sessions.forEach(session => {
+      session.tickStreams.forEach((stream, id) => {
+        if (stream.symbol === symbol) {
+          this.push(session, { msg_type: 'tick', echo_req: { ticks: symbol, subscribe: 1 }, req_id: stream.reqId, tick: { ...tick, id }, subscription: { id } });
+        }
+      });
+    });
+
+    this.sessions.forEach(session => {
+      session.proposalStreams.forEach((stream, id) => {
+        if (stream.request.symbol !== symbol) return;
+        const quote = this.quoteProposal(stream.request);
+        if ('proposal' in quote) {
+          this.reply(session, stream.request, { msg_type: 'proposal', proposal: { ...quote.proposal, id }, subscription: { id } });
+        }
+      });
+    });
+
+    this.contracts.forEach(contract => {
+      if (contract.symbol === symbol && contract.status === 'open') {
+        this.advanceContract(contract, tick.quote, tick.epoch);
+      }
+    });
+  }
+
+  // See advanceContract for entry, barrier, limit order and expiry rules
+  private advanceContract(contract: MockContract, quote: number, epoch: number) {
+    const isEntryTick = contract.entrySpot === null;
+    const settlement = advanceContract(contract, quote, epoch);
+    if (isEntryTick) {
+      contract.entryTime = epoch;
+    }
+
+    if (settlement) {
+      contract.status = settlement.status;
+      contract.sellPrice = settlement.sellPrice;
+      contract.sellTime = epoch;
+      contract.exitTick = quote;
+      if (settlement.sellPrice > 0 && contract.owner.account) {
+        this.adjustBalance(contract.owner.account, settlement.sellPrice);
+      }
+    }
+
+    this.publishContract(contract);
+  }
+
+  // Tick contracts have no fixed expiry time; estimate from the tick interval.
+  // Multipliers run until closed, which Deriv reports as a far-off expiry.
+  private expiryTime(contract: MockContract): number {
+    if (contract.expiryEpoch !== null) return contract.expiryEpoch;
+    if (contract.parameters.duration === undefined) return contract.purchaseTime + 365 * 86400;
+    const tickSeconds = this.symbols.get(contract.symbol).profile.tickIntervalMs / 1000;
+    return contract.purchaseTime + Math.ceil(durationInTicks(contract.symbol, contract.parameters) * tickSeconds);
+  }
+
+  private contractPayload(contract: MockContract) {
+    const isOpen = contract.status === 'open';
+    const bid = isOpen ? contractBidPrice(contract, Math.floor(Date.now() / 1000)) : contract.sellPrice;
+
+    return {
+      contract_id: contract.id,
+      underlying: contract.symbol,
+      contract_type: contract.parameters.contractType,
+      currency: contract.currency,
+      buy_price: contract.buyPrice,
+      bid_price: bid,
+      payout: contract.payout,
+      profit: roundTo(bid - contract.buyPrice, 2),
+      profit_percentage: roundTo(((bid - contract.buyPrice) / contract.buyPrice) * 100, 2),
+      is_sold: isOpen ? 0 : 1,
+      is_expired: contract.status === 'won' || contract.status === 'lost' ? 1 : 0,
+      is_settleable: contract.status === 'won' || contract.status === 'lost' ? 1 : 0,
+      is_valid_to_sell: isOpen && contract.entrySpot !== null && isResellable(contract.parameters) ? 1 : 0,
+      status: contract.status,
+      sell_price: contract.sellPrice,
+      sell_time: contract.sellTime,
+      entry_spot: contract.entrySpot,
+      current_spot: contract.currentSpot,
+      exit_tick: contract.exitTick,
+      date_start: contract.purchaseTime,
+      date_expiry: this.expiryTime(contract),
+      barrier: contract.barrierSpot !== null ? String(contract.barrierSpot) : contract.parameters.barrier ?? null,
+      ...(contract.parameters.multiplier !== undefined && { multiplier: contract.parameters.multiplier }),
+      ...(contract.expiryEpoch === null && contract.parameters.duration !== undefined && { tick_count: contract.parameters.duration }),
+    };
+  }
+
+  // Streams may be on a later connection than the one that bought the contract
+  private publishContract(contract: MockContract) {
+    const payload = this.contractPayload(contract);
+
+    this.sessions.forEach(session => {
+      session.contractStreams.forEach((stream, id) => {
+        if (stream.contractId !== contract.id) return;
+        this.push(session, {
+          msg_type: 'proposal_open_contract',
+          echo_req: { proposal_open_contract: 1, contract_id: contract.id, subscribe: 1 },
+          req_id: stream.reqId,
+          proposal_open_contract: payload,
+          subscription: { id },
+        });
+        // Deriv closes the stream once the contract is no longer open
+        if (contract.status !== 'open') {
+          session.contractStreams.delete(id);
+        }
+      });
+    });
+  }
+
+  private adjustBalance(account: MockAccount, delta: number) {
+    account.balance = roundTo(account.balance + delta, 2);
+
+    this.sessions.forEach(session => {
+      if (session.account !== account || !session.balanceStream) return;
+      const { id, reqId } = session.balanceStream;
+      this.push(session, {
+        msg_type: 'balance',
+        echo_req: { balance: 1, subscribe: 1 },
+        req_id: reqId,
+        balance: { balance: account.balance, currency: account.currency, loginid: account.loginid, id },
+        subscription: { id },
+      });
+    });
+  }
+
+  private tickPayload(symbol: string) {
+    const last = this.lastTicks.get(symbol);
+    return {
+      symbol,
+      quote: last.quote,
+      epoch: last.epoch,
+      pip_size: this.symbols.get(symbol).profile.decimals,
+    };
+  }
+
+  private streamId(): string {
+    return `mock-${(this.nextStreamId++).toString(16).padStart(8, '0')}`;
+  }
+
+  // ==================== Transport ====================
+
+  private reply(
+    session: MockSession,
+    request: MockRequest,
+    response: Record<string, unknown>,
+    error?: { code: string; message: string }
+  ) {
+    const { req_id: reqId, ...echo } = request;
+    this.push(session, {
+      ...response,
+      echo_req: echo,
+      ...(reqId !== undefined ? { req_id: reqId } : {}),
+      ...(error ? { error } : {}),
+    });
+  }
+
+  private push(session: MockSession, frame: Record<string, unknown>) {
+    if (session.stalled) return;
+    const payload = JSON.stringify(frame);
+    setTimeout(() => session.socket.deliver(payload), REPLY_LATENCY_MS);
+  }
+}
+
+// Singleton instance shared by every mock socket
+export const mockDerivServer = new MockDerivServer();
+
+// Client side of the in-process transport, shaped like the browser WebSocket
+export class MockDerivSocket implements DerivSocket {
+  public readyState: number = CONNECTING;
+  public onopen: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onclose: ((event: Event) => void) | null = null;
+
+  private session: MockSession | null = null;
+
+  constructor(private server: MockDerivServer = mockDerivServer) {
+    setTimeout(() => {
+      if (this.readyState !== CONNECTING) return;
+      this.session = this.server.attach(this);
+      this.readyState = OPEN;
+      this.onopen?.(new Event('open'));
+    }, REPLY_LATENCY_MS);
+  }
+
+  public send(data: string) {
+    if (this.readyState !== OPEN || !this.session) {
+      throw new Error('MockDerivSocket is not open');
+    }
+    this.server.receive(this.session, data);
+  }
+
+  public close() {
+    this.shutdown();
+  }
+
+  // Called by the server to deliver a frame to the client
+  public deliver(data: string) {
+    if (this.readyState !== OPEN) return;
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
+  // Called by the server to simulate a dropped connection
+  public serverClose() {
+    this.shutdown();
+  }
+
+  private shutdown() {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    if (this.session) {
+      this.server.detach(this.session);
+      this.session = null;
+    }
+    setTimeout(() => this.onclose?.(new Event('close')), 0);
+  }
+}
@@ -0,0 +1,285 @@
+// Paper Trading Broker
+// Simulated execution against the live tick feed, with a virtual balance
+
+import { DERIV_CONFIG, SymbolValue } from '@/config/deriv';
+import {
+  derivWS,
+  ContractBroker,
+  ContractHandler,
+  ContractParameters,
+  ContractUpdate,
+  Proposal,
+  ProposalHandler,
+  TickUpdate,
+  TradeResult,
+} from './deriv-websocket';
+import {
+  advanceContract,
+  contractBidPrice,
+  contractExpiryEpoch,
+  contractPayout,
+  ContractSettlement,
+  roundTo,
+  SimulatedContract,
+} from './contract-pricing';
+import { isResellable, validateContract } from './contract-types';
+
+interface PaperContract extends SimulatedContract {
+  contractId: string;
+  purchaseEpoch: number;
+  status: ContractUpdate['status'];
+  sellPrice?: number;
+  sellTime?: number;
+}
+
+interface PaperProposalStream {
+  symbol: string;
+  parameters: ContractParameters;
+  amount: number;
+  handler: ProposalHandler;
+}
+
+type BalanceHandler = (balance: number) => void;
+
+class PaperBroker implements ContractBroker {
+  private contracts: Map<string, PaperContract> = new Map();
+  private contractHandlers: Map<string, ContractHandler[]> = new Map();
+  private balanceHandlers: BalanceHandler[] = [];
+  private proposalStreams: Map<string, PaperProposalStream> = new Map();
+  private lastTicks: Map<string, TickUpdate> = new Map();
+  private balance = DERIV_CONFIG.PAPER_STARTING_BALANCE;
+  private nextContractId = 1;
+  private nextProposalId = 1;
+
+  constructor() {
+    // Paper fills follow the same live feed the engine trades on
+    derivWS.onTick('*', this.handleTick.bind(this));
+  }
+
+  public async buyContract(symbol: SymbolValue, parameters: ContractParameters, amount: number): Promise<TradeResult> {
+    // Resolve on a later turn, like a network round trip
+    await Promise.resolve();
+
+    const invalid = validateContract(parameters);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    if (amount <= 0 || amount > this.balance) {
+      return { success: false, error: 'Insufficient paper balance' };
+    }
+    if (!this.lastTicks.has(symbol)) {
+      return { success: false, error: `No live price for ${symbol} yet` };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const spot = this.lastTicks.get(symbol).quote;
+    const contract: PaperContract = {
+      contractId: `PAPER-${this.nextContractId++}`,
+      symbol,
+      parameters,
+      buyPrice: amount,
+      payout: contractPayout(symbol, parameters, amount, spot),
+      purchaseEpoch: now,
+      expiryEpoch: contractExpiryEpoch(parameters, now),
+      entrySpot: null,
+      currentSpot: spot,
+      barrierSpot: null,
+      ticksSeen: 0,
+      status: 'open',
+    };
+
+    this.contracts.set(contract.contractId, contract);
+    this.adjustBalance(-amount);
+
+    return {
+      success: true,
+      contractId: contract.contractId,
+      buyPrice: amount,
+    };
+  }
+
+  // Quotes are priced from the last live tick with the same model that settles paper contracts
+  public async subscribeProposal(
+    symbol: SymbolValue,
+    parameters: ContractParameters,
+    amount: number,
+    handler: ProposalHandler
+  ): Promise<string> {
+    await Promise.resolve();
+
+    const invalid = validateContract(parameters);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+    if (!this.lastTicks.has(symbol)) {
+      throw new Error(`No live price for ${symbol} yet`);
+    }
+
+    const streamId = `PAPER-PROPOSAL-${this.nextProposalId++}`;
+    const stream: PaperProposalStream = { symbol, parameters, amount, handler };
+    this.proposalStreams.set(streamId, stream);
+    this.quote(stream);
+    return streamId;
+  }
+
+  public unsubscribeProposal(streamId: string) {
+    this.proposalStreams.delete(streamId);
+  }
+
+  public async sellContract(contractId: string, price: number = 0): Promise<TradeResult> {
+    await Promise.resolve();
+
+    const contract = this.contracts.get(contractId);
+    if (!contract) {
+      return { success: false, error: `Unknown paper contract ${contractId}` };
+    }
+    if (contract.status !== 'open' || contract.entrySpot === null || !isResellable(contract.parameters)) {
+      return { success: false, error: 'Resale of this contract is not offered' };
+    }
+
+    const bid = contractBidPrice(contract, Math.floor(Date.now() / 1000));
+    if (price > 0 && bid < price) {
+      return { success: false, error: `Bid ${bid.toFixed(2)} below requested price ${price.toFixed(2)}` };
+    }
+
+    contract.status = 'sold';
+    contract.sellPrice = bid;
+    contract.sellTime = Math.floor(Date.now() / 1000);
+    this.adjustBalance(bid);
+    this.publish(contract);
+    this.contracts.delete(contractId);
+
+    return {
+      success: true,
+      contractId,
+      sellPrice: bid,
+      profit: roundTo(bid - contract.buyPrice, 2),
+    };
+  }
+
+  public subscribeOpenContract(contractId: string, handler: ContractHandler) {
+    const handlers = this.contractHandlers.get(contractId) || [];
+    handlers.push(handler);
+    this.contractHandlers.set(contractId, handlers);
+
+    const contract = this.contracts.get(contractId);
+    if (contract) {
+      this.publish(contract);
+    }
+  }
+
+  public unsubscribeOpenContract(contractId: string) {
+    this.contractHandlers.delete(contractId);
+  }
+
+  public getAccountCurrency(): string {
+    return derivWS.getAccountCurrency();
+  }
+
+  public getBalance(): number {
+    return this.balance;
+  }
+
+  public reset(balance: number = DERIV_CONFIG.PAPER_STARTING_BALANCE) {
+    this.contracts.clear();
+    this.contractHandlers.clear();
+    this.balance = balance;
+    this.balanceHandlers.forEach(handler => handler(this.balance));
+  }
+
+  public onBalance(handler: BalanceHandler) {
+    this.balanceHandlers.push(handler);
+    handler(this.balance);
+  }
+
+  public offBalance(handler: BalanceHandler) {
+    const index = this.balanceHandlers.indexOf(handler);
+    if (index > -1) {
+      this.balanceHandlers.splice(index, 1);
+    }
+  }
+
+  // Contracts settle on the live feed (see advanceContract for entry, barrier and expiry rules)
+  private handleTick(tick: TickUpdate) {
+    this.lastTicks.set(tick.symbol, tick);
+
+    // Requote on every tick, like Deriv's proposal stream
+    this.proposalStreams.forEach(stream => {
+      if (stream.symbol === tick.symbol) this.quote(stream);
+    });
+
+    this.contracts.forEach(contract => {
+      if (contract.symbol !== tick.symbol || contract.status !== 'open') return;
+
+      const settlement = advanceContract(contract, tick.quote, tick.epoch);
+      if (settlement) {
+        this.settle(contract, settlement, tick.epoch);
+      } else {
+        this.publish(contract);
+      }
+    });
+  }
+
+  private settle(contract: PaperContract, settlement: ContractSettlement, epoch: number) {
+    contract.status = settlement.status;
+    contract.sellPrice = settlement.sellPrice;
+    contract.sellTime = epoch;
+
+    if (settlement.sellPrice > 0) {
+      this.adjustBalance(settlement.sellPrice);
+    }
+
+    this.publish(contract);
+    this.contracts.delete(contract.contractId);
+  }
+
+  private quote(stream: PaperProposalStream) {
+    const tick = this.lastTicks.get(stream.symbol);
+    const proposal: Proposal = {
+      id: `PAPER-QUOTE-${this.nextProposalId++}`,
+      symbol: stream.symbol,
+      contractType: stream.parameters.contractType,
+      askPrice: stream.amount,
+      payout: contractPayout(stream.symbol, stream.parameters, stream.amount, tick.quote),
+      spot: tick.quote,
+      spotTime: tick.epoch,
+    };
+    stream.handler(proposal);
+  }
+
+  private publish(contract: PaperContract) {
+    const isOpen = contract.status === 'open';
+    const bid = isOpen ? contractBidPrice(contract, Math.floor(Date.now() / 1000)) : contract.sellPrice;
+    const isExpired = contract.status === 'won' || contract.status === 'lost';
+
+    const update: ContractUpdate = {
+      contractId: contract.contractId,
+      symbol: contract.symbol,
+      contractType: contract.parameters.contractType,
+      entrySpot: contract.entrySpot ?? undefined,
+      currentSpot: contract.currentSpot ?? undefined,
+      barrier: contract.barrierSpot !== null ? String(contract.barrierSpot) : contract.parameters.barrier,
+      buyPrice: contract.buyPrice,
+      bidPrice: bid,
+      profit: roundTo(bid - contract.buyPrice, 2),
+      payout: contract.payout,
+      isSold: !isOpen,
+      isExpired,
+      isSettled: !isOpen,
+      isValidToSell: isOpen && contract.entrySpot !== null && isResellable(contract.parameters),
+      sellPrice: contract.sellPrice,
+      sellTime: contract.sellTime,
+      status: contract.status,
+    };
+
+    (this.contractHandlers.get(contract.contractId) || []).forEach(handler => handler(update));
+  }
+
+  private adjustBalance(delta: number) {
+    this.balance = roundTo(this.balance + delta, 2);
+    this.balanceHandlers.forEach(handler => handler(this.balance));
+  }
+}
+
+// Singleton instance
+export const paperBroker = new PaperBroker();
@@ -0,0 +1,188 @@
+// Synthetic Index Price Generator
+// Seedable tick streams matching the statistics of Deriv's volatility, jump, step and crash/boom indices
+
+import type { TickUpdate } from './deriv-websocket';
+
+// How the price moves between ticks; volatility indices are plain diffusion
+export type PriceModel =
+  | { type: 'diffusion' }
+  | { type: 'jump'; jumpsPerHour: number; jumpSize: number } // jumpSize in multiples of the per-tick deviation
+  | { type: 'step'; stepSize: number }
+  | { type: 'spike'; direction: 1 | -1; averageTicks: number; spikeSize: number }; // boom (up) or crash (down)
+
+export interface SymbolProfile {
+  volatility: number; // constant annualized volatility
+  tickIntervalMs: number;
+  decimals: number; // pip size as decimal places
+  startPrice: number;
+  model?: PriceModel;
+}
+
+export interface PriceGeneratorOptions {
+  seed?: number;
+  startPrice?: number;
+  startEpoch?: number; // seconds
+}
+
+export const SYMBOL_PROFILES: Record<string, SymbolProfile> = {
+  R_10: { volatility: 0.10, tickIntervalMs: 2000, decimals: 3, startPrice: 6000 },
+  R_25: { volatility: 0.25, tickIntervalMs: 2000, decimals: 3, startPrice: 2500 },
+  R_50: { volatility: 0.50, tickIntervalMs: 2000, decimals: 4, startPrice: 250 },
+  R_75: { volatility: 0.75, tickIntervalMs: 2000, decimals: 4, startPrice: 50000 },
+  R_100: { volatility: 1.00, tickIntervalMs: 2000, decimals: 2, startPrice: 1500 },
+  '1HZ100V': { volatility: 1.00, tickIntervalMs: 1000, decimals: 2, startPrice: 900 },
+  JD10: { volatility: 0.10, tickIntervalMs: 1000, decimals: 2, startPrice: 9000, model: { type: 'jump', jumpsPerHour: 3, jumpSize: 30 } },
+  JD25: { volatility: 0.25, tickIntervalMs: 1000, decimals: 2, startPrice: 5000, model: { type: 'jump', jumpsPerHour: 3, jumpSize: 30 } },
+  JD50: { volatility: 0.50, tickIntervalMs: 1000, decimals: 2, startPrice: 3500, model: { type: 'jump', jumpsPerHour: 3, jumpSize: 30 } },
+  JD100: { volatility: 1.00, tickIntervalMs: 1000, decimals: 2, startPrice: 12000, model: { type: 'jump', jumpsPerHour: 3, jumpSize: 30 } },
+  stpRNG: { volatility: 0, tickIntervalMs: 1000, decimals: 1, startPrice: 8000, model: { type: 'step', stepSize: 0.1 } },
+  BOOM500: { volatility: 0.30, tickIntervalMs: 1000, decimals: 4, startPrice: 4500, model: { type: 'spike', direction: 1, averageTicks: 500, spikeSize: 0.01 } },
+  BOOM1000: { volatility: 0.30, tickIntervalMs: 1000, decimals: 4, startPrice: 11000, model: { type: 'spike', direction: 1, averageTicks: 1000, spikeSize: 0.01 } },
+  CRASH500: { volatility: 0.30, tickIntervalMs: 1000, decimals: 4, startPrice: 3500, model: { type: 'spike', direction: -1, averageTicks: 500, spikeSize: 0.01 } },
+  CRASH1000: { volatility: 0.30, tickIntervalMs: 1000, decimals: 4, startPrice: 6500, model: { type: 'spike', direction: -1, averageTicks: 1000, spikeSize: 0.01 } },
+};
+
+const DEFAULT_PROFILE: SymbolProfile = { volatility: 0.50, tickIntervalMs: 2000, decimals: 4, startPrice: 1000 };
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export function getSymbolProfile(symbol: string): SymbolProfile {
+  return SYMBOL_PROFILES[symbol] || DEFAULT_PROFILE;
+}
+
+// Per-tick standard deviation of log returns for a symbol, including jumps, steps and spikes
+export function tickVolatility(symbol: string): number {
+  const profile = getSymbolProfile(symbol);
+  const diffusion = profile.volatility * Math.sqrt(profile.tickIntervalMs / 1000 / SECONDS_PER_YEAR);
+  const model = profile.model;
+
+  switch (model?.type) {
+    case 'step':
+      return model.stepSize / profile.startPrice;
+    case 'jump':
+      return diffusion * Math.sqrt(1 + jumpChance(profile, model.jumpsPerHour) * model.jumpSize * model.jumpSize);
+    case 'spike':
+      return Math.sqrt(diffusion * diffusion + model.spikeSize * model.spikeSize / model.averageTicks);
+    default:
+      return diffusion;
+  }
+}
+
+// Probability of a jump on any one tick
+function jumpChance(profile: SymbolProfile, jumpsPerHour: number): number {
+  return jumpsPerHour * profile.tickIntervalMs / 3600000;
+}
+
+// Derive a distinct, stable seed per symbol from a base seed
+export function seedForSymbol(seed: number, symbol: string): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < symbol.length; i++) {
+    hash = Math.imul(hash ^ symbol.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// Mulberry32 - small, fast, seedable PRNG returning values in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class PriceGenerator {
+  public readonly symbol: string;
+  public readonly profile: SymbolProfile;
+
+  private random: () => number;
+  private spareGaussian: number | null = null;
+  private price: number;
+  private epoch: number;
+  private readonly drift: number;
+  private readonly diffusion: number;
+
+  constructor(symbol: string, options: PriceGeneratorOptions = {}) {
+    this.symbol = symbol;
+    this.profile = getSymbolProfile(symbol);
+    this.random = createRandom(options.seed ?? Date.now());
+    this.price = options.startPrice ?? this.profile.startPrice;
+    this.epoch = options.startEpoch ?? Math.floor(Date.now() / 1000);
+
+    // Driftless geometric Brownian motion in price, so log returns carry the -σ²/2 correction
+    const dt = this.profile.tickIntervalMs / 1000 / SECONDS_PER_YEAR;
+    this.drift = -0.5 * this.profile.volatility * this.profile.volatility * dt;
+    this.diffusion = this.profile.volatility * Math.sqrt(dt);
+  }
+
+  public next(): TickUpdate {
+    this.price = this.round(this.nextPrice());
+    this.epoch += this.profile.tickIntervalMs / 1000;
+
+    return {
+      symbol: this.symbol,
+      quote: this.price,
+      epoch: Math.floor(this.epoch),
+    };
+  }
+
+  public take(count: number): TickUpdate[] {
+    const ticks: TickUpdate[] = [];
+    for (let i = 0; i < count; i++) {
+      ticks.push(this.next());
+    }
+    return ticks;
+  }
+
+  public getPrice(): number {
+    return this.price;
+  }
+
+  private nextPrice(): number {
+    const model = this.profile.model;
+    const diffused = () => this.price * Math.exp(this.drift + this.diffusion * this.gaussian());
+
+    switch (model?.type) {
+      case 'step':
+        return this.price + (this.random() < 0.5 ? -model.stepSize : model.stepSize);
+      case 'jump': {
+        // Poisson jumps on top of the diffusion, equally likely up or down
+        const price = diffused();
+        if (this.random() >= jumpChance(this.profile, model.jumpsPerHour)) return price;
+        const sign = this.random() < 0.5 ? -1 : 1;
+        return price * Math.exp(sign * model.jumpSize * this.diffusion);
+      }
+      case 'spike': {
+        // Rare spikes one way, offset by a steady drift the other way so the index does not trend
+        if (this.random() < 1 / model.averageTicks) {
+          return this.price * (1 + model.direction * model.spikeSize);
+        }
+        return diffused() * (1 - model.direction * model.spikeSize / model.averageTicks);
+      }
+      default:
+        return diffused();
+    }
+  }
+
+  private round(value: number): number {
+    const factor = Math.pow(10, this.profile.decimals);
+    return Math.round(value * factor) / factor;
+  }
+
+  // Box-Muller transform, caching the second variate
+  private gaussian(): number {
+    if (this.spareGaussian !== null) {
+      const spare = this.spareGaussian;
+      this.spareGaussian = null;
+      return spare;
+    }
+
+    const u = 1 - this.random();
+    const v = this.random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    this.spareGaussian = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  }
+}
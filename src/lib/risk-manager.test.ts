@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DERIV_CONFIG } from '@/config/deriv';
+import { riseFallBidPrice, riseFallPayout } from './contract-pricing';
+import { isStopLossHit } from './risk-manager';
+import type { Trade } from './trading-engine';
+
+describe('isStopLossHit', () => {
+  const stake = 10;
+  const stopLossPct = DERIV_CONFIG.STOP_LOSS_PERCENT;
+  const payout = riseFallPayout(stake);
+  // Bid of a 5-tick CALL on R_100 entered at 1000, with the price now at `spot`
+  const bidAt = (spot: number) => riseFallBidPrice('R_100', 'CALL', payout, 1000, spot, 5);
+  const entryBid = bidAt(1000);
+
+  it('does not stop out a fresh position at the entry bid', () => {
+    // The entry bid alone is already more than the stop below the stake...
+    expect(entryBid - stake).toBeLessThan(-stake * stopLossPct);
+    // ...but nothing has moved against the position yet
+    expect(isStopLossHit(entryBid, entryBid, stake, stopLossPct)).toBe(false);
+  });
+
+  it('stops out once the bid falls past the threshold from entry', () => {
+    expect(isStopLossHit(entryBid, bidAt(999.99), stake, stopLossPct)).toBe(false);
+    expect(isStopLossHit(entryBid, bidAt(999.9), stake, stopLossPct)).toBe(true);
+    expect(isStopLossHit(entryBid, entryBid - stake * stopLossPct, stake, stopLossPct)).toBe(true);
+  });
+
+  it('never stops out a position that has moved in its favour', () => {
+    expect(isStopLossHit(entryBid, bidAt(1001), stake, stopLossPct)).toBe(false);
+  });
+});
+
+describe('riskManager', () => {
+  const { MAX_DAILY_LOSS, MAX_DRAWDOWN, MAX_OPEN_STAKE, MAX_CONSECUTIVE_LOSSES } = DERIV_CONFIG.RISK;
+  const open = (symbol: string, stake: number) => ({ symbol, stake }) as Trade;
+  let riskManager: typeof import('./risk-manager').riskManager;
+
+  // A fresh singleton per test, starting at noon UTC
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+    vi.resetModules();
+    ({ riskManager } = await import('./risk-manager'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('halts on the loss streak limit and a win resets the streak', () => {
+    for (let i = 1; i < MAX_CONSECUTIVE_LOSSES; i++) {
+      expect(riskManager.recordClosedTrade(-1)).toBeNull();
+    }
+    riskManager.recordClosedTrade(1);
+    for (let i = 1; i < MAX_CONSECUTIVE_LOSSES; i++) {
+      expect(riskManager.recordClosedTrade(-1)).toBeNull();
+    }
+
+    expect(riskManager.recordClosedTrade(-1)).toMatch(/consecutive losses/);
+    expect(riskManager.isHalted()).toBe(true);
+    expect(riskManager.checkTrade('R_100', 1, [])).toMatchObject({ allowed: false, halt: true });
+
+    // Acknowledging clears the streak
+    expect(riskManager.acknowledgeHalt()).toBe(true);
+    expect(riskManager.checkTrade('R_100', 1, []).allowed).toBe(true);
+  });
+
+  it('halts on the daily loss limit until the next UTC day', () => {
+    expect(riskManager.recordClosedTrade(-(MAX_DAILY_LOSS - 1))).toBeNull();
+    expect(riskManager.recordClosedTrade(2)).toBeNull();
+    expect(riskManager.recordClosedTrade(-3)).toMatch(/Daily loss limit/);
+
+    // The same day's loss keeps trading halted after review
+    expect(riskManager.acknowledgeHalt()).toBe(false);
+    expect(riskManager.isHalted()).toBe(true);
+
+    vi.setSystemTime(new Date('2024-03-02T00:00:01Z'));
+    expect(riskManager.acknowledgeHalt()).toBe(true);
+    expect(riskManager.checkTrade('R_100', 1, []).allowed).toBe(true);
+  });
+
+  it('halts when session equity falls the drawdown limit below its peak', () => {
+    expect(riskManager.updateEquity(10, 5)).toBeNull();
+    expect(riskManager.updateEquity(10, 5 - MAX_DRAWDOWN + 0.01)).toBeNull();
+    expect(riskManager.updateEquity(10, 5 - MAX_DRAWDOWN)).toMatch(/Max drawdown/);
+    expect(riskManager.getSnapshot().haltReason).toMatch(/Max drawdown/);
+  });
+
+  it('rejects a trade over an exposure limit without halting', () => {
+    const full = riskManager.checkTrade('R_100', 1, [open('R_50', MAX_OPEN_STAKE)]);
+    expect(full).toMatchObject({ allowed: false });
+    expect(full.halt).toBeUndefined();
+
+    const busy = riskManager.checkTrade('R_100', 1, [open('R_100', 1)]);
+    expect(busy.reason).toMatch(/already has 1 open trade/);
+    expect(riskManager.isHalted()).toBe(false);
+  });
+});
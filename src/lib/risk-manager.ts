@@ -0,0 +1,232 @@
+// Session Risk Manager
+// Pre-trade exposure checks and loss limits that halt the engine when breached
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import type { Trade } from './trading-engine';
+
+export interface RiskLimits {
+  maxDailyLoss: number; // realized loss per UTC day, account currency
+  maxDrawdown: number; // peak-to-trough of realized + unrealized session P/L
+  maxOpenStake: number; // total stake across open positions
+  maxTradesPerSymbol: number;
+  maxConsecutiveLosses: number;
+}
+
+export interface RiskLimitUsage {
+  key: keyof RiskLimits;
+  label: string;
+  current: number;
+  limit: number;
+  utilization: number; // 0..1
+}
+
+export interface RiskSnapshot {
+  isHalted: boolean;
+  haltReason?: string;
+  limits: RiskLimitUsage[];
+}
+
+export interface RiskCheck {
+  allowed: boolean;
+  reason?: string;
+  halt?: boolean; // true when the breach must stop all trading, not just this trade
+}
+
+type RiskHandler = (snapshot: RiskSnapshot) => void;
+
+// Stop-loss rule shared by the engine and the backtester. The resale bid opens below the stake
+// (spread plus payout margin), so the loss is measured from the first bid after entry: the
+// configured percentage is then how far the position has moved against us, not the cost of exiting.
+export function isStopLossHit(entryBid: number, bid: number, stake: number, stopLossPct: number): boolean {
+  return entryBid - bid >= stake * stopLossPct;
+}
+
+function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+class RiskManager {
+  private limits: RiskLimits = {
+    maxDailyLoss: DERIV_CONFIG.RISK.MAX_DAILY_LOSS,
+    maxDrawdown: DERIV_CONFIG.RISK.MAX_DRAWDOWN,
+    maxOpenStake: DERIV_CONFIG.RISK.MAX_OPEN_STAKE,
+    maxTradesPerSymbol: DERIV_CONFIG.RISK.MAX_TRADES_PER_SYMBOL,
+    maxConsecutiveLosses: DERIV_CONFIG.RISK.MAX_CONSECUTIVE_LOSSES,
+  };
+
+  private day = utcDay(Date.now());
+  private dailyRealized = 0;
+  private peakEquity = 0;
+  private equity = 0;
+  private consecutiveLosses = 0;
+  private openStake = 0;
+  private maxSymbolTrades = 0;
+  private haltReason: string | null = null;
+
+  private handlers: RiskHandler[] = [];
+
+  // Exposure limits reject a single trade; loss limits halt trading altogether
+  public checkTrade(symbol: string, stake: number, activeTrades: Trade[]): RiskCheck {
+    this.rollDay();
+
+    if (this.haltReason) {
+      return { allowed: false, reason: this.haltReason, halt: true };
+    }
+
+    const lossBreach = this.checkLossLimits();
+    if (lossBreach) {
+      this.halt(lossBreach);
+      return { allowed: false, reason: lossBreach, halt: true };
+    }
+
+    const openStake = activeTrades.reduce((sum, t) => sum + t.stake, 0);
+    if (openStake + stake > this.limits.maxOpenStake) {
+      return {
+        allowed: false,
+        reason: `Open stake ${(openStake + stake).toFixed(2)} would exceed limit ${this.limits.maxOpenStake.toFixed(2)}`,
+      };
+    }
+
+    const symbolTrades = activeTrades.filter(t => t.symbol === symbol).length;
+    if (symbolTrades + 1 > this.limits.maxTradesPerSymbol) {
+      return {
+        allowed: false,
+        reason: `${symbol} already has ${symbolTrades} open trade(s) (limit ${this.limits.maxTradesPerSymbol})`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  // Track open exposure for utilization display
+  public updateExposure(activeTrades: Trade[]) {
+    this.openStake = activeTrades.reduce((sum, t) => sum + t.stake, 0);
+    const perSymbol = new Map<string, number>();
+    activeTrades.forEach(t => perSymbol.set(t.symbol, (perSymbol.get(t.symbol) || 0) + 1));
+    this.maxSymbolTrades = Math.max(0, ...perSymbol.values());
+    this.notify();
+  }
+
+  // Returns a halt reason when the closed trade breaches a loss limit
+  public recordClosedTrade(profit: number): string | null {
+    this.rollDay();
+    this.dailyRealized += profit;
+    this.consecutiveLosses = profit < 0 ? this.consecutiveLosses + 1 : 0;
+
+    const breach = this.checkLossLimits();
+    if (breach) this.halt(breach);
+    this.notify();
+    return breach;
+  }
+
+  // Returns a halt reason when session equity falls too far from its peak
+  public updateEquity(realizedProfit: number, unrealizedProfit: number): string | null {
+    this.equity = realizedProfit + unrealizedProfit;
+    this.peakEquity = Math.max(this.peakEquity, this.equity);
+
+    const breach = this.checkLossLimits();
+    if (breach) this.halt(breach);
+    this.notify();
+    return breach;
+  }
+
+  // Clear a halt after review. The daily loss limit stays in force until the next UTC day.
+  public acknowledgeHalt(): boolean {
+    this.rollDay();
+    this.consecutiveLosses = 0;
+    this.peakEquity = this.equity;
+    this.haltReason = null;
+
+    const breach = this.checkLossLimits();
+    if (breach) this.halt(breach);
+    this.notify();
+    return breach === null;
+  }
+
+  public setLimits(limits: Partial<RiskLimits>) {
+    this.limits = { ...this.limits, ...limits };
+    this.notify();
+  }
+
+  public getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  public isHalted(): boolean {
+    return this.haltReason !== null;
+  }
+
+  public getHaltReason(): string | null {
+    return this.haltReason;
+  }
+
+  public getSnapshot(): RiskSnapshot {
+    const usage = (key: keyof RiskLimits, label: string, current: number): RiskLimitUsage => ({
+      key,
+      label,
+      current,
+      limit: this.limits[key],
+      utilization: this.limits[key] > 0 ? Math.min(1, Math.max(0, current / this.limits[key])) : 0,
+    });
+
+    return {
+      isHalted: this.haltReason !== null,
+      haltReason: this.haltReason ?? undefined,
+      limits: [
+        usage('maxDailyLoss', 'Daily loss', Math.max(0, -this.dailyRealized)),
+        usage('maxDrawdown', 'Drawdown', this.peakEquity - this.equity),
+        usage('maxOpenStake', 'Open stake', this.openStake),
+        usage('maxTradesPerSymbol', 'Trades / symbol', this.maxSymbolTrades),
+        usage('maxConsecutiveLosses', 'Loss streak', this.consecutiveLosses),
+      ],
+    };
+  }
+
+  public onUpdate(handler: RiskHandler) {
+    this.handlers.push(handler);
+    handler(this.getSnapshot());
+  }
+
+  public offUpdate(handler: RiskHandler) {
+    const index = this.handlers.indexOf(handler);
+    if (index > -1) {
+      this.handlers.splice(index, 1);
+    }
+  }
+
+  private checkLossLimits(): string | null {
+    if (-this.dailyRealized >= this.limits.maxDailyLoss) {
+      return `Daily loss limit reached (${this.dailyRealized.toFixed(2)} / -${this.limits.maxDailyLoss.toFixed(2)})`;
+    }
+    if (this.peakEquity - this.equity >= this.limits.maxDrawdown) {
+      return `Max drawdown reached (${(this.peakEquity - this.equity).toFixed(2)} / ${this.limits.maxDrawdown.toFixed(2)})`;
+    }
+    if (this.consecutiveLosses >= this.limits.maxConsecutiveLosses) {
+      return `${this.consecutiveLosses} consecutive losses (limit ${this.limits.maxConsecutiveLosses})`;
+    }
+    return null;
+  }
+
+  private halt(reason: string) {
+    if (this.haltReason) return;
+    this.haltReason = reason;
+    console.warn(`[Risk] Trading halted: ${reason}`);
+  }
+
+  // Daily loss resets at the UTC day boundary
+  private rollDay() {
+    const today = utcDay(Date.now());
+    if (today === this.day) return;
+
+    this.day = today;
+    this.dailyRealized = 0;
+  }
+
+  private notify() {
+    const snapshot = this.getSnapshot();
+    this.handlers.forEach(handler => handler(snapshot));
+  }
+}
+
+// Singleton instance
+export const riskManager = new RiskManager();
@@ -0,0 +1,215 @@
+// Trading Strategies
+// Pluggable signal logic with a registry for per-symbol selection
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import type { ContractParameters } from './deriv-websocket';
+import type { IndicatorResult } from './indicators';
+import type { DigitStats } from './digit-stats';
+
+export interface StrategyContext {
+  symbol: string;
+  price: number;
+  prices: number[];
+  indicators: IndicatorResult;
+  digits: DigitStats; // last-digit distribution over the symbol's recent ticks
+}
+
+export interface StrategyDecision {
+  direction: 'LONG' | 'SHORT';
+  confidence: number; // 0..1
+  contract: ContractParameters;
+  reasoning: string;
+}
+
+export interface Strategy {
+  id: string;
+  name: string;
+  description: string;
+  evaluate(context: StrategyContext): StrategyDecision | null;
+}
+
+type StrategyChangeHandler = (symbol: string, strategyId: string) => void;
+
+// 5-tick rise/fall in the signal's direction
+function riseFall(direction: 'LONG' | 'SHORT'): ContractParameters {
+  return {
+    contractType: direction === 'LONG' ? 'CALL' : 'PUT',
+    duration: 5,
+    durationUnit: 't',
+  };
+}
+
+// Weighted indicator confluence - the engine's original scoring
+export const confluenceStrategy: Strategy = {
+  id: 'confluence',
+  name: 'Indicator Confluence',
+  description: 'Weighted RSI, ADX, Bollinger, MACD and MA scoring',
+  evaluate({ symbol, price, indicators }) {
+    let longScore = 0;
+    let shortScore = 0;
+    const reasons: string[] = [];
+
+    // RSI Analysis
+    if (indicators.rsi !== null) {
+      if (indicators.rsi < DERIV_CONFIG.INDICATORS.RSI_OVERSOLD) {
+        longScore += 0.25;
+        reasons.push(`RSI oversold (${indicators.rsi.toFixed(1)})`);
+      } else if (indicators.rsi > DERIV_CONFIG.INDICATORS.RSI_OVERBOUGHT) {
+        shortScore += 0.25;
+        reasons.push(`RSI overbought (${indicators.rsi.toFixed(1)})`);
+      } else if (indicators.rsi > 50) {
+        longScore += 0.1;
+      } else {
+        shortScore += 0.1;
+      }
+    }
+
+    // ADX Trend Strength
+    if (indicators.adx !== null) {
+      if (indicators.adx > DERIV_CONFIG.INDICATORS.ADX_TREND_THRESHOLD) {
+        const trendBonus = Math.min(0.2, (indicators.adx - 25) / 100);
+        if (longScore > shortScore) {
+          longScore += trendBonus;
+        } else {
+          shortScore += trendBonus;
+        }
+        reasons.push(`Strong trend (ADX: ${indicators.adx.toFixed(1)})`);
+      }
+    }
+
+    // Bollinger Bands
+    if (indicators.bollingerUpper !== null && indicators.bollingerLower !== null) {
+      const bandwidth = indicators.bollingerUpper - indicators.bollingerLower;
+      const position = (price - indicators.bollingerLower) / bandwidth;
+
+      if (position < 0.1) {
+        longScore += 0.2;
+        reasons.push('Price at lower Bollinger Band');
+      } else if (position > 0.9) {
+        shortScore += 0.2;
+        reasons.push('Price at upper Bollinger Band');
+      }
+    }
+
+    // MACD
+    if (indicators.macd !== null) {
+      if (indicators.macd.histogram > 0 && indicators.macd.macd > indicators.macd.signal) {
+        longScore += 0.15;
+        reasons.push('MACD bullish crossover');
+      } else if (indicators.macd.histogram < 0 && indicators.macd.macd < indicators.macd.signal) {
+        shortScore += 0.15;
+        reasons.push('MACD bearish crossover');
+      }
+    }
+
+    // SMA/EMA Analysis
+    if (indicators.sma !== null && indicators.ema !== null) {
+      if (price > indicators.sma && indicators.ema > indicators.sma) {
+        longScore += 0.1;
+        reasons.push('Price above SMA, EMA above SMA');
+      } else if (price < indicators.sma && indicators.ema < indicators.sma) {
+        shortScore += 0.1;
+        reasons.push('Price below SMA, EMA below SMA');
+      }
+    }
+
+    const direction = longScore >= shortScore ? 'LONG' : 'SHORT';
+    const maxScore = Math.max(longScore, shortScore);
+    const confidence = Math.min(0.95, maxScore + 0.4); // Base probability + indicator score
+
+    return {
+      direction,
+      confidence,
+      contract: riseFall(direction),
+      reasoning: `${symbol}: ${direction} signal - ${reasons.join(', ')} | P=${(confidence * 100).toFixed(0)}%`,
+    };
+  },
+};
+
+// Fade RSI extremes confirmed by a Bollinger Band touch
+export const meanReversionStrategy: Strategy = {
+  id: 'mean-reversion',
+  name: 'Mean Reversion',
+  description: 'RSI extreme confirmed by a Bollinger Band touch',
+  evaluate({ symbol, price, indicators }) {
+    const { rsi, bollingerUpper, bollingerLower } = indicators;
+    if (rsi === null || bollingerUpper === null || bollingerLower === null) return null;
+
+    let direction: 'LONG' | 'SHORT';
+    if (rsi < DERIV_CONFIG.INDICATORS.RSI_OVERSOLD && price <= bollingerLower) {
+      direction = 'LONG';
+    } else if (rsi > DERIV_CONFIG.INDICATORS.RSI_OVERBOUGHT && price >= bollingerUpper) {
+      direction = 'SHORT';
+    } else {
+      return null;
+    }
+
+    // Deeper RSI extremes earn more confidence
+    const extremity = direction === 'LONG'
+      ? (DERIV_CONFIG.INDICATORS.RSI_OVERSOLD - rsi) / DERIV_CONFIG.INDICATORS.RSI_OVERSOLD
+      : (rsi - DERIV_CONFIG.INDICATORS.RSI_OVERBOUGHT) / (100 - DERIV_CONFIG.INDICATORS.RSI_OVERBOUGHT);
+    const confidence = Math.min(0.95, 0.7 + extremity * 0.25);
+
+    return {
+      direction,
+      confidence,
+      contract: riseFall(direction),
+      reasoning: `${symbol}: ${direction} reversion - RSI ${rsi.toFixed(1)} at ${direction === 'LONG' ? 'lower' : 'upper'} band | P=${(confidence * 100).toFixed(0)}%`,
+    };
+  },
+};
+
+class StrategyRegistry {
+  private strategies: Map<string, Strategy> = new Map();
+  private assignments: Map<string, string> = new Map(); // symbol -> strategyId
+  private changeHandlers: StrategyChangeHandler[] = [];
+  private defaultStrategyId = confluenceStrategy.id;
+
+  constructor() {
+    this.register(confluenceStrategy);
+    this.register(meanReversionStrategy);
+  }
+
+  public register(strategy: Strategy) {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  public list(): Strategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  public get(strategyId: string): Strategy | undefined {
+    return this.strategies.get(strategyId);
+  }
+
+  public getDefault(): Strategy {
+    return this.strategies.get(this.defaultStrategyId);
+  }
+
+  public setForSymbol(symbol: string, strategyId: string) {
+    if (!this.strategies.has(strategyId)) {
+      throw new Error(`Unknown strategy: ${strategyId}`);
+    }
+    this.assignments.set(symbol, strategyId);
+    this.changeHandlers.forEach(handler => handler(symbol, strategyId));
+  }
+
+  public getForSymbol(symbol: string): Strategy {
+    const strategyId = this.assignments.get(symbol);
+    return (strategyId && this.strategies.get(strategyId)) || this.getDefault();
+  }
+
+  public onChange(handler: StrategyChangeHandler) {
+    this.changeHandlers.push(handler);
+  }
+
+  public offChange(handler: StrategyChangeHandler) {
+    const index = this.changeHandlers.indexOf(handler);
+    if (index > -1) {
+      this.changeHandlers.splice(index, 1);
+    }
+  }
+}
+
+// Singleton instance
+export const strategyRegistry = new StrategyRegistry();
@@ -0,0 +1,230 @@
+// Symbol Catalogue
+// Tradable underlyings from active_symbols and their offerings from contracts_for,
+// plus the watchlist of symbols the engine and scanners follow
+
+import { DERIV_CONFIG } from '@/config/deriv';
+import {
+  derivWS,
+  ActiveSymbol,
+  ConnectionStatus,
+  ContractOffering,
+  ContractParameters,
+} from './deriv-websocket';
+import { getContractCategory } from './contract-types';
+
+export interface SymbolInfo extends ActiveSymbol {
+  contracts: ContractOffering[] | null; // null until contracts_for has answered
+}
+
+// Anything that can serve active_symbols and contracts_for, e.g. derivWS
+export interface SymbolCatalogSource {
+  getActiveSymbols(): Promise<ActiveSymbol[]>;
+  getContractsFor(symbol: string): Promise<ContractOffering[]>;
+}
+
+type CatalogChangeHandler = () => void;
+
+// The strategies trade tick-driven synthetic indices only
+const MARKETS = ['synthetic_index'];
+const CONTRACTS_FOR_CONCURRENCY = 4;
+const WATCHLIST_KEY = 'deriv-ascend.watchlist';
+
+// Shown for the default watchlist until active_symbols has answered
+const DEFAULT_SYMBOLS: Record<string, { displayName: string; pipSize: number }> = {
+  R_10: { displayName: 'Volatility 10 Index', pipSize: 3 },
+  R_25: { displayName: 'Volatility 25 Index', pipSize: 3 },
+  R_50: { displayName: 'Volatility 50 Index', pipSize: 4 },
+  R_75: { displayName: 'Volatility 75 Index', pipSize: 4 },
+  R_100: { displayName: 'Volatility 100 Index', pipSize: 2 },
+  '1HZ100V': { displayName: 'Volatility 100 (1s) Index', pipSize: 2 },
+};
+
+// The watchlist saved by an earlier session, or null for none (or no localStorage, as in Node)
+function loadWatchlist(): string[] | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(WATCHLIST_KEY) || 'null');
+    if (!Array.isArray(saved)) return null;
+    const symbols = saved.filter((symbol): symbol is string => typeof symbol === 'string');
+    return symbols.length > 0 ? symbols : null;
+  } catch {
+    return null;
+  }
+}
+
+const SECONDS_PER_UNIT: Record<string, number> = { t: 1, s: 1, m: 60, h: 3600, d: 86400 };
+
+// '5t' -> { value: 5, unit: 't' }; null for an empty or unknown duration
+export function parseDuration(duration: string): { value: number; unit: string } | null {
+  const match = /^(\d+)([tsmhd])$/.exec(duration.trim());
+  return match ? { value: Number(match[1]), unit: match[2] } : null;
+}
+
+// Whether an offering's duration range admits the contract's duration.
+// Ticks and time units are separate ranges; contracts without a duration need an offering without expiry.
+function withinDuration(offering: ContractOffering, contract: ContractParameters): boolean {
+  if (contract.duration === undefined) return offering.expiryType === 'no_expiry';
+
+  const min = parseDuration(offering.minDuration);
+  const max = parseDuration(offering.maxDuration);
+  const unit = contract.durationUnit || 't';
+  if (!min || !max || (unit === 't') !== (min.unit === 't')) return false;
+
+  const seconds = contract.duration * SECONDS_PER_UNIT[unit];
+  return seconds >= min.value * SECONDS_PER_UNIT[min.unit] && seconds <= max.value * SECONDS_PER_UNIT[max.unit];
+}
+
+class SymbolCatalog {
+  private symbols: Map<string, SymbolInfo> = new Map();
+  private watchlist: string[] = loadWatchlist() ?? Object.values(DERIV_CONFIG.SYMBOLS);
+  private changeHandlers: CatalogChangeHandler[] = [];
+  private refreshing: Promise<void> | null = null;
+  private loaded = false;
+
+  constructor() {
+    Object.entries(DEFAULT_SYMBOLS).forEach(([symbol, { displayName, pipSize }]) => {
+      this.symbols.set(symbol, {
+        symbol,
+        displayName,
+        market: 'synthetic_index',
+        marketDisplayName: 'Derived',
+        submarket: 'random_index',
+        submarketDisplayName: 'Continuous Indices',
+        pipSize,
+        isOpen: true,
+        contracts: null,
+      });
+    });
+
+    // active_symbols and contracts_for need no login; market hours change, so reload on every connect
+    derivWS.onStatusChange((status: ConnectionStatus) => {
+      if (status === 'connected') {
+        this.refresh().catch(error => console.warn('[Catalog] Symbol catalogue unavailable:', error));
+      }
+    });
+  }
+
+  // Load active_symbols, then contracts_for for each symbol, a few at a time with watched symbols first
+  public refresh(source: SymbolCatalogSource = derivWS): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.load(source).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // Every catalogued symbol, ordered by submarket then name
+  public getSymbols(): SymbolInfo[] {
+    return Array.from(this.symbols.values()).sort((a, b) =>
+      a.submarketDisplayName.localeCompare(b.submarketDisplayName) ||
+      a.displayName.localeCompare(b.displayName, undefined, { numeric: true })
+    );
+  }
+
+  public getSymbol(symbol: string): SymbolInfo | undefined {
+    return this.symbols.get(symbol);
+  }
+
+  public getDisplayName(symbol: string): string {
+    return this.symbols.get(symbol)?.displayName || symbol;
+  }
+
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  // Symbols not in the catalogue (e.g. before it has loaded) are assumed open
+  public isOpen(symbol: string): boolean {
+    return this.symbols.get(symbol)?.isOpen ?? true;
+  }
+
+  // Whether contracts_for lists this contract for the symbol within its duration range.
+  // Assumed true until the symbol's offerings are known.
+  public supports(symbol: string, contract: ContractParameters): boolean {
+    const contracts = this.symbols.get(symbol)?.contracts;
+    if (!contracts) return true;
+
+    // Deriv lists rise/fall and higher/lower as CALL/PUT with 0 or 1 barriers
+    const category = getContractCategory(contract);
+    return contracts.some(offering =>
+      offering.contractType === contract.contractType &&
+      (category !== 'rise_fall' || offering.barriers === 0) &&
+      (category !== 'higher_lower' || offering.barriers > 0) &&
+      withinDuration(offering, contract)
+    );
+  }
+
+  public getWatchlist(): string[] {
+    return [...this.watchlist];
+  }
+
+  public isWatched(symbol: string): boolean {
+    return this.watchlist.includes(symbol);
+  }
+
+  public setWatchlist(symbols: string[]) {
+    const watchlist = Array.from(new Set(symbols));
+    if (watchlist.length === 0) {
+      throw new Error('Watch at least one symbol');
+    }
+    this.watchlist = watchlist;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(WATCHLIST_KEY, JSON.stringify(watchlist));
+    }
+    this.notify();
+  }
+
+  public setWatched(symbol: string, watched: boolean) {
+    if (watched === this.isWatched(symbol)) return;
+    this.setWatchlist(watched ? [...this.watchlist, symbol] : this.watchlist.filter(s => s !== symbol));
+  }
+
+  public onChange(handler: CatalogChangeHandler) {
+    this.changeHandlers.push(handler);
+  }
+
+  public offChange(handler: CatalogChangeHandler) {
+    const index = this.changeHandlers.indexOf(handler);
+    if (index > -1) {
+      this.changeHandlers.splice(index, 1);
+    }
+  }
+
+  private async load(source: SymbolCatalogSource) {
+    const active = (await source.getActiveSymbols()).filter(s => MARKETS.includes(s.market));
+
+    // Keep offerings already fetched; they only need loading once per symbol
+    const previous = this.symbols;
+    this.symbols = new Map(active.map(s => [s.symbol, { ...s, contracts: previous.get(s.symbol)?.contracts ?? null }]));
+    this.loaded = true;
+    this.notify();
+
+    const pending = this.getSymbols()
+      .filter(info => info.contracts === null)
+      .sort((a, b) => Number(this.isWatched(b.symbol)) - Number(this.isWatched(a.symbol)))
+      .map(info => info.symbol);
+    const worker = async () => {
+      for (let symbol = pending.shift(); symbol !== undefined; symbol = pending.shift()) {
+        try {
+          const contracts = await source.getContractsFor(symbol);
+          const info = this.symbols.get(symbol);
+          if (info) info.contracts = contracts;
+        } catch (error) {
+          console.warn(`[Catalog] contracts_for failed for ${symbol}:`, error);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: CONTRACTS_FOR_CONCURRENCY }, worker));
+
+    console.log(`[Catalog] Loaded ${this.symbols.size} symbols`);
+    this.notify();
+  }
+
+  private notify() {
+    this.changeHandlers.forEach(handler => handler());
+  }
+}
+
+// Singleton instance
+export const symbolCatalog = new SymbolCatalog();
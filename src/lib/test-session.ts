@@ -0,0 +1,31 @@
+// Test Session
+// Shared setup for tests that talk to the in-process mock server through derivWS
+
+import { afterAll, beforeAll } from 'vitest';
+import { derivWS } from './deriv-websocket';
+import { mockDerivServer } from './mock-deriv-server';
+
+// Poll until `read` returns something truthy, and return it
+export async function waitFor<T>(read: () => T | null | undefined | false, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = read();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+// Authorize derivWS against a freshly seeded mock for the calling file or describe, and disconnect after it.
+// The config points derivWS at mock:// under test, which loads the mock on demand.
+export function withMockSession(token = 'demo-token') {
+  beforeAll(async () => {
+    mockDerivServer.reseed(1);
+    derivWS.setApiToken(token);
+    await waitFor(() => derivWS.getStatus() === 'authorized');
+  });
+
+  afterAll(() => {
+    derivWS.disconnect();
+  });
+}
@@ -0,0 +1,21 @@
+// Tick History Helpers
+// Merge backfilled ticks_history data with ticks already received from the live stream
+
+import type { TickUpdate } from './deriv-websocket';
+
+// Combine two tick windows into one, ordered by epoch, without duplicates, keeping the newest `limit`
+export function mergeTicks(current: TickUpdate[], incoming: TickUpdate[], limit: number): TickUpdate[] {
+  // Fast path for the live stream: a single newer tick
+  const last = current[current.length - 1];
+  if (incoming.length === 1 && (!last || incoming[0].epoch > last.epoch)) {
+    return [...current, incoming[0]].slice(-limit);
+  }
+
+  const byEpoch = new Map<number, TickUpdate>();
+  current.forEach(tick => byEpoch.set(tick.epoch, tick));
+  incoming.forEach(tick => byEpoch.set(tick.epoch, tick));
+
+  return Array.from(byEpoch.values())
+    .sort((a, b) => a.epoch - b.epoch)
+    .slice(-limit);
+}
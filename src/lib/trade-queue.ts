@@ -1,15 +1,13 @@
 // Trade Execution Queue with Rate Limiting and Throttling
 
-import { derivWS, TradeResult } from './deriv-websocket';
+import { derivWS, ContractBroker, ContractParameters, TradeResult } from './deriv-websocket';
 import { SymbolValue } from '@/config/deriv';
 
 export interface QueuedTrade {
   id: string;
   symbol: SymbolValue;
-  contractType: 'CALL' | 'PUT';
+  contract: ContractParameters;
   amount: number;
-  duration: number;
-  durationUnit: 't' | 's' | 'm' | 'h' | 'd';
   priority: number;
   addedAt: number;
   status: 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled';
@@ -36,6 +34,7 @@ class TradeQueue {
   private isThrottled = false;
   private throttleEndsAt: number | null = null;
   private lastExecutionTime: number | null = null;
+  private broker: ContractBroker = derivWS;
   
   private statsHandlers: QueueStatsHandler[] = [];
   private throttleHandlers: ThrottleHandler[] = [];
@@ -52,14 +51,12 @@ class TradeQueue {
   
   public addTrade(
     symbol: SymbolValue,
-    contractType: 'CALL' | 'PUT',
+    contract: ContractParameters,
     amount: number,
-    duration: number = 5,
-    durationUnit: 't' | 's' | 'm' | 'h' | 'd' = 't',
     priority: number = 0
   ): Promise<TradeResult> {
     return new Promise((resolve, reject) => {
-      const tradeId = `${symbol}_${contractType}_${Date.now()}`;
+      const tradeId = `${symbol}_${contract.contractType}_${Date.now()}`;
       
       // Check if this symbol already has a pending request (debouncing)
       if (this.pendingSymbols.has(symbol)) {
@@ -86,10 +83,8 @@ class TradeQueue {
       const trade: QueuedTrade = {
         id: tradeId,
         symbol,
-        contractType,
+        contract,
         amount,
-        duration,
-        durationUnit,
         priority,
         addedAt: Date.now(),
         status: 'pending',
@@ -159,13 +154,7 @@ class TradeQueue {
     trade.status = 'executing';
     
     try {
-      const result = await derivWS.buyContract(
-        trade.symbol,
-        trade.contractType,
-        trade.amount,
-        trade.duration,
-        trade.durationUnit
-      );
+      const result = await this.broker.buyContract(trade.symbol, trade.contract, trade.amount);
       
       this.lastExecutionTime = Date.now();
       
@@ -242,6 +231,10 @@ class TradeQueue {
   }
   
   // Public API
+  public setBroker(broker: ContractBroker) {
+    this.broker = broker;
+  }
+  
   public onStats(handler: QueueStatsHandler) {
     this.statsHandlers.push(handler);
     this.updateStats();
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DERIV_CONFIG } from '@/config/deriv';
+import { balanceReconciler } from './balance-reconciler';
+import { AccountInfo, derivWS } from './deriv-websocket';
+import { journalStore } from './journal-store';
+import { mockDerivServer } from './mock-deriv-server';
+import { withMockSession, waitFor } from './test-session';
+import { LogEntry, Trade, tradingEngine } from './trading-engine';
+
+const SYMBOL = '1HZ100V'; // ticks every second
+
+withMockSession('reconcile-token');
+
+// Let the reconcile started by authorize finish with an empty portfolio
+beforeAll(() => tradingEngine.reconcilePositions());
+
+describe('position reconciliation', () => {
+  it('recovers the other positions when one contract cannot be read', async () => {
+    // Bought elsewhere, so the engine only learns of them from the portfolio
+    const contract = { contractType: 'CALL', duration: 5, durationUnit: 'm' } as const;
+    const first = await derivWS.buyContract(SYMBOL, contract, 10);
+    const second = await derivWS.buyContract(SYMBOL, contract, 10);
+    expect(first.success && second.success).toBe(true);
+
+    const logs: LogEntry[] = [];
+    const updates: Trade[] = [];
+    tradingEngine.onLog(entry => logs.push(entry));
+    tradingEngine.onTrade(trade => updates.push({ ...trade }));
+
+    // The first proposal_open_contract of the reconcile fails
+    mockDerivServer.injectFault({ type: 'rateLimit', msgType: 'proposal_open_contract', count: 1 });
+    await tradingEngine.reconcilePositions();
+
+    const active = tradingEngine.getActiveTrades();
+    expect(active).toHaveLength(1);
+    const [recovered] = active;
+    const skipped = recovered.contractId === first.contractId ? second.contractId : first.contractId;
+    expect(logs.some(entry => entry.type === 'warning' && entry.message.includes(`Could not adopt contract ${skipped}`))).toBe(true);
+    expect(logs.some(entry => entry.message.startsWith('Recovered 1 open position(s)'))).toBe(true);
+
+    // The recovered trade is resubscribed and keeps receiving contract updates
+    await waitFor(() => updates.some(trade => trade.contractId === recovered.contractId));
+  });
+});
+
+describe('stopping with open positions', () => {
+  it('closes sold positions at their sell price and counts later settlements', async () => {
+    // A contract that can be sold back and a digit contract that cannot
+    const call = await derivWS.buyContract(SYMBOL, { contractType: 'CALL', duration: 5, durationUnit: 'm' }, 10);
+    const digit = await derivWS.buyContract(SYMBOL, { contractType: 'DIGITEVEN', duration: 5, durationUnit: 't' }, 10);
+    await tradingEngine.reconcilePositions();
+    await waitFor(() => tradingEngine.getActiveTrades().find(t => t.contractId === call.contractId)?.isValidToSell);
+
+    // Open the books once the balance stream has caught up with both stakes
+    const { balance } = await derivWS.getBalance();
+    await waitFor(() => derivWS.getAccountInfo()?.balance === balance);
+    balanceReconciler.rebase();
+
+    expect(tradingEngine.start()).toBe(true);
+    await tradingEngine.stop();
+
+    const sold = tradingEngine.getTradeJournal().find(t => t.contractId === call.contractId);
+    expect(sold?.exitReason).toBe('shutdown');
+    expect(sold?.result).toBeDefined();
+    expect(tradingEngine.getActiveTrades().map(t => t.contractId)).toEqual([digit.contractId]);
+
+    // The digit contract runs to expiry and is closed from its stream
+    await waitFor(() => tradingEngine.getTradeJournal().find(t => t.contractId === digit.contractId)?.result, 10000);
+    expect(tradingEngine.getActiveTrades()).toHaveLength(0);
+
+    // Every credit the broker made is accounted for
+    const settled = await derivWS.getBalance();
+    await waitFor(() => derivWS.getAccountInfo()?.balance === settled.balance);
+    expect(balanceReconciler.getSnapshot().discrepancy).toBe(0);
+  }, 20000);
+
+  it('keeps a position whose sell failed open instead of writing an empty closed record', async () => {
+    const bought = await derivWS.buyContract(SYMBOL, { contractType: 'CALL', duration: 5, durationUnit: 'm' }, 10);
+    await tradingEngine.reconcilePositions();
+    await waitFor(() => tradingEngine.getActiveTrades().find(t => t.contractId === bought.contractId)?.isValidToSell);
+
+    const saved: Trade[] = [];
+    const save = vi.spyOn(journalStore, 'saveTrade').mockImplementation(async trade => {
+      saved.push({ ...trade });
+    });
+    mockDerivServer.injectFault({ type: 'rateLimit', msgType: 'sell', count: 1 });
+    expect(tradingEngine.start()).toBe(true);
+    await tradingEngine.stop();
+    save.mockRestore();
+
+    const [trade] = tradingEngine.getActiveTrades();
+    expect(trade.contractId).toBe(bought.contractId);
+    expect(trade.status).toBe('open');
+    expect(trade.exitReason).toBeUndefined();
+    expect(saved.filter(t => t.status === 'closed' && !t.result)).toEqual([]);
+
+    // The next reconcile finds the tracked trade rather than adopting the contract again
+    await tradingEngine.reconcilePositions();
+    expect(tradingEngine.getActiveTrades().map(t => t.id)).toEqual([trade.id]);
+  }, 10000);
+});
+
+describe('real-money gate', () => {
+  // Runs last: the session moves to a real-money account and back
+  beforeAll(async () => {
+    derivWS.setApiToken('real-token');
+    await waitFor(() => derivWS.getStatus() === 'authorized' && derivWS.getAccountInfo()?.isVirtual === false);
+    await tradingEngine.reconcilePositions();
+  });
+
+  afterAll(async () => {
+    derivWS.setApiToken('reconcile-token');
+    await waitFor(() => derivWS.getStatus() === 'authorized' && derivWS.getAccountInfo()?.isVirtual);
+  });
+
+  it('refuses to start live on a real account until the user confirms it', async () => {
+    const { loginid } = derivWS.getAccountInfo() as AccountInfo;
+    expect(loginid).toMatch(/^CR/);
+    expect(tradingEngine.isRealMoneyConfirmed()).toBe(false);
+    expect(tradingEngine.start()).toBe(false);
+
+    // A confirmation for some other account does not count
+    expect(tradingEngine.confirmRealMoney('CR9999999')).toBe(false);
+    expect(tradingEngine.start()).toBe(false);
+
+    tradingEngine.setStake(DERIV_CONFIG.MAX_STAKE);
+    expect(tradingEngine.confirmRealMoney(loginid)).toBe(true);
+    expect(tradingEngine.getStake()).toBe(DERIV_CONFIG.REAL_MAX_STAKE);
+    expect(tradingEngine.start()).toBe(true);
+    await tradingEngine.stop();
+  });
+
+  it('does not carry the confirmation over to another real account', async () => {
+    const { loginid } = derivWS.getAccountInfo() as AccountInfo;
+    expect(tradingEngine.isRealMoneyConfirmed()).toBe(true);
+
+    derivWS.setApiToken('real-token-2');
+    await waitFor(() => derivWS.getStatus() === 'authorized' && derivWS.getAccountInfo()?.loginid !== loginid);
+    expect(tradingEngine.isRealMoneyConfirmed()).toBe(false);
+    expect(tradingEngine.start()).toBe(false);
+  });
+});
@@ -1,7 +1,31 @@
 import { DERIV_CONFIG, SymbolValue } from '@/config/deriv';
-import { derivWS, TickUpdate, ContractUpdate } from './deriv-websocket';
-import { calculateAllIndicators, IndicatorResult } from './indicators';
+import {
+  derivWS,
+  TickUpdate,
+  ContractUpdate,
+  ContractBroker,
+  ContractParameters,
+  PortfolioContract,
+  Proposal,
+  TradeResult,
+  ConnectionStatus,
+} from './deriv-websocket';
+import { IndicatorResult, StreamingIndicators } from './indicators';
 import { tradeQueue, QueueStats } from './trade-queue';
+import { paperBroker } from './paper-broker';
+import { isStopLossHit, riskManager } from './risk-manager';
+import { strategyRegistry } from './strategies';
+import { contractDirection, getContractCategory, isContractType } from './contract-types';
+import { expectedValue, roundTo } from './contract-pricing';
+import { mergeTicks } from './tick-history';
+import { CandleAggregator } from './candles';
+import { DigitStatsTracker } from './digit-stats';
+import { symbolCatalog } from './symbol-catalog';
+import { journalStore } from './journal-store';
+import { balanceReconciler, BalanceReconciliation } from './balance-reconciler';
+import { accountManager } from './account-manager';
+
+export type TradingMode = 'live' | 'paper';
 
 export interface TradeSignal {
   symbol: string;
@@ -10,12 +34,17 @@ export interface TradeSignal {
   reasoning: string;
   indicators: IndicatorResult;
   timestamp: number;
+  strategyId: string;
+  contract: ContractParameters;
+  payout?: number; // quoted payout for the stake
+  expectedValue?: number; // probability × payout − ask price; absent for multipliers, which have no fixed payout
 }
 
 export interface Trade {
   id: string;
   symbol: string;
   direction: 'LONG' | 'SHORT';
+  contract: ContractParameters;
   entryPrice: number;
   currentPrice: number;
   stake: number;
@@ -24,12 +53,17 @@ export interface Trade {
   openTime: number;
   closeTime?: number;
   result?: 'win' | 'loss';
+  exitReason?: 'expiry' | 'take_profit' | 'stop_loss' | 'manual' | 'shutdown';
   // Contract tracking
   contractId?: string;
   buyPrice?: number;
   bidPrice?: number;
   payout?: number;
+  barrier?: string; // digit prediction, or the absolute price barrier once the contract starts
   unrealizedProfit?: number;
+  isValidToSell?: boolean; // from the latest contract update
+  entryBid?: number; // first resale bid once the contract started; the stop loss is measured from it
+  loginid?: string; // account the contract was bought on; absent for paper trades
 }
 
 export interface TradingStats {
@@ -45,6 +79,12 @@ export interface TradingStats {
   pauseReason?: string;
   queueSize: number;
   isThrottled: boolean;
+  tradingMode: TradingMode;
+  // This session plus trades restored from the journal. Only the session figures above feed the
+  // risk limits and the win-rate floor, so earlier sessions cannot halt a fresh one.
+  lifetimeTrades: number;
+  lifetimeWins: number;
+  lifetimeProfit: number;
 }
 
 export interface LogEntry {
@@ -53,6 +93,7 @@ export interface LogEntry {
   symbol?: string;
   message: string;
   data?: any;
+  loginid?: string; // account connected when the entry was written
 }
 
 type LogHandler = (entry: LogEntry) => void;
@@ -60,8 +101,18 @@ type StatsHandler = (stats: TradingStats) => void;
 type SignalHandler = (signal: TradeSignal) => void;
 type TradeHandler = (trade: Trade) => void;
 
+// Proposal stream for one candidate contract at the current stake
+interface QuoteStream {
+  streamId: string | null;
+  latest: Proposal | null;
+  ready: Promise<void>;
+}
+
 class TradingEngine {
-  private priceHistory: Map<string, number[]> = new Map();
+  private priceHistory: Map<string, TickUpdate[]> = new Map();
+  private candles = new CandleAggregator();
+  private indicatorStreams: Map<string, StreamingIndicators> = new Map();
+  private digits = new DigitStatsTracker();
   private activeTrades: Map<string, Trade> = new Map();
   private tradeJournal: Trade[] = [];
   private stats: TradingStats = {
@@ -76,6 +127,10 @@ class TradingEngine {
     isPaused: false,
     queueSize: 0,
     isThrottled: false,
+    tradingMode: 'live',
+    lifetimeTrades: 0,
+    lifetimeWins: 0,
+    lifetimeProfit: 0,
   };
   
   private logHandlers: LogHandler[] = [];
@@ -86,16 +141,20 @@ class TradingEngine {
   private isRunning = false;
   private stake = DERIV_CONFIG.DEFAULT_STAKE;
   private takeProfitPct = DERIV_CONFIG.TAKE_PROFIT_PCT;
+  private stopLossPct = DERIV_CONFIG.STOP_LOSS_PERCENT;
   private symbolAdjustments: Map<string, number> = new Map();
+  private broker: ContractBroker = derivWS;
+  private quotes: Map<string, QuoteStream> = new Map(); // symbol + contract terms -> stream
+  private watched: string[] = []; // symbols subscribed while running
+  private reconciling: Promise<void> | null = null;
+  private storedTradesChecked: Set<string> = new Set(); // loginids whose saved open trades have been looked up
+  private realMoneyConfirmed: string | null = null; // loginid the user has confirmed live trading on
+  private balanceMismatch = false;
   
   private readonly HISTORY_SIZE = 100;
+  private readonly MIN_HISTORY = 30;
 
   constructor() {
-    // Initialize price history for all symbols
-    Object.values(DERIV_CONFIG.SYMBOLS).forEach(symbol => {
-      this.priceHistory.set(symbol, []);
-    });
-    
     // Register queue stats handler
     tradeQueue.onStats((queueStats: QueueStats) => {
       this.stats.queueSize = queueStats.queueSize;
@@ -107,22 +166,310 @@ class TradingEngine {
     tradeQueue.onThrottle((message: string) => {
       this.log('throttle', `API THROTTLING: ${message}`);
     });
+    
+    // Rehydrate the journal and its stats from earlier sessions
+    journalStore.queryTrades()
+      .then(trades => this.restoreJournal(trades))
+      .catch(error => console.warn('[Journal] Could not restore the trade journal:', error));
+    
+    balanceReconciler.onUpdate(this.handleReconciliation);
+    
+    // Recover open positions after a reload or reconnect, whether or not the engine is running
+    derivWS.onStatusChange(status => {
+      if (status === 'authorized') {
+        this.reconcilePositions();
+      }
+    });
   }
 
-  public start() {
-    if (this.isRunning) return;
+  // Put persisted trades ahead of this session's and fold them into the lifetime stats
+  private restoreJournal(trades: Trade[]) {
+    const known = new Set(this.tradeJournal.map(t => t.id));
+    // Records without a result were cut off by a shutdown; reconcilePositions reopens them
+    const restored = trades.filter(t => t.result && !known.has(t.id));
+    if (restored.length === 0) return;
     
-    this.isRunning = true;
-    this.log('info', 'Trading engine started');
+    this.tradeJournal = [...restored, ...this.tradeJournal];
+    restored.forEach(trade => {
+      if (trade.result) this.countLifetime(trade.result, trade.profit);
+    });
+    this.updateStats();
+    this.log('info', `Restored ${restored.length} trade(s) from earlier sessions`);
+  }
+
+  private countLifetime(result: 'win' | 'loss', profit: number) {
+    this.stats.lifetimeTrades++;
+    this.stats.lifetimeProfit += profit;
+    if (result === 'win') {
+      this.stats.lifetimeWins++;
+    }
+  }
+
+  // Flag when the broker's balance and the engine's P/L stop agreeing
+  private handleReconciliation = (snapshot: BalanceReconciliation) => {
+    if (snapshot.isDiscrepant && !this.balanceMismatch) {
+      this.log('warning', `BALANCE MISMATCH: account moved ${snapshot.balanceDelta.toFixed(2)} but trades account for ${snapshot.expectedDelta.toFixed(2)} (difference ${snapshot.discrepancy.toFixed(2)})`);
+    } else if (!snapshot.isDiscrepant && this.balanceMismatch) {
+      this.log('info', 'Balance reconciled with engine P/L');
+    }
+    this.balanceMismatch = snapshot.isDiscrepant;
+  };
+
+  private recordClosedTrade(trade: Trade) {
+    this.tradeJournal.push(trade);
+    this.persistTrade(trade);
+  }
+
+  private persistTrade(trade: Trade) {
+    journalStore.saveTrade(trade).catch(error => console.warn('[Journal] Failed to save trade:', error));
+  }
+
+  // Match activeTrades to the account's portfolio on every authorize
+  public reconcilePositions(): Promise<void> {
+    if (!this.reconciling) {
+      this.reconciling = this.reconcile()
+        .catch(error => {
+          this.log('warning', `Position reconciliation failed: ${error instanceof Error ? error.message : String(error)}`);
+        })
+        .finally(() => {
+          this.reconciling = null;
+        });
+    }
+    return this.reconciling;
+  }
+
+  private async reconcile() {
+    // Paper contracts live in this page, so only the live account can have positions to recover
+    const loginid = derivWS.getAccountInfo()?.loginid;
+    if (this.broker !== derivWS || !loginid) return;
     
-    // Subscribe to all symbols
-    Object.values(DERIV_CONFIG.SYMBOLS).forEach(symbol => {
-      derivWS.subscribeTicks(symbol);
-      this.log('info', `Subscribed to ${symbol}`, symbol);
+    const [portfolio, stored] = await Promise.all([
+      derivWS.getActiveContracts(),
+      this.storedTradesChecked.has(loginid) ? Promise.resolve([]) : journalStore.queryOpenTrades(),
+    ]);
+    this.storedTradesChecked.add(loginid);
+    
+    const tracked = new Map<string, Trade>();
+    this.activeTrades.forEach(trade => {
+      if (trade.contractId) tracked.set(trade.contractId, trade);
     });
     
+    // Trades that were open when this page was last closed; their streams were lost with it
+    const unsubscribed: Trade[] = [];
+    stored.forEach(trade => {
+      // Trades saved before they were tagged are tried on whichever account comes first
+      if (!trade.contractId || tracked.has(trade.contractId)) return;
+      if (trade.loginid !== undefined && trade.loginid !== loginid) return;
+      trade.status = 'open';
+      trade.exitReason = undefined;
+      this.activeTrades.set(trade.id, trade);
+      tracked.set(trade.contractId, trade);
+      unsubscribed.push(trade);
+    });
+    
+    // Contracts bought elsewhere (another tab, or before the open trade was saved)
+    let adopted = 0;
+    for (const contract of portfolio) {
+      if (tracked.has(contract.contractId)) continue;
+      let trade: Trade | null;
+      try {
+        trade = await this.adoptContract(contract);
+      } catch (error) {
+        // One unreadable contract must not keep the others from being recovered
+        this.log('warning', `Could not adopt contract ${contract.contractId}: ${error instanceof Error ? error.message : String(error)}`, contract.symbol);
+        continue;
+      }
+      if (!trade) continue;
+      this.activeTrades.set(trade.id, trade);
+      tracked.set(contract.contractId, trade);
+      unsubscribed.push(trade);
+      this.persistTrade(trade);
+      adopted++;
+    }
+    
+    // Streams for tracked contracts are restored by derivWS; recovered ones subscribe here
+    const open = new Set(portfolio.map(c => c.contractId));
+    unsubscribed
+      .filter(trade => open.has(trade.contractId))
+      .forEach(trade => {
+        this.broker.subscribeOpenContract(trade.contractId, (update) => {
+          this.handleContractUpdate(trade.id, update);
+        });
+      });
+    
+    // Anything tracked but gone from the portfolio settled while we were offline
+    const closed = Array.from(tracked.values()).filter(trade => !open.has(trade.contractId));
+    const snapshots = await Promise.allSettled(closed.map(trade => derivWS.getOpenContract(trade.contractId)));
+    snapshots.forEach((snapshot, i) => {
+      const trade = closed[i];
+      if (snapshot.status === 'fulfilled') {
+        this.handleContractUpdate(trade.id, snapshot.value);
+        return;
+      }
+      const reason = snapshot.reason instanceof Error ? snapshot.reason.message : String(snapshot.reason);
+      this.log('warning', `Could not settle contract ${trade.contractId}: ${reason}`, trade.symbol);
+      // An untagged saved trade may belong to another account; leave it in the store for the next reload
+      if (unsubscribed.includes(trade)) {
+        this.activeTrades.delete(trade.id);
+      }
+    });
+    
+    const recovered = unsubscribed.filter(trade => open.has(trade.contractId)).length;
+    if (recovered > 0) {
+      this.log('info', `Recovered ${recovered} open position(s)${adopted > 0 ? ` (${adopted} opened elsewhere)` : ''}`);
+    }
+    const settled = snapshots.filter(s => s.status === 'fulfilled').length;
+    if (settled > 0) {
+      this.log('info', `Reconciled ${settled} position(s) that closed while offline`);
+    }
+    this.calculateUnrealizedProfit();
+    this.updateStats();
+  }
+
+  // Rebuild a Trade from the portfolio and the contract's current state
+  private async adoptContract(contract: PortfolioContract): Promise<Trade | null> {
+    if (!isContractType(contract.contractType)) {
+      this.log('warning', `Open ${contract.contractType} contract ${contract.contractId} is not a type this app manages`, contract.symbol);
+      return null;
+    }
+    
+    const update = await derivWS.getOpenContract(contract.contractId);
+    const terms: ContractParameters = { contractType: contract.contractType };
+    if (update.multiplier !== undefined) {
+      terms.multiplier = update.multiplier;
+    } else if (update.tickCount !== undefined) {
+      terms.duration = update.tickCount;
+      terms.durationUnit = 't';
+    } else {
+      terms.duration = contract.expiryTime - contract.purchaseTime;
+      terms.durationUnit = 's';
+    }
+    // Deriv reports the entry spot as the barrier of a rise/fall contract
+    const isRiseFall = (terms.contractType === 'CALL' || terms.contractType === 'PUT') && Number(update.barrier) === update.entrySpot;
+    if (update.barrier !== undefined && !isRiseFall && getContractCategory(terms) !== 'multiplier') {
+      terms.barrier = update.barrier;
+    }
+    
+    return {
+      id: `${contract.symbol}_${contract.contractId}`,
+      symbol: contract.symbol,
+      direction: contractDirection(terms.contractType),
+      contract: terms,
+      entryPrice: update.entrySpot ?? 0,
+      currentPrice: update.currentSpot ?? 0,
+      stake: contract.buyPrice,
+      profit: update.profit,
+      status: 'open',
+      openTime: contract.purchaseTime * 1000,
+      contractId: contract.contractId,
+      buyPrice: contract.buyPrice,
+      bidPrice: update.bidPrice,
+      payout: contract.payout,
+      barrier: update.barrier,
+      unrealizedProfit: update.profit,
+      loginid: derivWS.getAccountInfo()?.loginid,
+    };
+  }
+
+  public start(): boolean {
+    if (this.isRunning) return true;
+    
+    // Live trading needs to know which account it is on, and real money needs an explicit go-ahead
+    if (this.stats.tradingMode === 'live') {
+      const account = derivWS.getAccountInfo();
+      if (!account) {
+        this.log('warning', 'Wait for the account to authorize before starting live trading');
+        return false;
+      }
+      if (!account.isVirtual && this.realMoneyConfirmed !== account.loginid) {
+        this.log('warning', `${account.loginid} is a real-money account - confirm real trading before starting`);
+        return false;
+      }
+    }
+    this.clampStake();
+    
+    this.isRunning = true;
+    this.log('info', `Trading engine started (${this.stats.tradingMode === 'paper' ? 'PAPER' : 'LIVE'} mode)`);
+    
+    // Subscribe to the watchlist, and follow changes to it while running
+    this.watched = [];
+    this.watchSymbols(symbolCatalog.getWatchlist());
+    symbolCatalog.onChange(this.handleCatalogChange);
+    
     // Register tick handler
     derivWS.onTick('*', this.handleTick.bind(this));
+    
+    // Warm up indicators now, and refill any gap after each reconnect
+    // (the status handler is called at once, covering the 'connected' case)
+    if (derivWS.getStatus() === 'authorized') {
+      this.backfillHistory();
+    }
+    derivWS.onStatusChange(this.handleStatusChange);
+    return true;
+  }
+
+  private handleStatusChange = (status: ConnectionStatus) => {
+    if (status === 'connected') {
+      // Proposal streams do not survive a reconnect; they reopen on the next signal
+      this.closeQuotes();
+      this.backfillHistory();
+    }
+  };
+
+  private handleCatalogChange = () => {
+    const watchlist = symbolCatalog.getWatchlist();
+    const removed = this.watched.filter(symbol => !watchlist.includes(symbol));
+    const added = watchlist.filter(symbol => !this.watched.includes(symbol));
+    
+    removed.forEach(symbol => {
+      derivWS.unsubscribeTicks(symbol);
+      this.log('info', `Unsubscribed from ${symbol}`, symbol);
+    });
+    this.watched = this.watched.filter(symbol => !removed.includes(symbol));
+    
+    if (added.length > 0) {
+      this.watchSymbols(added);
+      if (derivWS.getStatus() === 'authorized') {
+        this.backfillHistory(added);
+      }
+    }
+  };
+
+  private watchSymbols(symbols: string[]) {
+    symbols.forEach(symbol => {
+      derivWS.subscribeTicks(symbol);
+      this.log('info', `Subscribed to ${symbolCatalog.getDisplayName(symbol)} (${symbol})`, symbol);
+    });
+    this.watched.push(...symbols);
+  }
+
+  private async backfillHistory(symbols: string[] = this.watched) {
+    const results = await Promise.allSettled(
+      symbols.map(async symbol => {
+        const ticks = await this.candles.backfill(
+          derivWS,
+          symbol,
+          () => this.priceHistory.get(symbol) || [],
+          Math.max(this.HISTORY_SIZE, this.digits.getWindowSize())
+        );
+        this.priceHistory.set(symbol, ticks.slice(-this.HISTORY_SIZE));
+        this.digits.load(symbol, ticks);
+        // Seeded from a fixed window so indicators do not depend on how much history this backfill got
+        this.indicatorStreams.set(symbol, StreamingIndicators.fromHistory(
+          ticks.slice(-this.HISTORY_SIZE).map(t => t.quote),
+          this.candles.getCandles(symbol).slice(-this.HISTORY_SIZE)
+        ));
+        return ticks.length;
+      })
+    );
+    
+    const loaded = results.reduce((sum, r) => sum + (r.status === 'fulfilled' ? r.value : 0), 0);
+    const failed = results.filter(r => r.status === 'rejected').length;
+    if (failed > 0) {
+      this.log('warning', `Tick history unavailable for ${failed} symbol(s) - warming up from live ticks`);
+    } else {
+      this.log('info', `Loaded ${loaded} historical ticks for indicator warm-up`);
+    }
   }
 
   public async stop() {
@@ -141,20 +488,27 @@ class TradingEngine {
     if (openTrades.length > 0) {
       this.log('info', `Closing ${openTrades.length} active position(s)...`);
       
-      // Sell all contracts
+      // Sell all contracts; a sold trade is closed at its actual sell price so the balance
+      // reconciler is credited, and an unsold one stays tracked until it settles
       const sellPromises = openTrades.map(async (trade) => {
         if (trade.contractId && trade.status !== 'closing') {
           trade.status = 'closing';
+          trade.exitReason = 'shutdown';
           try {
-            const result = await derivWS.sellContract(trade.contractId, 0);
+            const result = await this.broker.sellContract(trade.contractId, 0);
             if (result.success) {
               this.log('trade', `Sold contract ${trade.contractId}`, trade.symbol);
-            } else {
-              this.log('warning', `Failed to sell ${trade.contractId}: ${result.error}`, trade.symbol);
+              this.closeSold(trade, result.sellPrice ?? 0);
+              return;
             }
+            this.log('warning', `Failed to sell ${trade.contractId}: ${result.error}`, trade.symbol);
           } catch (error) {
             this.log('error', `Error selling contract: ${error}`, trade.symbol);
           }
+          if (trade.status === 'closing') {
+            trade.status = 'open';
+            trade.exitReason = undefined;
+          }
         }
       });
       
@@ -165,39 +519,53 @@ class TradingEngine {
       ]);
     }
     
+    derivWS.offStatusChange(this.handleStatusChange);
+    symbolCatalog.offChange(this.handleCatalogChange);
+    this.closeQuotes();
+    
     // Unsubscribe from all symbols
-    Object.values(DERIV_CONFIG.SYMBOLS).forEach(symbol => {
+    this.watched.forEach(symbol => {
       derivWS.unsubscribeTicks(symbol);
     });
+    this.watched = [];
     
-    // Clear any remaining trades
-    this.activeTrades.forEach((trade, id) => {
-      if (trade.status !== 'closed') {
-        trade.status = 'closed';
-        trade.closeTime = Date.now();
-        this.tradeJournal.push(trade);
-      }
-    });
-    this.activeTrades.clear();
+    // Positions that could not be sold keep their contract streams and close when they settle
+    if (this.activeTrades.size > 0) {
+      this.log('warning', `${this.activeTrades.size} position(s) still open - they will be closed when they settle`);
+    }
     
     this.updateStats();
     this.log('info', 'Trading engine stopped');
   }
 
-  private handleTick(tick: TickUpdate) {
-    if (!this.isRunning) return;
+  // Close a trade the engine sold itself, without waiting for the contract stream to report it
+  private closeSold(trade: Trade, sellPrice: number) {
+    if (!this.activeTrades.has(trade.id)) return; // the stream got there first
     
-    // Update price history
-    const history = this.priceHistory.get(tick.symbol) || [];
-    history.push(tick.quote);
+    const profit = roundTo(sellPrice - (trade.buyPrice ?? trade.stake), 2);
+    this.broker.unsubscribeOpenContract(trade.contractId);
+    this.closeTrade(trade.id, profit >= 0 ? 'win' : 'loss', profit);
+  }
+
+  private handleTick(tick: TickUpdate) {
+    if (!this.isRunning || !this.watched.includes(tick.symbol)) return;
     
-    // Keep only last N prices
-    if (history.length > this.HISTORY_SIZE) {
-      history.shift();
-    }
+    // Ignore ticks already seen (e.g. replayed after a resubscribe)
+    const previous = this.priceHistory.get(tick.symbol) || [];
+    if (previous.length > 0 && tick.epoch <= previous[previous.length - 1].epoch) return;
     
+    // Update price history, keeping only the last N ticks
+    const history = mergeTicks(previous, [tick], this.HISTORY_SIZE);
     this.priceHistory.set(tick.symbol, history);
     
+    // Update indicators incrementally from the new tick and its candle
+    this.candles.addTick(tick);
+    const stream = this.indicatorStreams.get(tick.symbol) || new StreamingIndicators();
+    stream.update(tick.quote);
+    stream.updateBar(this.candles.getLatest(tick.symbol));
+    this.indicatorStreams.set(tick.symbol, stream);
+    this.digits.addTick(tick);
+    
     // Update active trades current price (for display only - actual P/L comes from contract)
     this.activeTrades.forEach((trade) => {
       if (trade.symbol === tick.symbol && trade.status === 'open') {
@@ -207,7 +575,7 @@ class TradingEngine {
     });
     
     // Analyze for signals (only if we have enough data)
-    if (history.length >= 30) {
+    if (history.length >= this.MIN_HISTORY) {
       this.analyzeSymbol(tick.symbol, tick.quote);
     }
   }
@@ -220,18 +588,35 @@ class TradingEngine {
     trade.buyPrice = update.buyPrice;
     trade.bidPrice = update.bidPrice;
     trade.payout = update.payout;
+    if (update.entrySpot !== undefined) trade.entryPrice = update.entrySpot;
+    if (update.currentSpot !== undefined) trade.currentPrice = update.currentSpot;
+    if (update.barrier !== undefined) trade.barrier = update.barrier;
     trade.unrealizedProfit = update.profit;
     trade.profit = update.profit; // Use real P/L from Deriv
+    trade.isValidToSell = update.isValidToSell;
+    if (trade.entryBid === undefined && update.isValidToSell) {
+      trade.entryBid = update.bidPrice;
+    }
     
     // Notify handlers of update
     this.tradeHandlers.forEach(h => h(trade));
     
+    const isLive = trade.status === 'open' && !update.isSold && !update.isExpired;
+    // Only try to sell while the broker says it would accept; digit contracts never qualify, so
+    // they always run to expiry
+    const canSellEarly = isLive && update.isValidToSell;
+    
     // Check for take-profit condition
     const takeProfitThreshold = trade.stake * this.takeProfitPct;
-    if (update.profit >= takeProfitThreshold && trade.status === 'open' && !update.isSold && !update.isExpired) {
+    if (canSellEarly && update.profit >= takeProfitThreshold) {
       this.log('ai', `Profit target hit (${update.profit.toFixed(2)}) - selling early`, trade.symbol);
-      trade.status = 'closing';
-      derivWS.sellContract(update.contractId, 0);
+      this.sellEarly(trade, update.contractId, 'take_profit');
+    }
+    
+    // Check for stop-loss condition
+    if (canSellEarly && trade.status === 'open' && isStopLossHit(trade.entryBid, update.bidPrice, trade.stake, this.stopLossPct)) {
+      this.log('warning', `STOP LOSS hit (bid ${update.bidPrice.toFixed(2)}, down ${(trade.entryBid - update.bidPrice).toFixed(2)} from ${trade.entryBid.toFixed(2)} at entry) - selling to cap loss`, trade.symbol);
+      this.sellEarly(trade, update.contractId, 'stop_loss');
     }
     
     // Check if contract is settled
@@ -240,17 +625,39 @@ class TradingEngine {
       const finalProfit = update.sellPrice ? update.sellPrice - update.buyPrice : update.profit;
       
       // Unsubscribe from contract updates
-      derivWS.unsubscribeOpenContract(update.contractId);
+      this.broker.unsubscribeOpenContract(update.contractId);
       
       // Close the trade with final P/L
-      this.closeTrade(tradeId, result, finalProfit);
+      this.closeTrade(tradeId, result, finalProfit, update.sellTime ? update.sellTime * 1000 : undefined);
     }
     
     // Update unrealized P/L in stats
     this.calculateUnrealizedProfit();
+    this.checkDrawdown();
     this.updateStats();
   }
 
+  // Sell before expiry; on failure the trade reopens so the next update can retry
+  private sellEarly(trade: Trade, contractId: string, reason: 'take_profit' | 'stop_loss') {
+    trade.status = 'closing';
+    trade.exitReason = reason;
+    
+    this.broker.sellContract(contractId, 0).then(result => {
+      if (!result.success && trade.status === 'closing') {
+        trade.status = 'open';
+        trade.exitReason = undefined;
+        this.log('warning', `Early sell failed (${result.error}) - will retry`, trade.symbol);
+      }
+    });
+  }
+
+  private checkDrawdown() {
+    const breach = riskManager.updateEquity(this.stats.realizedProfit, this.stats.unrealizedProfit);
+    if (breach) {
+      this.haltForRisk(breach);
+    }
+  }
+
   private calculateUnrealizedProfit() {
     let unrealized = 0;
     this.activeTrades.forEach(trade => {
@@ -270,20 +677,30 @@ class TradingEngine {
     if (tradeQueue.isInCooldown(symbol)) {
       return; // Skip analysis for symbols on cooldown
     }
+    if (!symbolCatalog.isOpen(symbol)) return;
     
-    const history = this.priceHistory.get(symbol) || [];
-    const indicators = calculateAllIndicators(history);
+    const history = (this.priceHistory.get(symbol) || []).map(t => t.quote);
+    const indicators = this.indicatorStreams.get(symbol)?.getResult();
+    if (!indicators) return;
     
-    // Calculate probability based on indicators
-    const { probability, direction, reasoning } = this.calculateTradeProbability(
+    // Score the symbol with its assigned strategy
+    const strategy = strategyRegistry.getForSymbol(symbol);
+    const decision = strategy.evaluate({
       symbol,
-      currentPrice,
-      indicators
-    );
+      price: currentPrice,
+      prices: history,
+      indicators,
+      digits: this.digits.getStats(symbol),
+    });
+    if (!decision) return;
+    const { direction, reasoning } = decision;
+    
+    // Skip contracts the symbol does not offer, e.g. digits on crash/boom indices
+    if (!symbolCatalog.supports(symbol, decision.contract)) return;
     
     // Apply symbol-specific adjustment
     const adjustment = this.symbolAdjustments.get(symbol) || 0;
-    const adjustedProbability = Math.max(0, Math.min(1, probability - adjustment));
+    const adjustedProbability = Math.max(0, Math.min(1, decision.confidence - adjustment));
     
     // Check if we should generate a signal
     if (adjustedProbability >= DERIV_CONFIG.MIN_PROBABILITY) {
@@ -294,113 +711,119 @@ class TradingEngine {
         reasoning,
         indicators,
         timestamp: Date.now(),
+        strategyId: strategy.id,
+        contract: decision.contract,
       };
       
-      this.log('signal', reasoning, symbol, { probability: adjustedProbability, direction });
-      this.signalHandlers.forEach(h => h(signal));
-      
-      // Execute trade through queue if conditions are met
-      if (!this.activeTrades.has(`${symbol}_${direction}`)) {
-        this.executeTrade(signal);
-      }
+      this.priceSignal(signal);
     }
   }
 
-  private calculateTradeProbability(
-    symbol: string,
-    price: number,
-    indicators: IndicatorResult
-  ): { probability: number; direction: 'LONG' | 'SHORT'; reasoning: string } {
-    let longScore = 0;
-    let shortScore = 0;
-    const reasons: string[] = [];
-
-    // RSI Analysis
-    if (indicators.rsi !== null) {
-      if (indicators.rsi < DERIV_CONFIG.INDICATORS.RSI_OVERSOLD) {
-        longScore += 0.25;
-        reasons.push(`RSI oversold (${indicators.rsi.toFixed(1)})`);
-      } else if (indicators.rsi > DERIV_CONFIG.INDICATORS.RSI_OVERBOUGHT) {
-        shortScore += 0.25;
-        reasons.push(`RSI overbought (${indicators.rsi.toFixed(1)})`);
-      } else if (indicators.rsi > 50) {
-        longScore += 0.1;
-      } else {
-        shortScore += 0.1;
-      }
+  // Quote the signal's contract, then trade it only if the expected value is not negative
+  private async priceSignal(signal: TradeSignal) {
+    const { symbol, direction, probability } = signal;
+    const quote = await this.getQuote(symbol as SymbolValue, signal.contract);
+    if (!quote || !this.isRunning) return;
+    
+    signal.expectedValue = expectedValue(signal.contract, probability, quote.payout, quote.askPrice);
+    if (signal.expectedValue !== undefined) {
+      signal.payout = quote.payout;
+      const sign = signal.expectedValue >= 0 ? '+' : '';
+      signal.reasoning += ` | EV ${sign}${signal.expectedValue.toFixed(2)} (pays ${quote.payout.toFixed(2)} on ${quote.askPrice.toFixed(2)})`;
     }
+    
+    this.log('signal', signal.reasoning, symbol, {
+      probability,
+      direction,
+      strategy: signal.strategyId,
+      expectedValue: signal.expectedValue,
+      payout: signal.payout,
+    });
+    this.signalHandlers.forEach(h => h(signal));
+    
+    if (signal.expectedValue < 0) {
+      this.log('warning', `Signal rejected: negative expected value on ${symbol}`, symbol);
+      return;
+    }
+    
+    // Execute trade through queue if conditions are met
+    if (!this.activeTrades.has(`${symbol}_${direction}`)) {
+      this.executeTrade(signal);
+    }
+  }
 
-    // ADX Trend Strength
-    if (indicators.adx !== null) {
-      if (indicators.adx > DERIV_CONFIG.INDICATORS.ADX_TREND_THRESHOLD) {
-        const trendBonus = Math.min(0.2, (indicators.adx - 25) / 100);
-        if (longScore > shortScore) {
-          longScore += trendBonus;
-        } else {
-          shortScore += trendBonus;
+  // Latest quote for a contract at the current stake. The first call opens a proposal stream
+  // and waits for its first quote; later calls read the streamed price.
+  private async getQuote(symbol: SymbolValue, contract: ContractParameters): Promise<Proposal | null> {
+    const key = `${symbol}|${JSON.stringify(contract)}`;
+    let stream = this.quotes.get(key);
+    
+    if (!stream) {
+      const broker = this.broker;
+      const entry: QuoteStream = { streamId: null, latest: null, ready: null };
+      entry.ready = broker.subscribeProposal(symbol, contract, this.stake, proposal => {
+        entry.latest = proposal;
+      }).then(streamId => {
+        // Closed while the subscription was in flight
+        if (this.quotes.get(key) !== entry) {
+          broker.unsubscribeProposal(streamId);
+          return;
         }
-        reasons.push(`Strong trend (ADX: ${indicators.adx.toFixed(1)})`);
-      }
+        entry.streamId = streamId;
+      }).catch(error => {
+        // Kept so the failure is not retried on every tick; cleared with the other streams
+        const message = error instanceof Error ? error.message : String(error);
+        this.log('warning', `Could not price ${symbol} contract: ${message}`, symbol);
+      });
+      this.quotes.set(key, entry);
+      stream = entry;
     }
+    
+    await stream.ready;
+    return this.quotes.get(key) === stream ? stream.latest : null;
+  }
 
-    // Bollinger Bands
-    if (indicators.bollingerUpper !== null && indicators.bollingerLower !== null) {
-      const bandwidth = indicators.bollingerUpper - indicators.bollingerLower;
-      const position = (price - indicators.bollingerLower) / bandwidth;
-      
-      if (position < 0.1) {
-        longScore += 0.2;
-        reasons.push('Price at lower Bollinger Band');
-      } else if (position > 0.9) {
-        shortScore += 0.2;
-        reasons.push('Price at upper Bollinger Band');
+  private closeQuotes() {
+    this.quotes.forEach(stream => {
+      if (stream.streamId) {
+        this.broker.unsubscribeProposal(stream.streamId);
       }
-    }
+    });
+    this.quotes.clear();
+  }
 
-    // MACD
-    if (indicators.macd !== null) {
-      if (indicators.macd.histogram > 0 && indicators.macd.macd > indicators.macd.signal) {
-        longScore += 0.15;
-        reasons.push('MACD bullish crossover');
-      } else if (indicators.macd.histogram < 0 && indicators.macd.macd < indicators.macd.signal) {
-        shortScore += 0.15;
-        reasons.push('MACD bearish crossover');
-      }
+  private async executeTrade(signal: TradeSignal) {
+    // The account can only have changed under a running engine by going around switchAccount
+    if (this.broker === derivWS && !this.isRealMoneyConfirmed()) {
+      this.log('warning', 'Live account is unconfirmed or not authorized - skipping trade', signal.symbol);
+      return;
     }
-
-    // SMA/EMA Analysis
-    if (indicators.sma !== null && indicators.ema !== null) {
-      if (price > indicators.sma && indicators.ema > indicators.sma) {
-        longScore += 0.1;
-        reasons.push('Price above SMA, EMA above SMA');
-      } else if (price < indicators.sma && indicators.ema < indicators.sma) {
-        shortScore += 0.1;
-        reasons.push('Price below SMA, EMA below SMA');
+    
+    // Consult the risk manager before committing any stake
+    const riskCheck = riskManager.checkTrade(signal.symbol, this.stake, Array.from(this.activeTrades.values()));
+    if (!riskCheck.allowed) {
+      if (riskCheck.halt) {
+        this.haltForRisk(riskCheck.reason);
+      } else {
+        this.log('warning', `Risk check rejected trade: ${riskCheck.reason}`, signal.symbol);
       }
+      return;
     }
-
-    const direction = longScore >= shortScore ? 'LONG' : 'SHORT';
-    const maxScore = Math.max(longScore, shortScore);
-    const probability = Math.min(0.95, maxScore + 0.4); // Base probability + indicator score
-    
-    const reasoning = `${symbol}: ${direction} signal - ${reasons.join(', ')} | P=${(probability * 100).toFixed(0)}%`;
     
-    return { probability, direction, reasoning };
-  }
-
-  private async executeTrade(signal: TradeSignal) {
     const tradeId = `${signal.symbol}_${signal.direction}_${Date.now()}`;
     
     const trade: Trade = {
       id: tradeId,
       symbol: signal.symbol,
       direction: signal.direction,
+      contract: signal.contract,
       entryPrice: 0, // Will be set on confirmation
       currentPrice: 0,
       stake: this.stake,
       profit: 0,
       status: 'pending',
       openTime: Date.now(),
+      loginid: this.broker === derivWS ? derivWS.getAccountInfo()?.loginid : undefined,
     };
     
     this.activeTrades.set(tradeId, trade);
@@ -408,8 +831,6 @@ class TradingEngine {
     const currency = derivWS.getAccountCurrency();
     this.log('trade', `Queuing ${signal.direction} position on ${signal.symbol} @ ${this.stake} ${currency}`, signal.symbol);
     
-    const contractType = signal.direction === 'LONG' ? 'CALL' : 'PUT';
-    
     // Calculate priority based on signal probability
     const priority = signal.probability >= DERIV_CONFIG.HIGH_PRIORITY_THRESHOLD ? 2 : 1;
     if (priority === 2) {
@@ -420,23 +841,27 @@ class TradingEngine {
       // Use the trade queue with priority
       const result = await tradeQueue.addTrade(
         signal.symbol as SymbolValue,
-        contractType,
+        signal.contract,
         this.stake,
-        5, // 5 ticks duration
-        't',
         priority
       );
       
       if (result.success && result.contractId) {
         trade.status = 'open';
         trade.contractId = result.contractId;
-        trade.entryPrice = result.buyPrice || this.priceHistory.get(signal.symbol)?.slice(-1)[0] || 0;
+        trade.entryPrice = result.buyPrice || this.priceHistory.get(signal.symbol)?.slice(-1)[0]?.quote || 0;
         trade.buyPrice = result.buyPrice;
         
         this.log('trade', `Trade opened: ${result.contractId}`, signal.symbol);
         
+        // Saved while open so a reload can find it again (see reconcilePositions)
+        if (this.broker === derivWS) {
+          this.persistTrade(trade);
+          balanceReconciler.recordPurchase(result.buyPrice ?? this.stake);
+        }
+        
         // Subscribe to contract updates for realtime P/L
-        derivWS.subscribeOpenContract(result.contractId, (update) => {
+        this.broker.subscribeOpenContract(result.contractId, (update) => {
           this.handleContractUpdate(tradeId, update);
         });
       } else {
@@ -468,28 +893,38 @@ class TradingEngine {
     this.updateStats();
   }
 
-  public closeTrade(tradeId: string, result: 'win' | 'loss', profit: number) {
+  public closeTrade(tradeId: string, result: 'win' | 'loss', profit: number, closeTime: number = Date.now()) {
     const trade = this.activeTrades.get(tradeId);
     if (!trade) return;
     
     trade.status = 'closed';
-    trade.closeTime = Date.now();
+    trade.closeTime = closeTime;
     trade.result = result;
     trade.profit = profit;
+    trade.exitReason = trade.exitReason || 'expiry';
     
-    this.tradeJournal.push(trade);
+    this.recordClosedTrade(trade);
     this.activeTrades.delete(tradeId);
+    if (this.broker === derivWS && trade.contractId) {
+      // What the broker paid back: the sell price, or nothing for a lost contract
+      balanceReconciler.recordSettlement(roundTo((trade.buyPrice ?? trade.stake) + profit, 2));
+    }
     
     // Update stats
     this.stats.totalTrades++;
     this.stats.realizedProfit += profit;
+    this.countLifetime(result, profit);
     
     if (result === 'win') {
       this.stats.wins++;
       this.log('trade', `WIN: +${profit.toFixed(2)} on ${trade.symbol}`, trade.symbol);
     } else {
       this.stats.losses++;
-      this.log('trade', `LOSS: ${profit.toFixed(2)} on ${trade.symbol}`, trade.symbol);
+      if (trade.exitReason === 'stop_loss') {
+        this.log('warning', `STOPPED OUT: ${profit.toFixed(2)} on ${trade.symbol} (limit ${(this.stopLossPct * 100).toFixed(0)}% of stake)`, trade.symbol);
+      } else {
+        this.log('trade', `LOSS: ${profit.toFixed(2)} on ${trade.symbol}`, trade.symbol);
+      }
       
       // Adaptive learning - tighten requirements for losing symbol
       const currentAdj = this.symbolAdjustments.get(trade.symbol) || 0;
@@ -500,6 +935,14 @@ class TradingEngine {
     // Recalculate total profit
     this.calculateUnrealizedProfit();
     
+    // Feed the result to the risk manager (daily loss, loss streak, drawdown)
+    const riskBreach = riskManager.recordClosedTrade(profit);
+    if (riskBreach) {
+      this.haltForRisk(riskBreach);
+    } else {
+      this.checkDrawdown();
+    }
+    
     this.stats.winRate = this.stats.totalTrades > 0 
       ? this.stats.wins / this.stats.totalTrades 
       : 0;
@@ -513,6 +956,9 @@ class TradingEngine {
   }
 
   private pauseForCalibration() {
+    // A risk halt already stops trading and must not be lifted by the calibration timer
+    if (riskManager.isHalted()) return;
+    
     this.stats.isPaused = true;
     this.stats.pauseReason = 'Market Calibration - Win rate below threshold';
     
@@ -525,6 +971,7 @@ class TradingEngine {
     tradeQueue.clearQueue();
     
     setTimeout(() => {
+      if (riskManager.isHalted()) return;
       this.stats.isPaused = false;
       this.stats.pauseReason = undefined;
       this.log('info', 'Calibration complete. Resuming trading...', undefined);
@@ -534,8 +981,21 @@ class TradingEngine {
     this.updateStats();
   }
 
+  private haltForRisk(reason: string) {
+    const pauseReason = `Risk limit - ${reason}`;
+    if (this.stats.pauseReason === pauseReason) return;
+    
+    this.stats.isPaused = true;
+    this.stats.pauseReason = pauseReason;
+    this.log('warning', `RISK HALT: ${reason}. Trading stopped until reviewed.`);
+    
+    tradeQueue.clearQueue();
+    this.updateStats();
+  }
+
   private updateStats() {
     this.stats.activeTradesCount = this.activeTrades.size;
+    riskManager.updateExposure(Array.from(this.activeTrades.values()));
     this.statsHandlers.forEach(h => h({ ...this.stats }));
   }
 
@@ -546,8 +1006,10 @@ class TradingEngine {
       symbol,
       message,
       data,
+      loginid: derivWS.getAccountInfo()?.loginid,
     };
     
+    journalStore.saveLog(entry);
     this.logHandlers.forEach(h => h(entry));
   }
 
@@ -570,11 +1032,72 @@ class TradingEngine {
   }
 
   public setStake(stake: number) {
-    this.stake = Math.max(DERIV_CONFIG.DEFAULT_STAKE, Math.min(DERIV_CONFIG.MAX_STAKE, stake));
+    this.stake = Math.max(DERIV_CONFIG.DEFAULT_STAKE, Math.min(this.getMaxStake(), stake));
+    // Quotes are priced for a stake
+    this.closeQuotes();
     const currency = derivWS.getAccountCurrency();
     this.log('info', `Stake updated to ${this.stake} ${currency}`);
   }
 
+  public getStake(): number {
+    return this.stake;
+  }
+
+  // Real-money accounts trade under a lower ceiling than demo and paper
+  public getMaxStake(): number {
+    const account = derivWS.getAccountInfo();
+    return this.stats.tradingMode === 'live' && account && !account.isVirtual
+      ? DERIV_CONFIG.REAL_MAX_STAKE
+      : DERIV_CONFIG.MAX_STAKE;
+  }
+
+  private clampStake() {
+    if (this.stake > this.getMaxStake()) {
+      this.setStake(this.getMaxStake());
+    }
+  }
+
+  public isRealMoneyConfirmed(): boolean {
+    const account = derivWS.getAccountInfo();
+    return !!account && (account.isVirtual || this.realMoneyConfirmed === account.loginid);
+  }
+
+  // The user's explicit go-ahead to trade the current real-money account, held until the account changes
+  public confirmRealMoney(loginid: string): boolean {
+    const account = derivWS.getAccountInfo();
+    if (!account || account.loginid !== loginid) {
+      this.log('warning', `Real-money confirmation was for ${loginid}, but the connected account is ${account?.loginid ?? 'unknown'}`);
+      return false;
+    }
+    this.realMoneyConfirmed = loginid;
+    this.clampStake();
+    this.log('warning', `REAL MONEY trading confirmed on ${loginid} - stake capped at ${DERIV_CONFIG.REAL_MAX_STAKE.toFixed(2)} ${account.currency}`);
+    return true;
+  }
+
+  // Reconnect with another saved account; positions belong to the account that opened them
+  public switchAccount(accountId: string): boolean {
+    if (this.isRunning) {
+      this.log('warning', 'Stop the engine before switching accounts');
+      return false;
+    }
+    if (this.activeTrades.size > 0) {
+      this.log('warning', 'Wait for open positions to close before switching accounts');
+      return false;
+    }
+
+    const account = accountManager.getAccounts().find(a => a.id === accountId);
+    if (!account) {
+      this.log('error', `Unknown account ${accountId}`);
+      return false;
+    }
+    this.log('info', `Switching to ${account.name}${account.loginid ? ` (${account.loginid})` : ''}...`);
+    this.realMoneyConfirmed = null;
+    this.closeQuotes();
+    accountManager.activate(accountId);
+    return true;
+  }
+
   public setTakeProfitPct(pct: number) {
     this.takeProfitPct = Math.max(0.01, Math.min(0.50, pct)); // 1% to 50%
     this.log('info', `Profit target updated to ${(this.takeProfitPct * 100).toFixed(0)}%`);
@@ -584,6 +1107,77 @@ class TradingEngine {
     return this.takeProfitPct;
   }
 
+  public setStopLossPct(pct: number) {
+    this.stopLossPct = Math.max(0.01, Math.min(1.0, pct)); // 1% to 100%
+    this.log('info', `Stop loss updated to ${(this.stopLossPct * 100).toFixed(0)}%`);
+  }
+
+  public getStopLossPct(): number {
+    return this.stopLossPct;
+  }
+
+  // Route buys and sells to the live account or the simulated paper broker
+  public setTradingMode(mode: TradingMode): boolean {
+    if (this.isRunning) {
+      this.log('warning', 'Stop the engine before switching trading mode');
+      return false;
+    }
+    // Recovered positions stay with the broker that holds them
+    if (this.activeTrades.size > 0) {
+      this.log('warning', 'Wait for open positions to close before switching trading mode');
+      return false;
+    }
+
+    this.broker = mode === 'paper' ? paperBroker : derivWS;
+    tradeQueue.setBroker(this.broker);
+    this.stats.tradingMode = mode;
+    this.clampStake();
+    this.log('info', mode === 'paper'
+      ? `Paper trading enabled - virtual balance ${paperBroker.getBalance().toFixed(2)}`
+      : 'Live trading enabled - orders go to the Deriv account');
+    this.updateStats();
+    return true;
+  }
+
+  public getTradingMode(): TradingMode {
+    return this.stats.tradingMode;
+  }
+
+  public getBroker(): ContractBroker {
+    return this.broker;
+  }
+
+  // Manually close an open position at market
+  public async closePosition(tradeId: string): Promise<TradeResult> {
+    const trade = this.activeTrades.get(tradeId);
+    if (!trade || !trade.contractId || trade.status !== 'open') {
+      return { success: false, error: 'Position is not open' };
+    }
+    
+    trade.status = 'closing';
+    trade.exitReason = 'manual';
+    const result = await this.broker.sellContract(trade.contractId, 0);
+    if (!result.success && trade.status === 'closing') {
+      trade.status = 'open';
+      trade.exitReason = undefined;
+    }
+    return result;
+  }
+
+  // Lift a risk halt after review; the daily loss limit holds until the next UTC day
+  public resumeAfterRiskHalt(): boolean {
+    if (!riskManager.acknowledgeHalt()) {
+      this.log('warning', `Risk halt still in force: ${riskManager.getHaltReason()}`);
+      return false;
+    }
+    
+    this.stats.isPaused = false;
+    this.stats.pauseReason = undefined;
+    this.log('info', 'Risk halt acknowledged. Resuming trading...');
+    this.updateStats();
+    return true;
+  }
+
   public getActiveTrades(): Trade[] {
     return Array.from(this.activeTrades.values());
   }
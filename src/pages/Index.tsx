@@ -1,6 +1,8 @@
 import { StatsHeader } from '@/components/StatsHeader';
 import { Terminal } from '@/components/Terminal';
 import { MarketScanner } from '@/components/MarketScanner';
+import { DigitScanner } from '@/components/DigitScanner';
+import { SymbolSelector } from '@/components/SymbolSelector';
 import { TradingControls } from '@/components/TradingControls';
 import { ActiveTrades } from '@/components/ActiveTrades';
 import { TradeHistory } from '@/components/TradeHistory';
@@ -32,10 +34,21 @@ const Index = () => {
                 <span className="h-2 w-2 rounded-full bg-primary animate-pulse" />
                 MARKET SCANNER
                 <span className="text-xs text-muted-foreground ml-2">Real-time analysis</span>
+                <SymbolSelector />
               </h2>
               <MarketScanner />
             </div>
 
+            {/* Digit Analysis */}
+            <div className="border border-border rounded-lg bg-card/50 backdrop-blur-sm p-4">
+              <h2 className="text-sm font-medium text-foreground mb-4 flex items-center gap-2">
+                <span className="h-2 w-2 rounded-full bg-primary animate-pulse" />
+                DIGIT ANALYSIS
+                <span className="text-xs text-muted-foreground ml-2">Last-digit distribution</span>
+              </h2>
+              <DigitScanner />
+            </div>
+
             {/* Terminal */}
             <div className="h-[350px]">
               <Terminal />
@@ -0,0 +1,26 @@
+import { useEffect } from "react";
+import { Activity } from "lucide-react";
+import { getOAuthUrl } from "@/lib/deriv-oauth";
+
+// Hands the browser to Deriv's OAuth page; Deriv sends it back to /oauth/callback
+const Login = () => {
+  const url = getOAuthUrl();
+
+  useEffect(() => {
+    window.location.assign(url);
+  }, [url]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background grid-pattern">
+      <div className="text-center">
+        <Activity className="h-8 w-8 mx-auto mb-4 text-primary animate-pulse" />
+        <p className="mb-2 text-foreground">Redirecting to Deriv to log in...</p>
+        <a href={url} className="text-sm text-primary underline hover:text-primary/90">
+          Continue manually
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Builds the same acctN/tokenN/curN redirect Deriv would, echoing the login's state. Tokens are only
+// accepted by the mock server.
+function mockRedirect(state: string | null): string {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const number = String(Math.floor(Math.random() * 9000000) + 1000000);
+  const params = new URLSearchParams({
+    acct1: `VRTC${number}`,
+    token1: `mock_VRTC${number}_${suffix}`,
+    cur1: "usd",
+    acct2: `CR${number}`,
+    token2: `mock_CR${number}_${suffix}`,
+    cur2: "usd",
+  });
+  if (state) params.set("state", state);
+  return `/oauth/callback?${params}`;
+}
+
+// Local stand-in for Deriv's OAuth page, for testing the login flow against the mock server
+const MockOAuth = () => {
+  const [searchParams] = useSearchParams();
+  const [redirect] = useState(() => mockRedirect(searchParams.get("state")));
+  const accounts = new URLSearchParams(redirect.split("?")[1]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background grid-pattern">
+      <div className="w-full max-w-sm border border-border rounded-lg bg-card p-6">
+        <h1 className="mb-1 flex items-center gap-2 text-sm font-medium text-foreground">
+          <FlaskConical className="h-4 w-4 text-primary" />
+          Mock Deriv Login
+        </h1>
+        <p className="mb-4 text-xs text-muted-foreground">
+          Stand-in for oauth.deriv.com (app_id {searchParams.get("app_id") ?? "?"}). The tokens it issues only work with
+          the mock server.
+        </p>
+        <div className="mb-4 space-y-1 font-mono text-xs">
+          <div className="flex justify-between"><span>{accounts.get("acct1")}</span><span className="text-primary">DEMO</span></div>
+          <div className="flex justify-between"><span>{accounts.get("acct2")}</span><span className="text-warning">REAL</span></div>
+        </div>
+        <div className="flex gap-2">
+          {/* A full page load, as after Deriv's real redirect */}
+          <Button size="sm" className="flex-1" onClick={() => window.location.assign(redirect)}>
+            Authorize
+          </Button>
+          <Button size="sm" variant="outline" asChild>
+            <Link to="/oauth/callback">Cancel</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockOAuth;
@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Key } from "lucide-react";
+import { clearOAuthState, matchesOAuthState, parseOAuthRedirect } from "@/lib/deriv-oauth";
+import { accountManager } from "@/lib/account-manager";
+import { tradingEngine } from "@/lib/trading-engine";
+import { useVaultStatus } from "@/hooks/use-vault-status";
+import { toast } from "@/hooks/use-toast";
+import { VaultUnlockForm } from "@/components/VaultUnlockForm";
+
+// Deriv's redirect target: saves the returned accounts in the vault and authorizes with the first
+const OAuthCallback = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const vaultStatus = useVaultStatus();
+  const [logins] = useState(() => parseOAuthRedirect(location.search));
+  const [stateMatches] = useState(() => matchesOAuthState(location.search));
+  const [error, setError] = useState<string | null>(null);
+
+  // Tokens should not linger in the address bar or the history
+  useEffect(() => {
+    if (location.search) {
+      clearOAuthState();
+      navigate(location.pathname, { replace: true });
+    }
+  }, [location.search, location.pathname, navigate]);
+
+  useEffect(() => {
+    if (!stateMatches || logins.length === 0 || (vaultStatus !== "unlocked" && vaultStatus !== "unavailable")) return;
+
+    try {
+      const [first] = accountManager.importAccounts(logins);
+      if (!tradingEngine.switchAccount(first.id)) {
+        setError(`Saved ${logins.length} Deriv account(s), but did not switch to ${logins[0].loginid}: stop the engine and let open positions close, then switch from the accounts panel.`);
+        return;
+      }
+      toast({ title: "Logged In", description: `Saved ${logins.length} Deriv account(s)` });
+      navigate("/", { replace: true });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [logins, stateMatches, vaultStatus, navigate]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background grid-pattern">
+      <div className="w-full max-w-sm border border-border rounded-lg bg-card p-6">
+        <h1 className="mb-4 flex items-center gap-2 text-sm font-medium text-foreground">
+          <Key className="h-4 w-4 text-primary" />
+          Deriv Login
+        </h1>
+        {logins.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Deriv did not return any accounts. The login may have been cancelled.</p>
+        ) : !stateMatches ? (
+          <p className="text-sm text-loss">
+            This login was not started from this tab, so its accounts were not saved.{" "}
+            <Link to="/login" className="text-primary underline hover:text-primary/90">Log in again</Link>
+          </p>
+        ) : (
+          <>
+            <p className="mb-3 text-sm text-muted-foreground">
+              Deriv returned {logins.map(l => l.loginid).join(", ")}. Unlock the vault to save them.
+            </p>
+            <VaultUnlockForm status={vaultStatus} />
+          </>
+        )}
+        {error && <p className="mt-3 text-sm text-loss">{error}</p>}
+        <Link to="/" className="mt-4 block text-sm text-primary underline hover:text-primary/90">
+          Return to the terminal
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default OAuthCallback;